@@ -0,0 +1,368 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import { useAccount, usePublicClient, useWriteContract } from 'wagmi'
+import { type Address, type Hex, formatEther, isAddressEqual } from 'viem'
+import { ACTIVE_CHAIN, EXPLORER_URL } from '@/utils/constants'
+import {
+  cancelPendingChange,
+  executeMineProbabilityChange,
+  executeRewardMultiplierChange,
+  getHouseBalance,
+  getOwner,
+  getParamChangeDelay,
+  getParameterBounds,
+  proposeMineProbabilityChange,
+  proposeRewardMultiplierChange,
+  withdrawHouseFunds,
+  type ParameterBounds
+} from '@/utils/contract'
+import { HISTORY_PAGE_BLOCKS } from '@/utils/history'
+import {
+  checkParameterBounds,
+  formatCountdown,
+  formatParameter,
+  parseParameterInput,
+  scanParameterEvents,
+  type ParameterEvent,
+  type ParameterName
+} from '@/utils/parameters'
+import { browserLocale, classifyError, formatError } from '@/utils/errors'
+import { useGameParameters } from '@/hooks/useGameParameters'
+
+const PARAMETERS: Array<{ parameter: ParameterName; label: string; unit: string }> = [
+  { parameter: 'MINE_PROBABILITY', label: '💣 Mine probability', unit: '%' },
+  { parameter: 'REWARD_MULTIPLIER', label: '💎 Reward multiplier', unit: 'x' }
+]
+
+const shortAddress = (value: string) => `${value.slice(0, 6)}...${value.slice(-4)}`
+
+export default function Admin() {
+  const { address, isConnected } = useAccount()
+  const publicClient = usePublicClient({ chainId: ACTIVE_CHAIN.id })
+  const { writeContractAsync } = useWriteContract()
+  const { parameters, pending, now, refresh: refreshParameters } = useGameParameters()
+
+  const [owner, setOwner] = useState<Address | null>(null)
+  const [bounds, setBounds] = useState<ParameterBounds | null>(null)
+  // Timelock between proposing and executing a change (seconds)
+  const [delay, setDelay] = useState<bigint | null>(null)
+  const [houseBalance, setHouseBalance] = useState<bigint | null>(null)
+  const [inputs, setInputs] = useState<Record<ParameterName, string>>({ MINE_PROBABILITY: '', REWARD_MULTIPLIER: '' })
+  // Owner action waiting for its receipt
+  const [busy, setBusy] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const [timeline, setTimeline] = useState<ParameterEvent[]>([])
+  const [latestBlock, setLatestBlock] = useState<bigint | null>(null)
+  // Oldest block scanned so far (next page scans the range right before it)
+  const [oldestScanned, setOldestScanned] = useState<bigint | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+
+  const isOwner = address !== undefined && owner !== null && isAddressEqual(address, owner)
+
+  const loadBalance = useCallback(async () => {
+    if (!publicClient) return
+    try {
+      setHouseBalance(await getHouseBalance(publicClient))
+    } catch (e) {
+      console.error('Error reading house balance:', e)
+    }
+  }, [publicClient])
+
+  /**
+   * Scans one more page of the parameter change timeline
+   * @param known - Events of the pages already scanned (empty to start over from the head)
+   */
+  const loadPage = useCallback(async (toBlock: bigint | null, latest: bigint | null, known: ParameterEvent[]) => {
+    if (!publicClient) return
+    setIsLoading(true)
+    try {
+      const head = latest ?? await publicClient.getBlockNumber()
+      const to = toBlock ?? head
+      const from = to >= HISTORY_PAGE_BLOCKS ? to - HISTORY_PAGE_BLOCKS + 1n : 0n
+
+      const scanned = await scanParameterEvents(publicClient, from, to)
+
+      setLatestBlock(head)
+      setOldestScanned(from)
+      setTimeline([...known, ...scanned])
+    } catch (e: unknown) {
+      const err = e as { message?: string }
+      setError("Error loading parameter changes: " + (err.message || String(e)))
+    } finally {
+      setIsLoading(false)
+    }
+  }, [publicClient])
+
+  // Reads the owner and the contract limits once
+  useEffect(() => {
+    if (!publicClient) return
+    Promise.all([getOwner(publicClient), getParameterBounds(publicClient), getParamChangeDelay(publicClient)])
+      .then(([contractOwner, parameterBounds, changeDelay]) => {
+        setOwner(contractOwner)
+        setBounds(parameterBounds)
+        setDelay(changeDelay)
+      })
+      .catch((e: { message?: string }) => setError("Error reading contract owner: " + (e.message || String(e))))
+  }, [publicClient])
+
+  // Loads the balance and the latest timeline page once the owner is connected
+  useEffect(() => {
+    if (!isOwner) return
+    loadBalance()
+    loadPage(null, null, [])
+  }, [isOwner, loadBalance, loadPage])
+
+  const loadOlder = () => {
+    if (oldestScanned === null || oldestScanned === 0n || isLoading) return
+    loadPage(oldestScanned - 1n, latestBlock, timeline)
+  }
+
+  /**
+   * Sends an owner transaction, waits for it and re-reads everything it can change
+   * @param action - Key of the button showing the spinner
+   * @returns true once the transaction succeeded
+   */
+  const runOwnerTx = async (action: string, label: string, send: () => Promise<Hex>): Promise<boolean> => {
+    if (!publicClient || busy) return false
+    setBusy(action)
+    setError(null)
+    try {
+      const receipt = await publicClient.waitForTransactionReceipt({ hash: await send() })
+      if (receipt.status !== 'success') throw new Error(`${label} transaction failed`)
+      await Promise.all([refreshParameters(), loadBalance(), loadPage(null, null, [])])
+      return true
+    } catch (e: unknown) {
+      setError(`Error in ${label}: ` + formatError(classifyError(e, browserLocale())))
+      return false
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const withdraw = () => {
+    if (houseBalance === null) return
+    const warning = `Withdraw the whole house balance (${formatEther(houseBalance)} MON) to the owner? ` +
+      "It includes the pots of games still in progress, whose cash outs would fail until the house is funded again."
+    if (!window.confirm(warning)) return
+    runOwnerTx('withdraw', 'withdrawHouseFunds', () => withdrawHouseFunds(writeContractAsync))
+  }
+
+  const propose = async (parameter: ParameterName, value: bigint) => {
+    const sent = await runOwnerTx(`propose-${parameter}`, 'propose', () => parameter === 'MINE_PROBABILITY'
+      ? proposeMineProbabilityChange(writeContractAsync, value)
+      : proposeRewardMultiplierChange(writeContractAsync, value))
+    if (sent) setInputs(prev => ({ ...prev, [parameter]: '' }))
+  }
+
+  const execute = (parameter: ParameterName) => {
+    runOwnerTx(`execute-${parameter}`, 'execute', () => parameter === 'MINE_PROBABILITY'
+      ? executeMineProbabilityChange(writeContractAsync)
+      : executeRewardMultiplierChange(writeContractAsync))
+  }
+
+  const cancel = (parameter: ParameterName) => {
+    if (!window.confirm(`Cancel the pending ${parameter} change?`)) return
+    runOwnerTx(`cancel-${parameter}`, 'cancelPendingChange', () =>
+      cancelPendingChange(writeContractAsync, parameter === 'MINE_PROBABILITY'))
+  }
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-gray-900 via-purple-900/20 to-gray-900 text-white p-2 sm:p-4 md:p-8 flex flex-col items-center">
+      <div className="w-full max-w-4xl flex flex-col gap-3">
+        <Link href="/" className="text-xs sm:text-sm text-purple-300 hover:text-purple-200">← Back to game</Link>
+
+        <h1 className="text-2xl sm:text-4xl font-black text-center bg-gradient-to-r from-purple-400 via-pink-400 to-blue-400 bg-clip-text text-transparent">
+          🛠️ House Admin
+        </h1>
+
+        {error && (
+          <div className="bg-gradient-to-r from-red-500/10 to-red-600/10 border border-red-500/30 rounded-xl p-4">
+            <p className="text-red-400 font-semibold text-sm">❌ {error}</p>
+          </div>
+        )}
+
+        {!isConnected ? (
+          <p className="text-center text-gray-400 text-sm">Connect the owner wallet on the game page to manage the house.</p>
+        ) : owner === null ? (
+          <p className="text-center text-purple-300 text-sm animate-pulse">Reading contract owner...</p>
+        ) : !isOwner ? (
+          <p className="text-center text-gray-400 text-sm">
+            🔒 Only the contract owner ({shortAddress(owner)}) can use this page.
+          </p>
+        ) : (
+          <>
+            {/* House balance */}
+            <div className="flex items-center justify-between gap-2 bg-gradient-to-r from-yellow-500/10 to-yellow-600/10 border border-yellow-500/30 rounded-xl p-2 sm:p-3">
+              <div>
+                <p className="text-gray-400 text-[10px] sm:text-xs">House balance</p>
+                <p className="text-base sm:text-xl font-bold font-mono text-yellow-400">
+                  {houseBalance !== null ? `${parseFloat(formatEther(houseBalance)).toFixed(4)} MON` : '...'}
+                </p>
+              </div>
+              <button
+                onClick={withdraw}
+                disabled={busy !== null || !houseBalance}
+                className="bg-gradient-to-r from-green-600 to-emerald-600 hover:from-green-500 hover:to-emerald-500 px-3 py-1.5 rounded-lg text-xs sm:text-sm font-semibold transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {busy === 'withdraw' ? '⏳ Withdrawing...' : '💸 Withdraw all'}
+              </button>
+            </div>
+
+            {/* Parameters */}
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              {PARAMETERS.map(({ parameter, label, unit }) => {
+                const current = parameters
+                  ? parameter === 'MINE_PROBABILITY' ? parameters.mineProbability : parameters.rewardMultiplier
+                  : null
+                const change = pending.find(item => item.parameter === parameter)
+                const countdown = change ? formatCountdown(change.changeTime, now) : null
+                const input = inputs[parameter]
+                const value = parseParameterInput(parameter, input)
+                const inputError = input.trim() === ''
+                  ? null
+                  : value === null
+                    ? 'Enter a number (2 decimals for percents, 4 for multipliers)'
+                    : bounds && checkParameterBounds(parameter, value, bounds)
+                return (
+                  <div key={parameter} className="bg-gradient-to-br from-gray-800/90 to-gray-900/90 rounded-xl border border-gray-700/50 p-2 sm:p-3 flex flex-col gap-2">
+                    <div className="flex items-center justify-between">
+                      <span className="text-gray-300 text-xs sm:text-sm font-semibold">{label}</span>
+                      <span className="text-purple-300 font-mono font-bold text-sm sm:text-base">
+                        {current !== null ? formatParameter(parameter, current) : '...'}
+                      </span>
+                    </div>
+                    {bounds && (
+                      <p className="text-gray-500 text-[10px] sm:text-xs">
+                        Allowed: {formatParameter(parameter, parameter === 'MINE_PROBABILITY' ? bounds.minMineProbability : bounds.minRewardMultiplier)}
+                        {' – '}
+                        {formatParameter(parameter, parameter === 'MINE_PROBABILITY' ? bounds.maxMineProbability : bounds.maxRewardMultiplier)}
+                      </p>
+                    )}
+
+                    {change && (
+                      <div className="bg-yellow-500/10 border border-yellow-500/30 rounded-lg p-2 flex flex-col gap-2 text-[10px] sm:text-xs">
+                        <p className="text-yellow-300">
+                          ⏰ Pending: <span className="font-mono font-semibold">{formatParameter(parameter, change.newValue)}</span>
+                          {countdown ? <>, executable in <span className="font-mono">{countdown}</span></> : ', executable now'}
+                        </p>
+                        <div className="flex gap-2">
+                          <button
+                            onClick={() => execute(parameter)}
+                            disabled={busy !== null || countdown !== null}
+                            title={countdown !== null ? 'Timelock not expired' : undefined}
+                            className="flex-1 bg-gradient-to-r from-purple-600 to-blue-600 hover:from-purple-500 hover:to-blue-500 px-2 py-1 rounded-lg font-semibold transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                            {busy === `execute-${parameter}` ? '⏳ Executing...' : '✅ Execute'}
+                          </button>
+                          <button
+                            onClick={() => cancel(parameter)}
+                            disabled={busy !== null}
+                            className="flex-1 bg-gradient-to-r from-red-600 to-red-700 hover:from-red-500 hover:to-red-600 px-2 py-1 rounded-lg font-semibold transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                            {busy === `cancel-${parameter}` ? '⏳ Cancelling...' : '🚫 Cancel'}
+                          </button>
+                        </div>
+                      </div>
+                    )}
+
+                    <div className="flex gap-2 items-center">
+                      <input
+                        type="text"
+                        inputMode="decimal"
+                        value={input}
+                        onChange={(e) => setInputs(prev => ({ ...prev, [parameter]: e.target.value }))}
+                        placeholder={current !== null ? formatParameter(parameter, current).replace(/[%x]$/, '') : ''}
+                        className="flex-1 min-w-0 bg-gray-800/50 border border-gray-700 rounded px-2 py-1 text-white text-xs sm:text-sm font-mono focus:outline-none focus:border-purple-500"
+                      />
+                      <span className="text-gray-400 text-xs">{unit}</span>
+                      <button
+                        onClick={() => value !== null && propose(parameter, value)}
+                        disabled={busy !== null || value === null || !!inputError}
+                        className="bg-gradient-to-r from-yellow-600 to-orange-600 hover:from-yellow-500 hover:to-orange-500 px-2 sm:px-3 py-1 rounded-lg text-xs font-semibold transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        {busy === `propose-${parameter}` ? '⏳ Proposing...' : '📝 Propose'}
+                      </button>
+                    </div>
+                    {inputError && <p className="text-red-400 text-[10px] sm:text-xs">{inputError}</p>}
+                    {change && !inputError && value !== null && (
+                      <p className="text-gray-500 text-[10px] sm:text-xs">Replaces the pending proposal and restarts the timelock.</p>
+                    )}
+                  </div>
+                )
+              })}
+            </div>
+
+            {delay !== null && (
+              <p className="text-gray-500 text-[10px] sm:text-xs text-center">
+                Proposals can be executed {Number(delay) / 3600}h after they are made. Cancelled proposals emit no event,
+                so they stay in the timeline without a matching execution.
+              </p>
+            )}
+
+            {/* Change timeline */}
+            <div className="bg-gradient-to-br from-gray-800/90 to-gray-900/90 rounded-xl border border-gray-700/50 overflow-x-auto">
+              <table className="w-full text-[10px] sm:text-xs">
+                <thead className="text-gray-400 border-b border-gray-700">
+                  <tr>
+                    <th className="text-left p-2">Block</th>
+                    <th className="text-left p-2">Event</th>
+                    <th className="text-left p-2">Parameter</th>
+                    <th className="text-right p-2">Value</th>
+                    <th className="text-right p-2">Executable from</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {timeline.map(event => {
+                    const parameter = event.args.parameter as ParameterName
+                    return (
+                      <tr key={`${event.transactionHash}:${event.logIndex}`} className="border-b border-gray-800 hover:bg-gray-800/50">
+                        <td className="p-2 font-mono">
+                          <a href={EXPLORER_URL && `${EXPLORER_URL}/tx/${event.transactionHash}`} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:text-blue-300">
+                            #{event.blockNumber.toString()}
+                          </a>
+                        </td>
+                        <td className={`p-2 font-semibold ${event.eventName === 'ParameterChanged' ? 'text-green-400' : 'text-yellow-300'}`}>
+                          {event.eventName === 'ParameterChanged' ? 'Executed' : 'Proposed'}
+                        </td>
+                        <td className="p-2 font-mono">{parameter}</td>
+                        <td className="p-2 text-right font-mono">{formatParameter(parameter, event.args.newValue)}</td>
+                        <td className="p-2 text-right font-mono">
+                          {event.eventName === 'ParameterChangeProposed'
+                            ? new Date(Number(event.args.executeTime) * 1000).toLocaleString()
+                            : '-'}
+                        </td>
+                      </tr>
+                    )
+                  })}
+                  {timeline.length === 0 && !isLoading && (
+                    <tr>
+                      <td colSpan={5} className="p-4 text-center text-gray-500">No parameter changes found in the scanned blocks.</td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="flex flex-col items-center gap-1">
+              {oldestScanned !== null && latestBlock !== null && (
+                <p className="text-gray-500 text-[10px] sm:text-xs">
+                  Scanned blocks {oldestScanned.toString()} – {latestBlock.toString()}
+                </p>
+              )}
+              <button
+                onClick={loadOlder}
+                disabled={isLoading || oldestScanned === null || oldestScanned === 0n}
+                className="bg-gradient-to-r from-gray-700 to-gray-800 hover:from-gray-600 hover:to-gray-700 px-4 py-2 rounded-lg text-xs sm:text-sm font-semibold transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isLoading ? '⏳ Loading...' : '⬇️ Scan older blocks'}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </main>
+  )
+}
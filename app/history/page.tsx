@@ -0,0 +1,173 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import { useAccount, usePublicClient } from 'wagmi'
+import { formatEther } from 'viem'
+import { ACTIVE_CHAIN, EXPLORER_URL } from '@/utils/constants'
+import {
+  HISTORY_PAGE_BLOCKS,
+  scanPlayerEvents,
+  mergePlayerEvents,
+  buildHistory,
+  fetchBets,
+  type PlayerEvents
+} from '@/utils/history'
+
+const EMPTY_EVENTS: PlayerEvents = { requested: [], cellRevealed: [], gameOver: [] }
+
+export default function History() {
+  const { address, isConnected } = useAccount()
+  const publicClient = usePublicClient({ chainId: ACTIVE_CHAIN.id })
+
+  const [events, setEvents] = useState<PlayerEvents>(EMPTY_EVENTS)
+  const [bets, setBets] = useState<Map<bigint, bigint>>(new Map())
+  const [latestBlock, setLatestBlock] = useState<bigint | null>(null)
+  // Oldest block scanned so far (next page scans the range right before it)
+  const [oldestScanned, setOldestScanned] = useState<bigint | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadPage = useCallback(async (toBlock: bigint | null, latest: bigint | null) => {
+    if (!publicClient || !address) return
+    setIsLoading(true)
+    setError(null)
+    try {
+      const head = latest ?? await publicClient.getBlockNumber()
+      const to = toBlock ?? head
+      const from = to >= HISTORY_PAGE_BLOCKS ? to - HISTORY_PAGE_BLOCKS + 1n : 0n
+
+      const scanned = await scanPlayerEvents(publicClient, address, from, to, head)
+      const newBets = await fetchBets(publicClient, scanned.requested)
+
+      setLatestBlock(head)
+      setOldestScanned(from)
+      setEvents(prev => mergePlayerEvents(prev, scanned))
+      setBets(prev => new Map([...prev, ...newBets]))
+    } catch (e: unknown) {
+      const err = e as { message?: string }
+      setError("Error loading history: " + (err.message || String(e)))
+    } finally {
+      setIsLoading(false)
+    }
+  }, [publicClient, address])
+
+  // Loads the most recent page whenever the connected address changes
+  useEffect(() => {
+    setEvents(EMPTY_EVENTS)
+    setBets(new Map())
+    setOldestScanned(null)
+    setLatestBlock(null)
+    loadPage(null, null)
+  }, [loadPage])
+
+  const loadOlder = () => {
+    if (oldestScanned === null || oldestScanned === 0n || isLoading) return
+    loadPage(oldestScanned - 1n, latestBlock)
+  }
+
+  const history = buildHistory(events, bets)
+  const totalPayout = history.reduce((sum, entry) => sum + (entry.finalPayout ?? 0n), 0n)
+  const totalBet = history.reduce((sum, entry) => sum + (entry.bet ?? 0n), 0n)
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-gray-900 via-purple-900/20 to-gray-900 text-white p-2 sm:p-4 md:p-8 flex flex-col items-center">
+      <div className="w-full max-w-4xl flex flex-col gap-3">
+        <Link href="/" className="text-xs sm:text-sm text-purple-300 hover:text-purple-200">← Back to game</Link>
+
+        <h1 className="text-2xl sm:text-4xl font-black text-center bg-gradient-to-r from-purple-400 via-pink-400 to-blue-400 bg-clip-text text-transparent">
+          📜 Game History
+        </h1>
+
+        {!isConnected ? (
+          <p className="text-center text-gray-400 text-sm">Connect your wallet on the game page to see your history.</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-3 gap-2">
+              <div className="bg-gradient-to-r from-purple-500/10 to-blue-500/10 border border-purple-500/30 rounded-xl p-2 sm:p-3">
+                <p className="text-gray-400 text-[10px] sm:text-xs">Games</p>
+                <p className="text-base sm:text-xl font-bold font-mono text-purple-300">{history.length}</p>
+              </div>
+              <div className="bg-gradient-to-r from-yellow-500/10 to-yellow-600/10 border border-yellow-500/30 rounded-xl p-2 sm:p-3">
+                <p className="text-gray-400 text-[10px] sm:text-xs">Total bet</p>
+                <p className="text-base sm:text-xl font-bold font-mono text-yellow-400">{parseFloat(formatEther(totalBet)).toFixed(4)} MON</p>
+              </div>
+              <div className="bg-gradient-to-r from-green-500/10 to-emerald-500/10 border border-green-500/30 rounded-xl p-2 sm:p-3">
+                <p className="text-gray-400 text-[10px] sm:text-xs">Total payout</p>
+                <p className="text-base sm:text-xl font-bold font-mono text-green-400">{parseFloat(formatEther(totalPayout)).toFixed(4)} MON</p>
+              </div>
+            </div>
+
+            {error && (
+              <div className="bg-gradient-to-r from-red-500/10 to-red-600/10 border border-red-500/30 rounded-xl p-4">
+                <p className="text-red-400 font-semibold text-sm">❌ {error}</p>
+              </div>
+            )}
+
+            <div className="bg-gradient-to-br from-gray-800/90 to-gray-900/90 rounded-xl border border-gray-700/50 overflow-x-auto">
+              <table className="w-full text-[10px] sm:text-xs">
+                <thead className="text-gray-400 border-b border-gray-700">
+                  <tr>
+                    <th className="text-left p-2">Game</th>
+                    <th className="text-right p-2">Bet</th>
+                    <th className="text-right p-2">Safe</th>
+                    <th className="text-right p-2">Payout</th>
+                    <th className="text-center p-2">Result</th>
+                    <th className="text-right p-2">Txs</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {history.map(entry => (
+                    <tr key={entry.gameId.toString()} className="border-b border-gray-800 hover:bg-gray-800/50">
+                      <td className="p-2 font-mono">
+                        <Link href={`/verify/${entry.gameId.toString()}`} className="text-purple-300 hover:text-purple-200">
+                          #{entry.gameId.toString()}
+                        </Link>
+                      </td>
+                      <td className="p-2 text-right font-mono text-yellow-400">
+                        {entry.bet !== null ? formatEther(entry.bet) : '?'}
+                      </td>
+                      <td className="p-2 text-right font-mono">{entry.safeReveals}</td>
+                      <td className="p-2 text-right font-mono text-green-400">
+                        {entry.finalPayout !== null ? formatEther(entry.finalPayout) : '-'}
+                      </td>
+                      <td className="p-2 text-center">
+                        {entry.result === 'won' ? '💰 Won' : entry.result === 'lost' ? '💣 Lost' : '⏳ Active'}
+                      </td>
+                      <td className="p-2 text-right space-x-2">
+                        <a href={EXPLORER_URL && `${EXPLORER_URL}/tx/${entry.startTx}`} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:text-blue-300">start</a>
+                        {entry.endTx && (
+                          <a href={EXPLORER_URL && `${EXPLORER_URL}/tx/${entry.endTx}`} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:text-blue-300">end</a>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                  {history.length === 0 && !isLoading && (
+                    <tr>
+                      <td colSpan={6} className="p-4 text-center text-gray-500">No games found in the scanned blocks.</td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="flex flex-col items-center gap-1">
+              {oldestScanned !== null && latestBlock !== null && (
+                <p className="text-gray-500 text-[10px] sm:text-xs">
+                  Scanned blocks {oldestScanned.toString()} – {latestBlock.toString()}
+                </p>
+              )}
+              <button
+                onClick={loadOlder}
+                disabled={isLoading || oldestScanned === null || oldestScanned === 0n}
+                className="bg-gradient-to-r from-gray-700 to-gray-800 hover:from-gray-600 hover:to-gray-700 px-4 py-2 rounded-lg text-xs sm:text-sm font-semibold transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isLoading ? '⏳ Loading...' : '⬇️ Load older games'}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </main>
+  )
+}
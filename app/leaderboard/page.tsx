@@ -0,0 +1,167 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import { useAccount, usePublicClient } from 'wagmi'
+import { formatEther } from 'viem'
+import { ACTIVE_CHAIN, EXPLORER_URL } from '@/utils/constants'
+import {
+  fetchLeaderboard,
+  rankPlayers,
+  type LeaderboardWindow,
+  type LeaderboardMetric,
+  type PlayerStats
+} from '@/utils/leaderboard'
+
+const WINDOWS: Array<{ id: LeaderboardWindow; label: string }> = [
+  { id: 'daily', label: '24h' },
+  { id: 'weekly', label: '7 days' },
+  { id: 'all', label: 'All time' }
+]
+
+const METRICS: Array<{ id: LeaderboardMetric; label: string }> = [
+  { id: 'totalPayout', label: '💰 Total payout' },
+  { id: 'biggestWin', label: '🏆 Biggest win' },
+  { id: 'longestStreak', label: '💎 Longest streak' },
+  { id: 'netProfit', label: '📈 Net profit' }
+]
+
+const formatMetric = (stats: PlayerStats, metric: LeaderboardMetric) => {
+  if (metric === 'longestStreak') return `${stats.longestStreak} cells`
+  return `${parseFloat(formatEther(stats[metric])).toFixed(4)} MON`
+}
+
+export default function Leaderboard() {
+  const { address } = useAccount()
+  const publicClient = usePublicClient({ chainId: ACTIVE_CHAIN.id })
+
+  const [period, setPeriod] = useState<LeaderboardWindow>('daily')
+  const [metric, setMetric] = useState<LeaderboardMetric>('totalPayout')
+  const [stats, setStats] = useState<PlayerStats[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  // Share of blocks scanned while all-time catches up (null otherwise)
+  const [progress, setProgress] = useState<number | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const load = useCallback(async () => {
+    if (!publicClient) return
+    setIsLoading(true)
+    setError(null)
+    try {
+      setStats(await fetchLeaderboard(publicClient, period, (scanned, total) => {
+        setProgress(Number((scanned * 100n) / total))
+      }))
+    } catch (e: unknown) {
+      const err = e as { message?: string }
+      setError("Error loading leaderboard: " + (err.message || String(e)))
+    } finally {
+      setIsLoading(false)
+      setProgress(null)
+    }
+  }, [publicClient, period])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const ranked = rankPlayers(stats, metric)
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-gray-900 via-purple-900/20 to-gray-900 text-white p-2 sm:p-4 md:p-8 flex flex-col items-center">
+      <div className="w-full max-w-4xl flex flex-col gap-3">
+        <Link href="/" className="text-xs sm:text-sm text-purple-300 hover:text-purple-200">← Back to game</Link>
+
+        <h1 className="text-2xl sm:text-4xl font-black text-center bg-gradient-to-r from-purple-400 via-pink-400 to-blue-400 bg-clip-text text-transparent">
+          🏆 Leaderboard
+        </h1>
+
+        <div className="flex flex-wrap justify-center gap-2">
+          {WINDOWS.map(option => (
+            <button
+              key={option.id}
+              onClick={() => setPeriod(option.id)}
+              disabled={isLoading}
+              className={`px-3 py-1.5 rounded-lg text-xs sm:text-sm font-semibold transition-all disabled:opacity-50 ${period === option.id ? 'bg-gradient-to-r from-purple-600 to-blue-600' : 'bg-gray-800 hover:bg-gray-700'}`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap justify-center gap-2">
+          {METRICS.map(option => (
+            <button
+              key={option.id}
+              onClick={() => setMetric(option.id)}
+              className={`px-3 py-1.5 rounded-lg text-xs font-semibold transition-all ${metric === option.id ? 'bg-gradient-to-r from-yellow-600 to-orange-600' : 'bg-gray-800 hover:bg-gray-700'}`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        {error && (
+          <div className="bg-gradient-to-r from-red-500/10 to-red-600/10 border border-red-500/30 rounded-xl p-4">
+            <p className="text-red-400 font-semibold text-sm">❌ {error}</p>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="py-12 flex flex-col items-center gap-3">
+            <div className="animate-spin rounded-full h-12 w-12 border-t-4 border-b-4 border-purple-500"></div>
+            <p className="text-purple-300 font-semibold animate-pulse">
+              Aggregating games...{progress !== null && ` ${progress}%`}
+            </p>
+            {progress !== null && (
+              <p className="text-gray-400 text-[10px] sm:text-xs">The first all-time scan takes a while; later loads only scan new blocks</p>
+            )}
+          </div>
+        ) : (
+          <div className="bg-gradient-to-br from-gray-800/90 to-gray-900/90 rounded-xl border border-gray-700/50 overflow-x-auto">
+            <table className="w-full text-[10px] sm:text-xs">
+              <thead className="text-gray-400 border-b border-gray-700">
+                <tr>
+                  <th className="text-left p-2">#</th>
+                  <th className="text-left p-2">Player</th>
+                  <th className="text-right p-2">{METRICS.find(option => option.id === metric)?.label}</th>
+                  <th className="text-right p-2">Games</th>
+                  <th className="text-right p-2">Wins</th>
+                </tr>
+              </thead>
+              <tbody>
+                {ranked.map((entry, i) => {
+                  const isMe = address && entry.player.toLowerCase() === address.toLowerCase()
+                  return (
+                    <tr key={entry.player} className={`border-b border-gray-800 ${isMe ? 'bg-purple-500/10' : 'hover:bg-gray-800/50'}`}>
+                      <td className="p-2 font-bold">{i === 0 ? '🥇' : i === 1 ? '🥈' : i === 2 ? '🥉' : i + 1}</td>
+                      <td className="p-2 font-mono">
+                        <a href={EXPLORER_URL && `${EXPLORER_URL}/address/${entry.player}`} target="_blank" rel="noopener noreferrer" className="text-purple-300 hover:text-purple-200">
+                          {entry.player.slice(0, 6)}...{entry.player.slice(-4)}
+                        </a>
+                        {isMe && <span className="ml-1 text-yellow-400">(you)</span>}
+                      </td>
+                      <td className="p-2 text-right font-mono text-yellow-400">{formatMetric(entry, metric)}</td>
+                      <td className="p-2 text-right font-mono">{entry.games}</td>
+                      <td className="p-2 text-right font-mono">{entry.wins}</td>
+                    </tr>
+                  )
+                })}
+                {ranked.length === 0 && (
+                  <tr>
+                    <td colSpan={5} className="p-4 text-center text-gray-500">No finished games in this period.</td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {period !== 'all' && (
+          <p className="text-gray-500 text-[10px] sm:text-xs text-center">
+            Only games started and finished inside the selected period are counted.
+          </p>
+        )}
+      </div>
+    </main>
+  )
+}
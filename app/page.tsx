@@ -1,188 +1,208 @@
 'use client'
 
-import { useState, useEffect, useRef, useCallback } from 'react'
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import Link from 'next/link'
 // Wagmi imports (For main wallet)
-import { useAccount, useConnect, useWriteContract, useSwitchChain } from 'wagmi'
-import { parseEther, formatEther, createWalletClient, http, publicActions, decodeEventLog, createPublicClient, type Hex, type PrivateKeyAccount, toHex } from 'viem'
-import { keccak256 } from 'viem'
-import { usePublicClient } from 'wagmi'
-import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts'
-// Chain and ABI imports
-import { monadTestnet } from 'viem/chains'
-// Contract function imports
+import { useAccount, useConnect, useSwitchChain } from 'wagmi'
+import { formatEther, parseEther } from 'viem'
+// Network registry (active chain, switcher)
+import { ACTIVE_CHAIN } from '@/utils/constants'
+import { NETWORKS, isDeployed, saveSelectedChainId } from '@/utils/networks'
+// Burner wallet, session key and game flow
+import { useBurnerWallet, type WithdrawEstimate } from '@/hooks/useBurnerWallet'
+import { DEFAULT_AUTO_LOCK_MS } from '@/hooks/useKeyVault'
+import { useKeyRotation } from '@/hooks/useKeyRotation'
+import { type KeyRotation, type RotationStep } from '@/utils/keyVault'
+import { useSessionKey } from '@/hooks/useSessionKey'
+import { useMinesGame } from '@/hooks/useMinesGame'
+import { useBalanceGuard } from '@/hooks/useBalanceGuard'
+import { useGameParameters } from '@/hooks/useGameParameters'
+import { formatCountdown, formatMultiplier, formatParameter, formatProbability } from '@/utils/parameters'
+import { useHouseBalance } from '@/hooks/useHouseBalance'
+import { SOLVENCY_REVEALS, maxSafeBet, potAfter, potSolvency } from '@/utils/solvency'
+import { browserLocale } from '@/utils/errors'
+// Activity log
+import { useActivityLog } from '@/hooks/useActivityLog'
 import {
-  getSessionDelegate,
-  getGameInfo,
-  getEntropyFee,
-  registerSessionKey,
-  revokeSessionKey,
-  startGame as startGameContract,
-  revealCell as revealCellContract,
-  cashOut as cashOutContract,
-  findEventInLogs,
-  ZERO_BYTES32,
-  CONTRACT_ADDRESS,
-  CONTRACT_ABI
-} from '@/utils/contract'
-
-// Types
-type GameState = {
-  id: bigint | null;
-  pot: string;
-  isActive: boolean;
-  status: "idle" | "waiting_pyth" | "waiting_nonce" | "playing" | "game_over" | "won";
-  revealedMask: bigint;
-  revealedCount: number;
-  nonceRevealed: boolean;
-};
-
-// Type for window.ethereum
-declare global {
-  interface Window {
-    ethereum?: {
-      request: (args: { method: string; params?: unknown[] }) => Promise<unknown>;
-    };
-  }
+  LOG_CATEGORIES,
+  LOG_LEVELS,
+  filterLogs,
+  logTxUrl,
+  shortHash,
+  type LogCategory,
+  type LogLevel
+} from '@/utils/activityLog'
+
+// Rotation progress shown in the rotate modal
+const ROTATION_STEPS: Array<{ step: RotationStep; label: string }> = [
+  { step: 'created', label: 'New key created' },
+  { step: 'swept', label: 'Funds swept' },
+  { step: 'registered', label: 'New key authorized' },
+  { step: 'revoked', label: 'Old key revoked' }
+]
+
+// Log panel colors per level
+const LOG_LEVEL_COLORS: Record<LogLevel, string> = {
+  info: 'text-green-400/90',
+  success: 'text-emerald-300',
+  warning: 'text-yellow-400',
+  error: 'text-red-400'
 }
 
-type BurnerClient = ReturnType<typeof createWalletClient> & ReturnType<typeof publicActions>;
+// Adds or removes a value of a filter list
+function toggled<T>(list: T[], value: T): T[] {
+  return list.includes(value) ? list.filter(item => item !== value) : [...list, value]
+}
 
 export default function Home() {
-  const chain = monadTestnet;
+  const chain = ACTIVE_CHAIN;
+  // Error messages follow the browser language (the app only renders after mount)
+  const locale = browserLocale()
   // --- WAGMI (Main Wallet) ---
   const { address, isConnected, chainId } = useAccount()
   const { connect, connectors } = useConnect()
-  const { switchChain } = useSwitchChain()
-  const { writeContractAsync } = useWriteContract() // Modern replacement for signer.sendTransaction
-  const wagmiPublicClient = usePublicClient()
-
-  // --- VIEM (Session Key / Burner Wallet) ---
-  // Burner Wallet doesn't use Wagmi hooks, as we don't want to connect it in the global UI
-  const [burnerAccount, setBurnerAccount] = useState<PrivateKeyAccount | null>(null)
-  const [burnerBalance, setBurnerBalance] = useState<string>("0")
-  const [isSessionActive, setIsSessionActive] = useState(false)
-  
+  const { switchChain, switchChainAsync } = useSwitchChain()
+
   // Top-up modal states
   const [showTopUpModal, setShowTopUpModal] = useState(false)
   const [topUpAmount, setTopUpAmount] = useState<string>("0.05")
-  const [mainBalance, setMainBalance] = useState<string>("0")
   
   // Withdraw modal states
   const [showWithdrawModal, setShowWithdrawModal] = useState(false)
   const [withdrawAmount, setWithdrawAmount] = useState<string>("0")
-  const [estimatedGas, setEstimatedGas] = useState<string>("0.001")
-  const [isWithdrawing, setIsWithdrawing] = useState(false)
-  const [withdrawError, setWithdrawError] = useState<string | null>(null)
-
-  // Viem client for Burner Wallet (For reading and writing)
-  // publicActions allows using this client to read data as well (getBalance, readContract)
-  const burnerClient = useRef<BurnerClient | null>(null)
-  const eventUnwatchRef = useRef<(() => void) | null>(null)
-  const balanceIntervalRef = useRef<NodeJS.Timeout | null>(null)
-  const timeoutRef = useRef<NodeJS.Timeout | null>(null)
-
-  // Game State
-  const [game, setGame] = useState<GameState>({
-    id: null, pot: "0", isActive: false, status: "idle", revealedMask: 0n, revealedCount: 0, nonceRevealed: false
-  })
+  const [withdrawEstimate, setWithdrawEstimate] = useState<WithdrawEstimate | null>(null)
+
   const [betAmount, setBetAmount] = useState<string>("0.001")
-  const [minePosition, setMinePosition] = useState<{ x: number; y: number } | null>(null)
   const [showMineModal, setShowMineModal] = useState(false)
   const [gridShake, setGridShake] = useState(false)
-  const [lostPot, setLostPot] = useState<string>("0")
   const [showHowToPlayModal, setShowHowToPlayModal] = useState(false)
+
+  // Vault prompt states
+  const [passphrase, setPassphrase] = useState("")
+  const [passphraseConfirm, setPassphraseConfirm] = useState("")
+  const [passphraseMismatch, setPassphraseMismatch] = useState(false)
+
+  // Key rotation modal states
+  const [showRotateModal, setShowRotateModal] = useState(false)
+  const [rotatePassphrase, setRotatePassphrase] = useState("")
+  const [sweepTo, setSweepTo] = useState<KeyRotation['sweepTo']>('new')
   
-  // State for commit-reveal nonce
-  const [currentNonce, setCurrentNonce] = useState<Hex | null>(null)
-  
-  // Fixed multiplier of 1.2x per hit
-  const currentMultiplier = "1.20"
-  const [logs, setLogs] = useState<string[]>([])
-  const logsEndRef = useRef<HTMLDivElement>(null)
-  const seedPollingRef = useRef<NodeJS.Timeout | null>(null)
-
-  const updateBurnerBalance = useCallback(async () => {
-    if (!burnerClient.current || !burnerAccount) return
-    try {
-      const bal = await burnerClient.current.getBalance({ address: burnerAccount.address })
-      setBurnerBalance(formatEther(bal))
-    } catch (e) {
-      console.error('Error updating balance:', e)
-    }
-  }, [burnerAccount])
+  // Activity log (persisted in IndexedDB), with one logger per category
+  const { entries: logs, logger, clear: clearLogs } = useActivityLog({ chain })
+  const addLog = useMemo(() => logger('game'), [logger])
+  const walletLog = useMemo(() => logger('wallet'), [logger])
+  const sessionLog = useMemo(() => logger('session'), [logger])
+  const [logLevels, setLogLevels] = useState<LogLevel[]>([...LOG_LEVELS])
+  const [logCategories, setLogCategories] = useState<LogCategory[]>([...LOG_CATEGORIES])
+  const shownLogs = useMemo(
+    () => filterLogs(logs, { levels: logLevels, categories: logCategories }),
+    [logs, logLevels, logCategories]
+  )
 
-  const updateMainBalance = useCallback(async () => {
-    if (!address || !wagmiPublicClient) return
-    try {
-      const publicClient = wagmiPublicClient || createPublicClient({
-        chain: chain,
-        transport: http()
-      })
-      const bal = await publicClient.getBalance({ address })
-      setMainBalance(formatEther(bal))
-    } catch (e) {
-      console.error('Error updating main balance:', e)
-    }
-  }, [address, wagmiPublicClient, chain])
+  // Mine hit: shakes the grid and shows the modal after a small delay for visual effect
+  const handleMineHit = useCallback(() => {
+    setGridShake(true)
+    setTimeout(() => setShowMineModal(true), 300)
+    // Removes shake after animation
+    setTimeout(() => setGridShake(false), 1000)
+  }, [])
 
-  // 1. INITIAL SETUP (Creates Burner Wallet)
-  useEffect(() => {
-    let pKey = localStorage.getItem("monad_session_key") as Hex | null
-    if (!pKey) {
-      pKey = generatePrivateKey() // Viem utility
-      localStorage.setItem("monad_session_key", pKey)
+  // --- HOOKS (Burner Wallet, Session Key, Game) ---
+  const {
+    vault,
+    burnerAccount,
+    burnerClient,
+    burnerBalance,
+    isBurnerBalanceLoaded,
+    mainBalance,
+    updateMainBalance,
+    estimateWithdraw,
+    topUp,
+    withdraw,
+    isWithdrawing,
+    withdrawError,
+    clearWithdrawError
+  } = useBurnerWallet({ chain, onLog: walletLog, locale })
+  const { isSessionActive, activate: activateSession, revoke: revokeSession } = useSessionKey({
+    burnerAccount,
+    reader: burnerClient,
+    chain,
+    onLog: sessionLog,
+    locale
+  })
+  const {
+    game,
+    minePosition,
+    lostPot,
+    syncMode,
+    start,
+    reveal: handleCellClick,
+    cashOut: handleCashOut,
+    clearMine,
+    recoverableGames,
+    restoreGame,
+    dismissRecovery
+  } = useMinesGame({ burnerClient, chain, onLog: addLog, locale, onMineHit: handleMineHit })
+  const {
+    rotation,
+    isRotating,
+    error: rotationError,
+    start: startRotation,
+    resume: resumeRotation,
+    cancel: cancelRotation,
+    canCancel: canCancelRotation
+  } = useKeyRotation({ vault, burnerClient, chain, onLog: sessionLog })
+  const balanceGuard = useBalanceGuard({
+    chain,
+    reader: burnerClient,
+    burnerBalance,
+    isBalanceLoaded: isBurnerBalanceLoaded,
+    topUp,
+    onLog: walletLog
+  })
+  const { parameters, pending: pendingParameterChanges, now } = useGameParameters({ chain })
+  // Live values (placeholders until the first read)
+  const currentMultiplier = parameters ? `${formatMultiplier(parameters.rewardMultiplier)}x` : '…'
+  const mineChance = parameters ? formatProbability(parameters.mineProbability) : '…'
+
+  // House solvency: bets are checked against SOLVENCY_REVEALS safe reveals, pots against the next reveals
+  const houseBalance = useHouseBalance({ chain })
+  const betValue = (() => {
+    try {
+      return parseFloat(betAmount) > 0 ? parseEther(betAmount) : null
+    } catch {
+      return null
     }
-    
-    // Configures the Viem account
-    const account = privateKeyToAccount(pKey)
-    setBurnerAccount(account)
-
-    // Creates the client that will sign fast transactions
-    const client = createWalletClient({
-      account,
-      chain: chain,
-      transport: http()
-    }).extend(publicActions)
-    burnerClient.current = client as unknown as BurnerClient // Adds read methods
-
-    // Clears previous interval if it exists
-    if (balanceIntervalRef.current) {
-      clearInterval(balanceIntervalRef.current)
+  })()
+  const maxBet = houseBalance !== null && parameters ? maxSafeBet(houseBalance, parameters.rewardMultiplier, SOLVENCY_REVEALS) : null
+  const isBetOverMax = maxBet !== null && betValue !== null && betValue > maxBet
+  // Not even the first safe reveal could be cashed out
+  const isBetUncovered = houseBalance !== null && parameters !== null && betValue !== null &&
+    potAfter(betValue, parameters.rewardMultiplier, 1) > houseBalance + betValue
+  const solvency = game.status === 'playing' && houseBalance !== null && parameters
+    ? potSolvency(parseEther(game.pot), houseBalance, parameters.rewardMultiplier)
+    : 'ok'
+
+  // Rotating mid-game would revoke the key that signs the moves
+  const isGameInProgress = game.status === 'waiting_pyth' || game.status === 'waiting_nonce' || game.status === 'playing'
+
+  // Network switcher: addresses are fixed per page load, so the new network applies after a reload
+  const handleNetworkChange = async (nextChainId: number) => {
+    if (nextChainId === chain.id) return
+    if (isGameInProgress) {
+      walletLog("⚠️ Finish the current game before switching networks")
+      return
     }
-
-    // Function to update balance (defined locally to avoid dependency)
-    const updateBalance = async () => {
-      if (!burnerClient.current || !account) return
+    saveSelectedChainId(nextChainId)
+    if (isConnected) {
       try {
-        const bal = await burnerClient.current.getBalance({ address: account.address })
-        setBurnerBalance(formatEther(bal))
+        await switchChainAsync({ chainId: nextChainId })
       } catch (e) {
-        console.error('Error updating balance:', e)
-      }
-    }
-
-    // Starts polling Burner balance (every 10 seconds to reduce load)
-    updateBalance()
-    balanceIntervalRef.current = setInterval(updateBalance, 10000)
-    
-    return () => {
-      if (balanceIntervalRef.current) {
-        clearInterval(balanceIntervalRef.current)
-        balanceIntervalRef.current = null
-      }
-      if (timeoutRef.current) {
-        clearTimeout(timeoutRef.current)
-        timeoutRef.current = null
+        console.error('Error switching wallet network:', e)
       }
     }
-  }, [chain]) // Runs only once on component mount
-
-  // Separate effect to update balance when account changes
-  useEffect(() => {
-    if (burnerAccount && burnerClient.current) {
-      updateBurnerBalance()
-    }
-  }, [burnerAccount, updateBurnerBalance])
+    window.location.reload()
+  }
 
   // Checks if on the correct chain
   useEffect(() => {
@@ -191,32 +211,6 @@ export default function Home() {
     }
   }, [isConnected, chainId, switchChain, chain])
 
-  const checkAuthorization = useCallback(async () => {
-    if (!burnerClient.current || !burnerAccount || !address) return
-    try {
-        // burnerClient.current has publicActions, so it can be used as PublicClient
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        const delegate = await getSessionDelegate(burnerClient.current as any, burnerAccount.address)
-        setIsSessionActive(delegate.toLowerCase() === address.toLowerCase())
-    } catch (e) { console.error(e) }
-  }, [burnerAccount, address])
-
-  // Checks if Session Key is authorized in the contract
-  useEffect(() => {
-    if (address && burnerAccount && burnerClient.current) {
-        checkAuthorization()
-    }
-  }, [address, burnerAccount, checkAuthorization])
-
-  // Updates main wallet balance when connecting or changing address
-  useEffect(() => {
-    if (address && wagmiPublicClient) {
-      updateMainBalance()
-      const interval = setInterval(updateMainBalance, 10000) // Updates every 10 seconds
-      return () => clearInterval(interval)
-    }
-  }, [address, wagmiPublicClient, updateMainBalance])
-
   // Updates balance when opening modal
   useEffect(() => {
     if (showTopUpModal && address) {
@@ -224,14 +218,6 @@ export default function Home() {
     }
   }, [showTopUpModal, address, updateMainBalance])
 
-  const addLog = (msg: string) => {
-    setLogs(prev => {
-      const newLogs = [`> ${msg}`, ...prev]
-      // Limits to 100 logs to avoid excessive memory consumption
-      return newLogs.slice(0, 100)
-    })
-  }
-
   // ---------------- ACTIONS ----------------
 
   // A. Open top-up modal
@@ -243,893 +229,85 @@ export default function Home() {
   // A2. Open withdraw modal and calculate gas
   const openWithdrawModal = async () => {
     setShowWithdrawModal(true)
-    setWithdrawError(null) // Clears previous errors when opening modal
-    
-    // Calculates estimated gas for the transaction
-    if (address && burnerAccount && burnerClient.current) {
-      try {
-        const publicClient = wagmiPublicClient || createPublicClient({
-          chain: chain,
-          transport: http()
-        })
-        
-        // Estimates gas for a simple transfer transaction
-        const gasEstimate = await publicClient.estimateGas({
-          account: burnerAccount,
-          to: address,
-          value: parseEther("0.001") // Minimum value to estimate
-        })
-        
-        // Gets current gas price
-        const gasPrice = await publicClient.getGasPrice()
-        
-        // Calculates total gas cost
-        const gasCost = gasEstimate * gasPrice
-        const gasCostInEther = formatEther(gasCost)
-        
-        // Adds a 20% safety margin
-        const gasWithMargin = parseFloat(gasCostInEther) * 1.2
-        setEstimatedGas(gasWithMargin.toFixed(6))
-        
-        // Sets initial value as balance minus gas
-        const maxWithdraw = Math.max(0, parseFloat(burnerBalance) - gasWithMargin)
-        setWithdrawAmount(maxWithdraw > 0 ? maxWithdraw.toFixed(6) : "0")
-      } catch (e) {
-        console.error('Error calculating gas:', e)
-        // Fallback to fixed value if there's an error
-        setEstimatedGas("0.001")
-        const maxWithdraw = Math.max(0, parseFloat(burnerBalance) - 0.001)
-        setWithdrawAmount(maxWithdraw > 0 ? maxWithdraw.toFixed(6) : "0")
-      }
-    } else {
-      setEstimatedGas("0.001")
-      setWithdrawAmount(burnerBalance)
-    }
+    clearWithdrawError() // Clears previous errors when opening modal
+
+    setWithdrawEstimate(null)
+    const estimate = await estimateWithdraw()
+    setWithdrawEstimate(estimate)
+    // Sets initial value as the exact balance minus gas
+    setWithdrawAmount(estimate && estimate.maxAmount > 0n ? formatEther(estimate.maxAmount) : "0")
   }
 
   // A3. Withdraw - Uses Burner Wallet to send back to Main Wallet
   const handleWithdraw = async () => {
-    if (!address || !burnerAccount || !burnerClient.current || isWithdrawing) return
-    
-    // Clears previous errors
-    setWithdrawError(null)
-    
-    const amount = parseFloat(withdrawAmount)
-    if (isNaN(amount) || amount <= 0) {
-      const errorMsg = "❌ Invalid value!"
-      addLog(errorMsg)
-      setWithdrawError(errorMsg)
-      return
+    if (!withdrawEstimate) return
+    const result = await withdraw(withdrawAmount, withdrawEstimate)
+    if (result.maxAmount) {
+      setWithdrawAmount(result.maxAmount)
     }
-
-    const burnerBal = parseFloat(burnerBalance)
-    const gasCost = parseFloat(estimatedGas)
-    
-    if (amount > burnerBal) {
-      const errorMsg = "❌ Insufficient balance in burner account!"
-      addLog(errorMsg)
-      setWithdrawError(errorMsg)
-      return
-    }
-
-    // Checks if there's sufficient balance including gas
-    if (amount + gasCost > burnerBal) {
-      const maxAmount = Math.max(0, burnerBal - gasCost)
-      const errorMsg = `⚠️ Insufficient balance including gas. Maximum available: ${maxAmount.toFixed(6)} MON`
-      addLog(errorMsg)
-      setWithdrawError(errorMsg)
-      setWithdrawAmount(maxAmount.toFixed(6))
-      return
-    }
-
-    setIsWithdrawing(true)
-    try {
-        addLog(`Withdrawing ${withdrawAmount} MON to main wallet...`)
-        
-        // Uses burner account to send MON back to main wallet
-        // burnerClient already has the account configured in createWalletClient
-        // @ts-expect-error - Account is already configured in client, doesn't need to be passed again
-        const hash = await burnerClient.current.sendTransaction({
-            to: address as `0x${string}`,
-            value: parseEther(withdrawAmount)
-        })
-        
-        addLog(`Withdraw sent! Hash: ${hash.slice(0, 10)}...`)
-        addLog("⏳ Waiting for confirmation...")
-        
-        // Waits for transaction confirmation
-        const receipt = await burnerClient.current.waitForTransactionReceipt({ hash })
-        
-        // Checks if transaction was successful
-        if (receipt.status !== 'success') {
-          const errorMsg = "❌ Withdraw transaction failed!"
-          addLog(errorMsg)
-          setWithdrawError(errorMsg)
-          setIsWithdrawing(false)
-          return
-        }
-        
-        addLog(`✅ Withdraw confirmed at block: ${receipt.blockNumber}`)
-        addLog("💰 Funds transferred to main wallet!")
-        
-        // Clears errors before closing
-        setWithdrawError(null)
-        
-        // Closes modal
-        setShowWithdrawModal(false)
-        setIsWithdrawing(false)
-        
-        // Updates balances immediately
-        await updateBurnerBalance()
-        await updateMainBalance()
-        
-        // Clears previous timeout if it exists
-        if (timeoutRef.current) {
-          clearTimeout(timeoutRef.current)
-        }
-        // Updates again after a delay to ensure synchronization
-        timeoutRef.current = setTimeout(() => {
-          updateBurnerBalance()
-          updateMainBalance()
-        }, 2000)
-    } catch (e: unknown) { 
-        const error = e as { message?: string }
-        let errorMsg = "❌ Withdraw error: " + (error.message || String(e))
-        
-        // Translates common error messages
-        if (error.message?.includes("insufficient funds")) {
-          errorMsg = "❌ Insufficient balance to cover gas!"
-        } else if (error.message?.includes("user rejected") || error.message?.includes("User rejected")) {
-          errorMsg = "❌ Transaction cancelled by user"
-        } else if (error.message?.includes("execution reverted")) {
-          errorMsg = "❌ Transaction reverted by contract"
-        }
-        
-        addLog(errorMsg)
-        setWithdrawError(errorMsg)
-        setIsWithdrawing(false)
+    if (result.ok) {
+      setShowWithdrawModal(false)
     }
   }
 
-  // A. Top Up (Uses Main Wallet via Wagmi)
-  const handleTopUp = async () => {
-    if (!address || !burnerAccount || !window.ethereum) return
-    
-    const amount = parseFloat(topUpAmount)
-    if (isNaN(amount) || amount <= 0) {
-      addLog("❌ Invalid value!")
+  // A4. Unlock (or create/encrypt) the game wallet key
+  const handleUnlock = async () => {
+    // New passphrases are typed twice
+    if (vault.status !== 'locked' && passphrase !== passphraseConfirm) {
+      setPassphraseMismatch(true)
       return
     }
-
-    const mainBal = parseFloat(mainBalance)
-    if (amount > mainBal) {
-      addLog("❌ Insufficient balance in main wallet!")
-      return
+    setPassphraseMismatch(false)
+    if (await vault.unlock(passphrase)) {
+      setPassphrase("")
+      setPassphraseConfirm("")
     }
+  }
 
-    try {
-        addLog(`Sending ${topUpAmount} MON...`)
-        const hash = await window.ethereum.request({
-            method: 'eth_sendTransaction',
-            params: [{ 
-              from: address, 
-              to: burnerAccount.address, 
-              value: `0x${parseEther(topUpAmount).toString(16)}` 
-            }]
-        }) as string
-        addLog(`TopUp sent! Hash: ${hash.slice(0, 10)}...`)
-        
-        // Closes modal
-        setShowTopUpModal(false)
-        
-        // Clears previous timeout if it exists
-        if (timeoutRef.current) {
-          clearTimeout(timeoutRef.current)
-        }
-        timeoutRef.current = setTimeout(() => {
-          updateBurnerBalance()
-          updateMainBalance()
-        }, 2000)
-    } catch (e: unknown) { 
-        const error = e as { message?: string }
-        addLog("❌ TopUp Error: " + (error.message || String(e))) 
+  // A5. Forgotten passphrase: discards the key after confirmation
+  const handleForgetKey = () => {
+    const warning = vault.keySource === 'signature'
+      ? "Stop using the signature-derived game wallet? You can derive it again at any time."
+      : "Discard the locked game wallet? Any MON left in it will be lost."
+    if (window.confirm(warning)) {
+      vault.forget()
+      setPassphrase("")
     }
   }
 
-  // B. Authorize Session (Uses Main Wallet via Wagmi)
-  const activateSession = async () => {
-    if (!burnerAccount || !address) return
-    try {
-        addLog("Authorizing session key...")
-        const publicClient = wagmiPublicClient || createPublicClient({
-          chain: chain,
-          transport: http()
-        })
-
-        const hash = await registerSessionKey(writeContractAsync, burnerAccount.address)
-        addLog(`Tx sent. Hash: ${hash.slice(0, 10)}...`)
-        addLog("⏳ Waiting for confirmation...")
-        
-        // Manual polling to check transaction status
-        let receipt = null
-        let attempts = 0
-        const maxAttempts = 30 // 30 tentativas = ~30 segundos
-        const pollingInterval = 2000 // 2 segundos
-        
-        while (attempts < maxAttempts && !receipt) {
-          try {
-            receipt = await publicClient.getTransactionReceipt({ hash })
-            if (receipt) break
-          } catch {
-            // Transaction not yet confirmed, continues waiting
-          }
-          attempts++
-          if (attempts % 5 === 0) {
-            addLog(`   Still waiting... (${attempts * 2}s)`)
-          }
-          await new Promise(resolve => setTimeout(resolve, pollingInterval))
-        }
-        
-        // If receipt wasn't obtained, checks contract state directly
-        if (!receipt) {
-          addLog("⚠️ Could not get transaction receipt, checking contract state directly...")
-          try {
-            // Waits a bit more before checking
-            await new Promise(resolve => setTimeout(resolve, 3000))
-            
-            const delegate = await getSessionDelegate(publicClient, burnerAccount.address)
-            
-            if (delegate.toLowerCase() === address.toLowerCase()) {
-              addLog("✅ Session key is active! (verified directly)")
-              setIsSessionActive(true)
-              return
-            } else {
-              addLog("⚠️ Session key not yet active. Transaction may still be pending.")
-              addLog("💡 The transaction was sent. Please refresh the page in a few seconds.")
-              return
-            }
-          } catch {
-            addLog("⚠️ Could not verify session key status. Transaction was sent.")
-            addLog("💡 Please refresh the page in a few seconds to check status.")
-            return
-          }
-        }
-        
-        if (receipt.status !== 'success') {
-          addLog("❌ Transaction failed!")
-          return
-        }
-        
-        addLog(`✅ Transaction confirmed at block: ${receipt.blockNumber}`)
-        
-        // Checks SessionKeyRegistered event
-        let eventFound = false
-        if (receipt.logs) {
-          const event = findEventInLogs(receipt.logs, "SessionKeyRegistered")
-          
-          if (event) {
-            eventFound = true
-            addLog("✅ Session key registered successfully!")
-            setIsSessionActive(true)
-            await checkAuthorization() // Updates state
-          }
-        }
-        
-        // If event wasn't found, checks contract directly
-        if (!eventFound) {
-          addLog("⚠️ Event not found in logs, checking contract state...")
-          try {
-            const delegate = await getSessionDelegate(publicClient, burnerAccount.address)
-            
-            if (delegate.toLowerCase() === address.toLowerCase()) {
-              addLog("✅ Session key is active!")
-              setIsSessionActive(true)
-            } else {
-              addLog("⚠️ Session key may not be registered. Please check the transaction.")
-            }
-          } catch (checkError) {
-            addLog("⚠️ Could not verify session key status. Please check manually.")
-            console.error('Error checking session key:', checkError)
-            // checkError is used in console.error
-          }
-        }
-    } catch (e: unknown) { 
-        const error = e as { message?: string; name?: string }
-        const errorMessage = error.message || String(e)
-        
-        if (errorMessage.includes('timeout') || errorMessage.includes('Timeout')) {
-          addLog("⏱️ Transaction confirmation timeout. The transaction may still be pending.")
-          addLog("💡 Please check the transaction status in the block explorer.")
-        } else {
-          addLog("❌ Authorization error: " + errorMessage)
-        }
+  // A6. Rotate session key: new burner, sweep, authorize new, revoke old
+  const handleRotate = async () => {
+    const done = rotation ? await resumeRotation() : await startRotation(rotatePassphrase, sweepTo)
+    setRotatePassphrase("")
+    if (done) {
+      setShowRotateModal(false)
     }
   }
 
-  // B2. Revoke Session (Uses Main Wallet via Wagmi)
-  const revokeSession = async () => {
-    if (!burnerAccount || !address) return
-    try {
-        addLog("Revoking session key...")
-        const publicClient = wagmiPublicClient || createPublicClient({
-          chain: chain,
-          transport: http()
-        })
-
-        const hash = await revokeSessionKey(writeContractAsync, burnerAccount.address)
-        addLog(`Tx sent. Hash: ${hash.slice(0, 10)}...`)
-        addLog("⏳ Waiting for confirmation...")
-        
-        // Manual polling to check transaction status
-        let receipt = null
-        let attempts = 0
-        const maxAttempts = 30 // 30 tentativas = ~30 segundos
-        const pollingInterval = 2000 // 2 segundos
-        
-        while (attempts < maxAttempts && !receipt) {
-          try {
-            receipt = await publicClient.getTransactionReceipt({ hash })
-            if (receipt) break
-          } catch {
-            // Transaction not yet confirmed, continues waiting
-          }
-          attempts++
-          if (attempts % 5 === 0) {
-            addLog(`   Still waiting... (${attempts * 2}s)`)
-          }
-          await new Promise(resolve => setTimeout(resolve, pollingInterval))
-        }
-        
-        // If receipt wasn't obtained, checks contract state directly
-        if (!receipt) {
-          addLog("⚠️ Could not get transaction receipt, checking contract state directly...")
-          try {
-            // Waits a bit more before checking
-            await new Promise(resolve => setTimeout(resolve, 3000))
-            
-            const delegate = await getSessionDelegate(publicClient, burnerAccount.address)
-            
-            if (delegate.toLowerCase() === address.toLowerCase()) {
-              addLog("⚠️ Session key is still active. Transaction may still be pending.")
-              addLog("💡 The transaction was sent. Please refresh the page in a few seconds.")
-              return
-            } else {
-              addLog("✅ Session key is revoked! (verified directly)")
-              setIsSessionActive(false)
-              return
-            }
-          } catch {
-            addLog("⚠️ Could not verify session key status. Transaction was sent.")
-            addLog("💡 Please refresh the page in a few seconds to check status.")
-            return
-          }
-        }
-        
-        if (receipt.status !== 'success') {
-          addLog("❌ Transaction failed!")
-          return
-        }
-        
-        addLog(`✅ Transaction confirmed at block: ${receipt.blockNumber}`)
-        
-        // Checks SessionKeyRevoked event
-        let eventFound = false
-        if (receipt.logs) {
-          const event = findEventInLogs(receipt.logs, "SessionKeyRevoked")
-          
-          if (event) {
-            eventFound = true
-            addLog("✅ Session key revoked successfully!")
-            setIsSessionActive(false)
-            await checkAuthorization() // Updates state
-          }
-        }
-        
-        // If event wasn't found, checks contract directly
-        if (!eventFound) {
-          addLog("⚠️ Event not found in logs, checking contract state...")
-          try {
-            const delegate = await getSessionDelegate(publicClient, burnerAccount.address)
-            
-            if (delegate.toLowerCase() === address.toLowerCase()) {
-              addLog("⚠️ Session key may still be active. Please check the transaction.")
-            } else {
-              addLog("✅ Session key is revoked!")
-              setIsSessionActive(false)
-            }
-          } catch (checkError) {
-            addLog("⚠️ Could not verify session key status. Please check manually.")
-            console.error('Error checking session key:', checkError)
-            // checkError is used in console.error
-          }
-        }
-    } catch (e: unknown) { 
-        const error = e as { message?: string; name?: string }
-        const errorMessage = error.message || String(e)
-        
-        if (errorMessage.includes('timeout') || errorMessage.includes('Timeout')) {
-          addLog("⏱️ Transaction confirmation timeout. The transaction may still be pending.")
-          addLog("💡 Please check the transaction status in the block explorer.")
-        } else {
-          addLog("❌ Revocation error: " + errorMessage)
-        }
+  // A. Top Up (Uses Main Wallet), with the modal amount or the low-balance suggestion
+  const handleTopUp = async (amount: string = topUpAmount) => {
+    if (await topUp(amount)) {
+      setShowTopUpModal(false)
     }
   }
 
-        // C. Start Game (Uses Main Wallet - Pays the bet)
+  // C. Start Game (Uses Main Wallet - Pays the bet)
   const startGame = async () => {
-    // Validates bet amount
-    const betValue = parseFloat(betAmount)
-    if (isNaN(betValue) || betValue <= 0) {
-      addLog("❌ Invalid bet amount!")
+    // The burner must be able to finish the game it starts
+    if (balanceGuard.isLow) {
+      addLog(`⚠️ Game wallet only covers ${balanceGuard.revealsLeft} reveals, top up to at least ${balanceGuard.settings.minReveals} reveals plus a cashout before starting`)
       return
     }
-    
-    // Resets game state before starting
-    setGame({
-      id: null,
-      pot: "0",
-      isActive: false,
-      status: "idle",
-      revealedMask: 0n,
-      revealedCount: 0,
-      nonceRevealed: false
-    })
-    setMinePosition(null)
-    setShowMineModal(false)
-    setGridShake(false)
-    setLostPot("0")
-    
-    // 1. Generates random 32-byte nonce using crypto.getRandomValues
-    addLog("🔐 Generating nonce...")
-    const randomBytesArray = new Uint8Array(32)
-    crypto.getRandomValues(randomBytesArray)
-    const nonce = toHex(randomBytesArray) as Hex
-    setCurrentNonce(nonce)
-    
-    // 2. Creates nonce hash using keccak256
-    const nonceCommit = keccak256(nonce)
-    addLog(`   Nonce hash: ${nonceCommit.slice(0, 10)}...`)
-    
-    // 3. Stores nonce in localStorage along with timestamp
-    const gameData = {
-      nonce: nonce,
-      timestamp: Date.now()
-    }
-    localStorage.setItem(`monad_game_nonce_${Date.now()}`, JSON.stringify(gameData))
-
-    try {
-        addLog("Starting game...")
-        
-        // Reuses wagmi public client to avoid creating multiple instances
-        const publicClient = wagmiPublicClient || createPublicClient({
-          chain: chain,
-          transport: http()
-        })
-
-        // 1. Gets Entropy fee (getFeeV2)
-        // Uses Entropy address directly from constant
-        addLog("💰 Getting Entropy fee...")
-        const pythFee = await getEntropyFee(publicClient)
-        addLog(`   Entropy fee: ${formatEther(pythFee)} MON`)
-
-        // 3. Calculates total value (fee + bet amount set by user)
-        const betValue = parseEther(betAmount)
-        const totalValue = pythFee + betValue
-        addLog(`   Bet amount: ${betAmount} MON`)
-        addLog(`   Total value: ${formatEther(totalValue)} MON`)
-
-        // 4. Calls startGame with nonceCommit
-        addLog("🚀 Calling startGame with nonce commit...")
-        const hash = await startGameContract(writeContractAsync, nonceCommit, totalValue)
-        
-        addLog(`Tx sent! Hash: ${hash.slice(0, 10)}...`)
-        setGame(prev => ({ ...prev, status: "waiting_pyth" }))
-        
-
-        // 5. Waits for transaction confirmation
-        addLog("Waiting for confirmation...")
-        const receipt = await publicClient.waitForTransactionReceipt({ hash })
-        
-        // Checks if transaction was successful
-        if (receipt.status !== 'success') {
-          addLog("❌ Transaction failed!")
-          setGame(prev => ({ ...prev, status: "idle" }))
-          setCurrentNonce(null)
-          return
-        }
-
-        addLog(`✅ Transaction confirmed at block: ${receipt.blockNumber}`)
-
-        // 6. Gets gameId from GameRequested event
-        let gameId: bigint | null = null
-        if (receipt.logs) {
-          const gameRequestedEvent = findEventInLogs(receipt.logs, "GameRequested")
-          
-          if (gameRequestedEvent && gameRequestedEvent.parsed) {
-            const args = gameRequestedEvent.parsed.args as { gameId?: bigint; player?: string; nonceCommit?: Hex }
-            gameId = args.gameId || null
-            if (gameId) {
-              addLog(`🎯 Game ID: ${gameId}`)
-              setGame(prev => ({ ...prev, id: gameId }))
-              
-              // Stores gameId and nonce in localStorage for recovery
-              const gameData = {
-                gameId: gameId.toString(),
-                nonce: nonce,
-                timestamp: Date.now()
-              }
-              localStorage.setItem(`monad_game_${gameId.toString()}`, JSON.stringify(gameData))
-            }
-          }
-        }
-
-        if (!gameId) {
-          addLog("❌ Could not get gameId")
-          setGame(prev => ({ ...prev, status: "idle" }))
-          setCurrentNonce(null)
-          return
-        }
-
-        // 7. Waits for GameStarted event (Pyth seed)
-        addLog("⏳ Waiting for GameStarted event (Pyth seed)...")
-        
-        // Listens to GameStarted event
-        let gameStartedReceived = false
-        const unwatchGameStarted = publicClient.watchContractEvent({
-          address: CONTRACT_ADDRESS,
-          abi: CONTRACT_ABI,
-          eventName: 'GameStarted',
-          args: {
-            gameId: gameId
-          },
-          onLogs: (logs) => {
-            if (logs.length > 0) {
-              gameStartedReceived = true
-              const log = logs[0]
-              const parsed = decodeEventLog({
-                abi: CONTRACT_ABI,
-                data: log.data,
-                topics: log.topics
-              })
-              const args = parsed.args as { gameId?: bigint; seed?: Hex }
-              addLog(`✅ GameStarted event received! Seed: ${args.seed?.slice(0, 10)}...`)
-              unwatchGameStarted()
-            }
-          }
-        })
-        
-        // Fallback: also does polling in case event isn't captured
-        let attempts = 0
-        const maxAttempts = 30
-        let cancelled = false
-        
-        if (seedPollingRef.current) {
-          clearInterval(seedPollingRef.current)
-          seedPollingRef.current = null
-        }
-        
-        await new Promise<void>((resolve) => {
-          seedPollingRef.current = setInterval(async () => {
-            if (cancelled || gameStartedReceived) {
-              if (seedPollingRef.current) {
-                clearInterval(seedPollingRef.current)
-                seedPollingRef.current = null
-              }
-              if (gameStartedReceived) {
-                unwatchGameStarted()
-              }
-              resolve()
-              return
-            }
-
-            try {
-              attempts++
-              
-              // Checks if event was received
-              if (gameStartedReceived) {
-                cancelled = true
-                if (seedPollingRef.current) {
-                  clearInterval(seedPollingRef.current)
-                  seedPollingRef.current = null
-                }
-                unwatchGameStarted()
-                resolve()
-                return
-              }
-              
-              // Fallback: checks contract directly
-              const gameData = await getGameInfo(publicClient, gameId)
-              
-              const seed = gameData.seed
-              const zeroHash = "0x0000000000000000000000000000000000000000000000000000000000000000" as Hex
-              
-              if (seed !== zeroHash) {
-                gameStartedReceived = true
-                cancelled = true
-                if (seedPollingRef.current) {
-                  clearInterval(seedPollingRef.current)
-                  seedPollingRef.current = null
-                }
-                unwatchGameStarted()
-                addLog(`✅ Seed generated: ${seed.slice(0, 10)}...`)
-                resolve()
-              } else if (attempts >= maxAttempts) {
-                cancelled = true
-                if (seedPollingRef.current) {
-                  clearInterval(seedPollingRef.current)
-                  seedPollingRef.current = null
-                }
-                unwatchGameStarted()
-                addLog("⏱️ Timeout waiting for GameStarted")
-                setGame(prev => ({ ...prev, status: "idle" }))
-                setCurrentNonce(null)
-                resolve()
-              } else if (attempts % 5 === 0) {
-                addLog(`   Waiting for GameStarted... (${attempts}/${maxAttempts})`)
-              }
-            } catch (error) {
-              console.error('Error checking GameStarted:', error)
-              if (attempts >= maxAttempts) {
-                cancelled = true
-                if (seedPollingRef.current) {
-                  clearInterval(seedPollingRef.current)
-                  seedPollingRef.current = null
-                }
-                unwatchGameStarted()
-                resolve()
-              }
-            }
-          }, 1000)
-        })
-
-        if (!gameStartedReceived) {
-          setGame(prev => ({ ...prev, status: "idle" }))
-          setCurrentNonce(null)
-          return
-        }
-
-        // 8. Updates state to wait for first move (nonce reveal)
-        setGame(prev => ({ 
-          ...prev, 
-          status: "waiting_nonce",
-          nonceRevealed: false
-        }))
-        
-        addLog(`🟡 Game #${gameId} ready! Waiting for first move (nonce reveal)...`)
-
-    } catch (e: unknown) { 
-        const error = e as { message?: string; cause?: unknown }
-        const errorMessage: string = error.message || String(e)
-        
-        // Clears seed polling if active
-        if (seedPollingRef.current) {
-          clearInterval(seedPollingRef.current)
-          seedPollingRef.current = null
-        }
-        
-        // Clears nonce on error
-        setCurrentNonce(null)
-        
-        // Resets game state only if necessary
-        if (game.status !== "idle") {
-          setGame(prev => ({ ...prev, status: "idle", nonceRevealed: false }))
-        }
-        
-        if (errorMessage.includes("User rejected") || errorMessage.includes("user rejected")) {
-          addLog("❌ Transaction cancelled by user")
-        } else if (errorMessage.includes("execution reverted") || errorMessage.includes("revert")) {
-          addLog("❌ Transaction reverted by contract. Check the parameters.")
-        } else {
-          addLog("❌ Error: " + errorMessage)
-        }
-    }
-  }
-
-  // Clears watchers and intervals when component unmounts
-  useEffect(() => {
-    return () => {
-      if (eventUnwatchRef.current) {
-        eventUnwatchRef.current()
-        eventUnwatchRef.current = null
-      }
-      if (balanceIntervalRef.current) {
-        clearInterval(balanceIntervalRef.current)
-        balanceIntervalRef.current = null
-      }
-      if (timeoutRef.current) {
-        clearTimeout(timeoutRef.current)
-        timeoutRef.current = null
-      }
-      if (seedPollingRef.current) {
-        clearInterval(seedPollingRef.current)
-        seedPollingRef.current = null
-      }
-    }
-  }, [])
-
-  // D. Play (Uses VIEM + BURNER WALLET)
-  const handleCellClick = async (x: number, y: number) => {
-    if (!game.id || !burnerClient.current) return
-
-    try {
-        // Checks if nonce needs to be revealed (first move)
-        let nonceToUse: Hex | undefined = undefined
-        
-        if (!game.nonceRevealed) {
-          // First move: needs to reveal nonce
-          if (!currentNonce) {
-            // Tries to recover from localStorage
-            const storedData = localStorage.getItem(`monad_game_${game.id.toString()}`)
-            if (storedData) {
-              try {
-                const parsed = JSON.parse(storedData)
-                if (parsed.nonce) {
-                  setCurrentNonce(parsed.nonce as Hex)
-                  nonceToUse = parsed.nonce as Hex
-                  addLog("🔐 Nonce recovered from localStorage")
-                } else {
-                  addLog("❌ Nonce not found! Cannot make first move.")
-                  return
-                }
-            } catch {
-              addLog("❌ Error recovering nonce from localStorage")
-              return
-            }
-            } else {
-              addLog("❌ Nonce not found! Cannot make first move.")
-              return
-            }
-          } else {
-            nonceToUse = currentNonce
-          }
-          addLog(`🔓 Revealing nonce on first move...`)
-        }
-        
-        addLog(`Opening (${x}, ${y})...`)
-        
-        // Reads game state BEFORE sending transaction to have correct pot if mine is found
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        const gameInfoBefore = await getGameInfo(burnerClient.current as any, game.id)
-        const potBefore = gameInfoBefore.currentPot
-        
-        // Direct write via Viem (No popup)
-        // If it's the first move, includes nonce; otherwise sends bytes32 zero
-        const hash = await revealCellContract(
-          burnerClient.current,
-          game.id,
-          x,
-          y,
-          nonceToUse || ZERO_BYTES32
-        )
-        
-        // Waits for receipt
-        const receipt = await burnerClient.current.waitForTransactionReceipt({ hash })
-        
-        // Processes events: NonceRevealed and CellRevealed
-        if (receipt.logs) {
-          // Checks if nonce was revealed (NonceRevealed event)
-          const nonceRevealedEventFound = findEventInLogs(receipt.logs, "NonceRevealed")
-          
-          if (nonceRevealedEventFound && !game.nonceRevealed) {
-            addLog("✅ Nonce revealed successfully! Game is now fully active.")
-            setGame(prev => ({ ...prev, nonceRevealed: true, status: "playing" }))
-            // Clears nonce from memory after successful reveal (but keeps in localStorage for recovery)
-            // Doesn't clear currentNonce yet, may be useful for debugging
-          }
-          
-          // Processes CellRevealed event
-          const cellRevealedEventFound = findEventInLogs(receipt.logs, "CellRevealed")
-          
-          if (cellRevealedEventFound && cellRevealedEventFound.parsed) {
-            const args = cellRevealedEventFound.parsed.args as { gameId?: bigint; x?: number; y?: number; isMine?: boolean; newPot?: bigint }
-            
-            const isMine = args.isMine
-            const newPot = args.newPot
-            
-            if (isMine) {
-              // Uses pot BEFORE finding mine (the pot that was lost) only to show in modal
-              const lostPotValue = formatEther(potBefore)
-              setLostPot(lostPotValue) // Saves lost pot to show in modal
-              addLog(`💥 MINE FOUND at (${x}, ${y})!`)
-              setMinePosition({ x, y })
-              setGridShake(true)
-              // Shows modal after a small delay for visual effect
-              setTimeout(() => {
-                setShowMineModal(true)
-              }, 300)
-              setGame(prev => ({ 
-                ...prev, 
-                status: "game_over", 
-                isActive: false, 
-                pot: "0", // Resets pot to 0 when losing
-                nonceRevealed: true
-              }))
-              // Removes shake after animation
-              setTimeout(() => setGridShake(false), 1000)
-              // Clears localStorage data after game over
-              if (game.id) {
-                localStorage.removeItem(`monad_game_${game.id}`)
-              }
-              setCurrentNonce(null)
-            } else {
-              addLog(`💎 Safe! Pot: ${newPot ? formatEther(newPot) : "0"} MON`)
-            }
-          }
-        }
-        
-        // Reads updated game state to synchronize
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        const gameInfo = await getGameInfo(burnerClient.current as any, game.id)
-        const { currentPot: pot, revealedCells: revealedMask, isActive, isLost, nonceRevealed: nonceRevealedFromContract } = gameInfo
-
-        // Counts number of revealed cells to calculate multiplier
-        let revealedCount = 0
-        for (let i = 0; i < 100; i++) {
-          if ((revealedMask & (1n << BigInt(i))) !== 0n) {
-            revealedCount++
-          }
-        }
-        
-        // Updates complete game state
-        setGame(prev => ({
-          ...prev,
-          pot: prev.status === "game_over" ? "0" : formatEther(pot), // Keeps pot at 0 if already game_over
-          revealedMask: revealedMask,
-          revealedCount: revealedCount,
-          isActive: isActive && !isLost,
-          nonceRevealed: nonceRevealedFromContract,
-          status: isLost ? "game_over" : (nonceRevealedFromContract && isActive) ? "playing" : prev.status === "waiting_nonce" ? "waiting_nonce" : prev.status
-        }))
-
-    } catch (e: unknown) { 
-        const error = e as { message?: string }
-        const errorMessage = error.message || String(e)
-        
-        if (errorMessage.includes("insufficient funds")) {
-          addLog("⚠️ Insufficient Gas in Session Key!")
-        } else if (errorMessage.includes("Celula ja revelada") || errorMessage.includes("célula já revelada") || errorMessage.includes("already revealed")) {
-          addLog(`⚠️ Cell (${x}, ${y}) already revealed`)
-        } else if (errorMessage.includes("Invalid nonce") || errorMessage.includes("nonce inválido") || errorMessage.includes("Nonce mismatch")) {
-          addLog("❌ Error: Invalid nonce! Please verify the nonce is correct.")
-          // Tries to recover from localStorage
-          const storedData = localStorage.getItem(`monad_game_${game.id.toString()}`)
-          if (storedData) {
-            try {
-              const parsed = JSON.parse(storedData)
-              if (parsed.nonce) {
-                setCurrentNonce(parsed.nonce as Hex)
-                addLog("🔐 Nonce recovered from localStorage. Try again.")
-              }
-            } catch {
-              addLog("❌ Could not recover nonce from localStorage.")
-            }
-          }
-        } else if (errorMessage.includes("Seed not available") || errorMessage.includes("seed não disponível") || errorMessage.includes("seed not available")) {
-          addLog("⏳ Wait for Pyth seed to be generated before making moves.")
-        } else {
-          addLog("Error: " + errorMessage)
-        }
+    if (isBetUncovered) {
+      addLog(`⚠️ The house balance (${formatEther(houseBalance!)} MON) can't cover a single safe reveal on this bet, lower it before starting`)
+      return
     }
-  }
-
-  // E. Cashout (Uses VIEM + BURNER)
-  const handleCashOut = async () => {
-    if (!game.id || !burnerClient.current) return
-    try {
-        const hash = await cashOutContract(burnerClient.current, game.id)
-        addLog("Cashout requested!")
-        await burnerClient.current.waitForTransactionReceipt({ hash })
-        setGame(prev => ({ ...prev, status: "won", isActive: false }))
-        addLog("💰 Money in account!")
-        
-        // Clears localStorage data after cashout
-        localStorage.removeItem(`monad_game_${game.id.toString()}`)
-        setCurrentNonce(null)
-    } catch (e: unknown) { 
-        const error = e as { message?: string }
-        addLog("Cashout Error: " + (error.message || String(e))) 
+    if (isBetOverMax) {
+      addLog(`⚠️ Bets above ${formatEther(maxBet!)} MON may not be paid out after ${SOLVENCY_REVEALS} safe reveals`)
     }
+    setShowMineModal(false)
+    setGridShake(false)
+    await start(betAmount)
   }
 
   // --- RENDER (Simplified for brevity) ---
@@ -1139,8 +317,10 @@ export default function Home() {
       for (let x = 0; x < 10; x++) {
         const index = BigInt(y * 10 + x)
         const isMineCell = minePosition && minePosition.x === x && minePosition.y === y
-        // If it's a mine cell, doesn't check revealedMask - always shows as mine
-        const isRevealed = !isMineCell && (game.revealedMask & (1n << index)) !== 0n
+        // If it's a mine cell, doesn't check confirmedMask - always shows as mine
+        const isRevealed = !isMineCell && (game.confirmedMask & (1n << index)) !== 0n
+        // Reveal sent, not confirmed or rolled back yet
+        const isPending = !isMineCell && !isRevealed && (game.pendingMask & (1n << index)) !== 0n
         
         let cellClass = 'bg-gradient-to-br from-gray-700 to-gray-800 border-gray-600 hover:from-gray-600 hover:to-gray-700'
         let cellContent = ""
@@ -1151,19 +331,22 @@ export default function Home() {
         } else if (isRevealed) {
           cellClass = 'bg-gradient-to-br from-emerald-400 to-green-500 border-green-400 shadow-md shadow-green-500/30'
           cellContent = "💎"
+        } else if (isPending) {
+          cellClass = 'bg-gradient-to-br from-purple-700 to-gray-800 border-purple-400 animate-pulse'
+          cellContent = "⏳"
         }
         
         cells.push(
             <button 
               key={`${x}-${y}`} 
-              disabled={(game.status !== 'playing' && game.status !== 'waiting_nonce') || isRevealed || !!isMineCell}
+              disabled={(game.status !== 'playing' && game.status !== 'waiting_nonce') || isRevealed || isPending || !!isMineCell}
               onClick={() => handleCellClick(x, y)}
               className={`
                 w-8 h-8 sm:w-10 sm:h-10 md:w-12 md:h-12 border-2 rounded-lg
                 ${cellClass}
                 transition-all duration-200 
                 ${isMineCell ? 'scale-110' : ''}
-                ${!isRevealed && !isMineCell && game.status === 'playing' ? 'hover:scale-105 hover:shadow-lg cursor-pointer active:scale-95' : ''}
+                ${!isRevealed && !isPending && !isMineCell && game.status === 'playing' ? 'hover:scale-105 hover:shadow-lg cursor-pointer active:scale-95' : ''}
                 ${isRevealed || isMineCell ? 'cursor-default' : ''}
                 disabled:opacity-50 disabled:cursor-not-allowed
                 flex items-center justify-center text-sm sm:text-base md:text-xl touch-manipulation
@@ -1198,11 +381,71 @@ export default function Home() {
             >
               ❓ How to Play
             </button>
+            {isConnected && (
+              <Link
+                href="/history"
+                className="absolute top-0 left-0 z-30 bg-gradient-to-r from-gray-700 to-gray-800 hover:from-gray-600 hover:to-gray-700 px-2 sm:px-4 py-1.5 sm:py-2 rounded-lg font-semibold text-xs sm:text-sm transition-all transform hover:scale-105 shadow-md touch-manipulation"
+              >
+                📜 History
+              </Link>
+            )}
+            {isConnected && (
+              <Link
+                href="/sessions"
+                className="absolute top-10 sm:top-12 left-0 z-30 bg-gradient-to-r from-gray-700 to-gray-800 hover:from-gray-600 hover:to-gray-700 px-2 sm:px-4 py-1.5 sm:py-2 rounded-lg font-semibold text-xs sm:text-sm transition-all transform hover:scale-105 shadow-md touch-manipulation"
+              >
+                🔑 Sessions
+              </Link>
+            )}
+            <Link
+              href="/leaderboard"
+              className="absolute top-10 sm:top-12 right-0 z-30 bg-gradient-to-r from-yellow-600 to-orange-600 hover:from-yellow-500 hover:to-orange-500 px-2 sm:px-4 py-1.5 sm:py-2 rounded-lg font-semibold text-xs sm:text-sm transition-all transform hover:scale-105 shadow-md touch-manipulation"
+            >
+              🏆 Leaderboard
+            </Link>
             <h1 className="text-2xl sm:text-4xl md:text-5xl font-black mb-1 bg-gradient-to-r from-purple-400 via-pink-400 to-blue-400 bg-clip-text text-transparent drop-shadow-2xl px-8 sm:px-0">
               💎 MONAD MINES 💎
             </h1>
             <p className="text-gray-400 text-[10px] sm:text-xs mt-1">Discover the mines and win the pot!</p>
+            <select
+              value={chain.id}
+              onChange={(e) => handleNetworkChange(Number(e.target.value))}
+              disabled={isGameInProgress}
+              title={isGameInProgress ? 'Finish the current game to switch networks' : 'Network'}
+              className="mt-2 bg-gray-800/80 border border-gray-700 rounded-lg px-2 py-1 text-[10px] sm:text-xs text-gray-300 focus:outline-none focus:border-purple-500 disabled:opacity-50"
+            >
+              {Object.values(NETWORKS).map(network => (
+                <option key={network.chain.id} value={network.chain.id} disabled={!isDeployed(network)}>
+                  🌐 {network.chain.name}{isDeployed(network) ? '' : ' (not deployed)'}
+                </option>
+              ))}
+            </select>
+            {/* Live game parameters */}
+            {parameters && (
+              <p className="mt-2 text-[10px] sm:text-xs text-gray-400">
+                💣 Mine chance <span className="text-red-300 font-mono font-semibold">{mineChance}</span>
+                <span className="mx-2 text-gray-600">|</span>
+                💎 Per safe cell <span className="text-green-300 font-mono font-semibold">{currentMultiplier}</span>
+              </p>
+            )}
           </div>
+
+          {/* Pending timelocked parameter changes */}
+          {pendingParameterChanges.length > 0 && (
+            <div className="mb-3 bg-gradient-to-r from-yellow-500/10 to-orange-500/10 border border-yellow-500/30 rounded-xl p-2 sm:p-3 text-xs sm:text-sm space-y-1">
+              {pendingParameterChanges.map(change => {
+                const countdown = formatCountdown(change.changeTime, now)
+                return (
+                  <p key={change.parameter} className="text-yellow-300">
+                    ⏰ {change.parameter === 'MINE_PROBABILITY' ? 'Mine chance' : 'Multiplier per safe cell'} changes from{' '}
+                    <span className="font-mono font-semibold">{formatParameter(change.parameter, change.currentValue)}</span> to{' '}
+                    <span className="font-mono font-semibold">{formatParameter(change.parameter, change.newValue)}</span>
+                    {countdown ? <> in <span className="font-mono font-semibold">{countdown}</span></> : ' as soon as the owner executes it'}
+                  </p>
+                )
+              })}
+            </div>
+          )}
         
           {!isConnected ? (
             <div className="flex flex-col items-center justify-center min-h-[60vh]">
@@ -1251,10 +494,30 @@ export default function Home() {
                                 <span className="text-gray-400 text-xs sm:text-sm">Game Wallet:</span>
                                 <span className="text-yellow-400 font-mono font-bold text-base sm:text-lg">{parseFloat(burnerBalance).toFixed(4)} MON</span>
                               </div>
+                              {balanceGuard.revealsLeft !== null && Number.isFinite(balanceGuard.revealsLeft) && (
+                                <p className={`text-[10px] sm:text-xs ${balanceGuard.isLow ? 'text-red-400' : 'text-gray-500'}`}>
+                                  ≈ {balanceGuard.revealsLeft} reveals remaining
+                                </p>
+                              )}
                               {burnerAccount && (
                                 <div className="flex flex-col sm:flex-row sm:items-center gap-1 sm:gap-2">
                                   <span className="text-gray-400 text-[10px] sm:text-xs">Address:</span>
                                   <span className="text-purple-300 font-mono text-[10px] sm:text-xs break-all sm:break-normal">{burnerAccount.address.slice(0,6)}...{burnerAccount.address.slice(-4)}</span>
+                                  <button
+                                    onClick={() => setShowRotateModal(true)}
+                                    disabled={isGameInProgress || vault.keySource === 'signature'}
+                                    title={vault.keySource === 'signature' ? "Signature-derived keys cannot be rotated" : isGameInProgress ? "Finish the current game first" : "Rotate session key"}
+                                    className="text-[10px] sm:text-xs text-gray-400 hover:text-white disabled:opacity-50 disabled:cursor-not-allowed transition-colors touch-manipulation"
+                                  >
+                                    🔄 Rotate
+                                  </button>
+                                  <button
+                                    onClick={vault.lock}
+                                    title="Lock game wallet"
+                                    className="text-[10px] sm:text-xs text-gray-400 hover:text-white transition-colors touch-manipulation"
+                                  >
+                                    🔒 Lock
+                                  </button>
                                 </div>
                               )}
                             </div>
@@ -1278,6 +541,34 @@ export default function Home() {
                     </div>
                 </div>
 
+                {/* Interrupted key rotation */}
+                {rotation && !showRotateModal && (
+                  <div className="flex items-center justify-between gap-2 bg-gradient-to-r from-yellow-500/10 to-orange-500/10 border border-yellow-500/30 rounded-xl p-2 sm:p-3 text-xs sm:text-sm">
+                    <span className="text-yellow-300">⚠️ A session key rotation did not finish.</span>
+                    <button
+                      onClick={() => setShowRotateModal(true)}
+                      className="bg-gradient-to-r from-yellow-600 to-orange-600 hover:from-yellow-500 hover:to-orange-500 px-3 py-1.5 rounded-lg font-semibold transition-all transform hover:scale-105 touch-manipulation"
+                    >
+                      ▶️ Resume
+                    </button>
+                  </div>
+                )}
+
+                {/* Low burner balance */}
+                {balanceGuard.isLow && balanceGuard.suggestedTopUp && (
+                  <div className="flex items-center justify-between gap-2 bg-gradient-to-r from-red-500/10 to-orange-500/10 border border-red-500/30 rounded-xl p-2 sm:p-3 text-xs sm:text-sm">
+                    <span className="text-red-300">
+                      🪫 Game wallet low: {balanceGuard.revealsLeft} reveals left (minimum {balanceGuard.settings.minReveals}).
+                    </span>
+                    <button
+                      onClick={() => handleTopUp(balanceGuard.suggestedTopUp!)}
+                      className="whitespace-nowrap bg-gradient-to-r from-blue-600 to-cyan-600 hover:from-blue-500 hover:to-cyan-500 px-3 py-1.5 rounded-lg font-semibold transition-all transform hover:scale-105 touch-manipulation"
+                    >
+                      ⛽ Top up {parseFloat(balanceGuard.suggestedTopUp).toFixed(4)} MON
+                    </button>
+                  </div>
+                )}
+
                 {/* Session Control */}
                 {!isSessionActive ? (
                     <button 
@@ -1299,17 +590,64 @@ export default function Home() {
                 <div className="flex flex-col lg:flex-row gap-3">
                     {/* Logs - Left Side */}
                     <div className="lg:w-72 bg-gradient-to-br from-black/80 to-gray-900/80 backdrop-blur-sm h-48 sm:h-64 lg:h-auto overflow-y-auto text-[10px] sm:text-xs text-green-400 p-2 sm:p-3 font-mono border border-gray-800 rounded-xl shadow-xl order-2 lg:order-1">
-                        <div className="sticky top-0 bg-gray-900/80 backdrop-blur-sm pb-1 mb-1 border-b border-gray-700 z-10">
-                          <p className="text-gray-400 text-xs font-semibold">📋 LOGS</p>
+                        <div className="sticky top-0 bg-gray-900/80 backdrop-blur-sm pb-1 mb-1 border-b border-gray-700 z-10 space-y-1">
+                          <div className="flex items-center justify-between">
+                            <p className="text-gray-400 text-xs font-semibold">📋 LOGS</p>
+                            <button
+                              onClick={clearLogs}
+                              disabled={logs.length === 0}
+                              className="text-[10px] text-gray-500 hover:text-white disabled:opacity-50 transition-colors"
+                            >
+                              Clear
+                            </button>
+                          </div>
+                          {/* Level and category filters */}
+                          <div className="flex flex-wrap gap-1">
+                            {LOG_LEVELS.map(level => (
+                              <button
+                                key={level}
+                                onClick={() => setLogLevels(prev => toggled(prev, level))}
+                                className={`px-1.5 rounded border text-[10px] transition-colors ${logLevels.includes(level) ? `border-gray-500 ${LOG_LEVEL_COLORS[level]}` : 'border-gray-800 text-gray-600'}`}
+                              >
+                                {level}
+                              </button>
+                            ))}
+                          </div>
+                          <div className="flex flex-wrap gap-1">
+                            {LOG_CATEGORIES.map(category => (
+                              <button
+                                key={category}
+                                onClick={() => setLogCategories(prev => toggled(prev, category))}
+                                className={`px-1.5 rounded border text-[10px] transition-colors ${logCategories.includes(category) ? 'border-purple-500/60 text-purple-300' : 'border-gray-800 text-gray-600'}`}
+                              >
+                                {category}
+                              </button>
+                            ))}
+                          </div>
                         </div>
                         <div className="space-y-1">
-                          {logs.map((l, i) => (
-                            <div key={i} className="text-green-400/90 hover:text-green-300 transition-colors">
-                              {l}
-                            </div>
-                          ))}
+                          {shownLogs.map((entry, i) => {
+                            const txUrl = logTxUrl(entry)
+                            return (
+                              <div key={entry.id ?? `new-${i}`} className={`${LOG_LEVEL_COLORS[entry.level]} hover:brightness-125 transition-colors`}>
+                                <span className="text-gray-500">{new Date(entry.timestamp).toLocaleTimeString()}</span>{' '}
+                                {entry.message}
+                                {entry.hash && (
+                                  <>
+                                    {' '}
+                                    {txUrl ? (
+                                      <a href={txUrl} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:text-blue-300">
+                                        {shortHash(entry.hash)}
+                                      </a>
+                                    ) : (
+                                      <span className="text-gray-400">{shortHash(entry.hash)}</span>
+                                    )}
+                                  </>
+                                )}
+                              </div>
+                            )
+                          })}
                         </div>
-                        <div ref={logsEndRef}/>
                     </div>
 
                     {/* Game Area - Right Side */}
@@ -1360,18 +698,30 @@ export default function Home() {
                                 <div className="bg-gradient-to-r from-green-500/20 to-emerald-500/20 border border-green-500/50 rounded-lg px-2 sm:px-3 py-1.5 sm:py-2 backdrop-blur-sm flex-1 sm:flex-none">
                                   <p className="text-gray-400 text-[10px] sm:text-xs">Mult</p>
                                   <span className="text-base sm:text-xl text-green-400 font-bold font-mono">
-                                    {currentMultiplier}x
+                                    {currentMultiplier}
                                   </span>
                                 </div>
                               )}
                             </div>
                             
+                            {/* Sync indicator - WebSocket subscription or block polling */}
+                            {syncMode && (game.status === 'waiting_pyth' || game.status === 'waiting_nonce' || game.status === 'playing') && (
+                              <span
+                                title={syncMode === 'websocket' ? 'Game events pushed over WebSocket' : 'Game events polled every block'}
+                                className="text-[10px] sm:text-xs text-gray-400 font-mono"
+                              >
+                                {syncMode === 'websocket' ? '⚡ live' : '🔄 polling'}
+                              </span>
+                            )}
+
                             {/* Action Button */}
                             <div className="flex gap-2 w-full sm:w-auto">
                               {game.status === 'playing' && (
                                 <button 
                                   onClick={handleCashOut} 
-                                  className="flex-1 sm:flex-none bg-gradient-to-r from-green-600 to-emerald-600 hover:from-green-500 hover:to-emerald-500 px-3 sm:px-4 py-2 rounded-lg font-bold text-xs sm:text-sm text-white shadow-lg shadow-green-500/30 transition-all transform hover:scale-105 touch-manipulation"
+                                  disabled={game.pendingMask !== 0n}
+                                  title={game.pendingMask !== 0n ? 'Waiting for the pending reveals' : undefined}
+                                  className="flex-1 sm:flex-none bg-gradient-to-r from-green-600 to-emerald-600 hover:from-green-500 hover:to-emerald-500 px-3 sm:px-4 py-2 rounded-lg font-bold text-xs sm:text-sm text-white shadow-lg shadow-green-500/30 transition-all transform hover:scale-105 touch-manipulation disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:scale-100"
                                 >
                                   💰 CASH OUT
                                 </button>
@@ -1384,9 +734,47 @@ export default function Home() {
                                   🎮 NEW GAME
                                 </button>
                               )}
+                              {game.id !== null && (game.status === 'game_over' || game.status === 'won') && (
+                                <Link
+                                  href={`/verify/${game.id.toString()}`}
+                                  className="flex-1 sm:flex-none text-center bg-gradient-to-r from-gray-700 to-gray-800 hover:from-gray-600 hover:to-gray-700 px-3 sm:px-4 py-2 rounded-lg font-bold text-xs sm:text-sm text-white shadow-lg transition-all transform hover:scale-105 touch-manipulation"
+                                >
+                                  🔍 VERIFY
+                                </Link>
+                              )}
                             </div>
                         </div>
                         
+                        {/* House solvency: new bet */}
+                        {(game.status === 'idle' || game.status === 'game_over' || game.status === 'won') && (isBetOverMax || isBetUncovered) && (
+                          <div className={`flex flex-col sm:flex-row sm:items-center justify-between gap-2 mb-3 sm:mb-4 rounded-lg p-2 text-[10px] sm:text-xs border ${isBetUncovered ? 'bg-red-500/10 border-red-500/30 text-red-300' : 'bg-yellow-500/10 border-yellow-500/30 text-yellow-300'}`}>
+                            <span>
+                              {isBetUncovered
+                                ? `🏦 The house holds ${parseFloat(formatEther(houseBalance!)).toFixed(4)} MON and can't pay out even one safe reveal on this bet.`
+                                : `🏦 The house holds ${parseFloat(formatEther(houseBalance!)).toFixed(4)} MON: bets above ${formatEther(maxBet!)} MON may not be paid out after ${SOLVENCY_REVEALS} safe reveals.`}
+                            </span>
+                            {maxBet !== null && maxBet > 0n && (
+                              <button
+                                onClick={() => setBetAmount(formatEther(maxBet))}
+                                className="whitespace-nowrap bg-gray-700 hover:bg-gray-600 px-2 py-1 rounded font-semibold transition-all touch-manipulation"
+                              >
+                                Cap to {formatEther(maxBet)} MON
+                              </button>
+                            )}
+                          </div>
+                        )}
+
+                        {/* House solvency: current pot */}
+                        {solvency !== 'ok' && (
+                          <div className={`mb-3 sm:mb-4 rounded-lg p-2 sm:p-3 text-xs sm:text-sm font-semibold border-2 ${solvency === 'low' ? 'bg-orange-500/10 border-orange-500/50 text-orange-300' : 'bg-red-500/20 border-red-500/60 text-red-300 animate-pulse'}`}>
+                            {solvency === 'insolvent'
+                              ? `🚨 The house balance (${parseFloat(formatEther(houseBalance!)).toFixed(4)} MON) no longer covers your pot: cashing out will fail until the house is funded.`
+                              : solvency === 'at_limit'
+                                ? '🚨 The house cannot pay the pot of your next safe reveal. Cash out now!'
+                                : '⚠️ Your pot is close to the house balance: only a couple more safe reveals can be paid out.'}
+                          </div>
+                        )}
+
                         {/* Game Grid */}
                         <div className="flex flex-col items-center">
                           {game.status === 'waiting_pyth' ? (
@@ -1469,9 +857,49 @@ export default function Home() {
                 </div>
               </div>
 
+              <div className="mb-4 sm:mb-6 bg-gray-800/50 border border-gray-700 rounded-xl p-3 space-y-2 text-xs sm:text-sm">
+                <p className="text-gray-300 font-semibold">🪫 Low balance guard</p>
+                <label className="flex items-center justify-between gap-2 text-gray-400">
+                  Warn below (reveals)
+                  <input
+                    type="number"
+                    min="1"
+                    step="1"
+                    value={balanceGuard.settings.minReveals}
+                    onChange={(e) => balanceGuard.updateSettings({ ...balanceGuard.settings, minReveals: Number(e.target.value) || 1 })}
+                    className="w-16 bg-gray-800/50 border border-gray-700 rounded px-2 py-1 text-white font-mono focus:outline-none focus:border-purple-500"
+                  />
+                </label>
+                <label className="flex items-center justify-between gap-2 text-gray-400">
+                  Refill up to (reveals)
+                  <input
+                    type="number"
+                    min="1"
+                    step="1"
+                    value={balanceGuard.settings.targetReveals}
+                    onChange={(e) => balanceGuard.updateSettings({ ...balanceGuard.settings, targetReveals: Number(e.target.value) || 1 })}
+                    className="w-16 bg-gray-800/50 border border-gray-700 rounded px-2 py-1 text-white font-mono focus:outline-none focus:border-purple-500"
+                  />
+                </label>
+                <label className="flex items-center gap-2 text-gray-400">
+                  <input
+                    type="checkbox"
+                    checked={balanceGuard.settings.autoTopUp}
+                    onChange={(e) => balanceGuard.updateSettings({ ...balanceGuard.settings, autoTopUp: e.target.checked })}
+                  />
+                  Request the refill automatically when low
+                </label>
+                {balanceGuard.costs && (
+                  <p className="text-gray-500 text-[10px] sm:text-xs">
+                    At the current fees a reveal costs up to {parseFloat(formatEther(balanceGuard.costs.reveal)).toFixed(5)} MON
+                    {balanceGuard.gasStats.revealCell.samples > 0 && ` (avg ${balanceGuard.gasStats.revealCell.average.toString()} gas used)`}
+                  </p>
+                )}
+              </div>
+
               <div className="flex flex-col sm:flex-row gap-2 sm:gap-3">
                 <button
-                  onClick={handleTopUp}
+                  onClick={() => handleTopUp()}
                   className="flex-1 bg-gradient-to-r from-purple-600 to-blue-600 hover:from-purple-500 hover:to-blue-500 px-4 sm:px-6 py-2.5 sm:py-3 rounded-xl font-bold text-base sm:text-lg transition-all transform hover:scale-105 shadow-lg shadow-purple-500/30 touch-manipulation"
                 >
                   ✅ Confirm
@@ -1498,16 +926,20 @@ export default function Home() {
               <div className="mb-4 space-y-2 sm:space-y-3">
                 <div className="bg-gradient-to-r from-yellow-500/10 to-yellow-600/10 border border-yellow-500/30 rounded-xl p-3 sm:p-4">
                   <p className="text-gray-400 text-xs sm:text-sm mb-2">💰 Current balance in burner account:</p>
-                  <p className="text-xl sm:text-2xl font-mono text-yellow-400 font-bold">{parseFloat(burnerBalance).toFixed(6)} MON</p>
+                  <p className="text-xl sm:text-2xl font-mono text-yellow-400 font-bold">
+                    {withdrawEstimate ? formatEther(withdrawEstimate.balance) : parseFloat(burnerBalance).toFixed(6)} MON
+                  </p>
                 </div>
                 <div className="bg-gradient-to-r from-blue-500/10 to-cyan-500/10 border border-blue-500/30 rounded-xl p-2 sm:p-3">
-                  <p className="text-gray-400 text-[10px] sm:text-xs mb-1">⛽ Estimated gas:</p>
-                  <p className="text-base sm:text-lg font-mono text-blue-400 font-semibold">{parseFloat(estimatedGas).toFixed(6)} MON</p>
+                  <p className="text-gray-400 text-[10px] sm:text-xs mb-1">⛽ Max gas cost:</p>
+                  <p className="text-base sm:text-lg font-mono text-blue-400 font-semibold">
+                    {withdrawEstimate ? `${formatEther(withdrawEstimate.gasCost)} MON` : '⏳ Estimating...'}
+                  </p>
                 </div>
                 <div className="bg-gradient-to-r from-green-500/10 to-emerald-500/10 border border-green-500/30 rounded-xl p-2 sm:p-3">
                   <p className="text-gray-400 text-[10px] sm:text-xs mb-1">✅ Available to withdraw:</p>
                   <p className="text-base sm:text-lg font-mono text-green-400 font-semibold">
-                    {Math.max(0, parseFloat(burnerBalance) - parseFloat(estimatedGas)).toFixed(6)} MON
+                    {withdrawEstimate ? `${formatEther(withdrawEstimate.maxAmount)} MON` : '-'}
                   </p>
                 </div>
               </div>
@@ -1520,7 +952,7 @@ export default function Home() {
                   type="number"
                   step="0.000001"
                   min="0"
-                  max={Math.max(0, parseFloat(burnerBalance) - parseFloat(estimatedGas))}
+                  max={withdrawEstimate ? formatEther(withdrawEstimate.maxAmount) : undefined}
                   value={withdrawAmount}
                   onChange={(e) => setWithdrawAmount(e.target.value)}
                   className="w-full bg-gray-800/50 border-2 border-gray-700 rounded-xl px-3 sm:px-4 py-2.5 sm:py-3 text-white text-base sm:text-lg font-mono focus:outline-none focus:border-green-500 focus:ring-2 focus:ring-green-500/50 transition-all"
@@ -1528,38 +960,31 @@ export default function Home() {
                 />
                 <div className="flex flex-col sm:flex-row gap-2 mt-3">
                   <button
-                    onClick={() => {
-                      const max = Math.max(0, parseFloat(burnerBalance) - parseFloat(estimatedGas))
-                      setWithdrawAmount(max.toFixed(6))
-                    }}
-                    disabled={isWithdrawing}
+                    onClick={() => withdrawEstimate && setWithdrawAmount(formatEther(withdrawEstimate.maxAmount))}
+                    disabled={isWithdrawing || !withdrawEstimate}
                     className="flex-1 bg-gradient-to-r from-green-600 to-emerald-600 hover:from-green-500 hover:to-emerald-500 px-3 py-2 rounded-lg text-xs sm:text-sm font-semibold transition-all transform hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none touch-manipulation"
                   >
                     Max (All - Gas)
                   </button>
                   <button
-                    onClick={() => {
-                      const available = Math.max(0, parseFloat(burnerBalance) - parseFloat(estimatedGas))
-                      setWithdrawAmount((available * 0.5).toFixed(6))
-                    }}
-                    disabled={isWithdrawing}
+                    onClick={() => withdrawEstimate && setWithdrawAmount(formatEther(withdrawEstimate.maxAmount / 2n))}
+                    disabled={isWithdrawing || !withdrawEstimate}
                     className="flex-1 bg-gradient-to-r from-gray-700 to-gray-800 hover:from-gray-600 hover:to-gray-700 px-3 py-2 rounded-lg text-xs sm:text-sm font-semibold transition-all transform hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none touch-manipulation"
                   >
                     50%
                   </button>
                   <button
-                    onClick={() => {
-                      const available = Math.max(0, parseFloat(burnerBalance) - parseFloat(estimatedGas))
-                      setWithdrawAmount(available.toFixed(6))
-                    }}
-                    disabled={isWithdrawing}
+                    onClick={() => withdrawEstimate && setWithdrawAmount(formatEther(withdrawEstimate.maxAmount))}
+                    disabled={isWithdrawing || !withdrawEstimate}
                     className="flex-1 bg-gradient-to-r from-gray-700 to-gray-800 hover:from-gray-600 hover:to-gray-700 px-3 py-2 rounded-lg text-xs sm:text-sm font-semibold transition-all transform hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none touch-manipulation"
                   >
                     All
                   </button>
                 </div>
                 <p className="text-gray-500 text-[10px] sm:text-xs mt-2">
-                  ℹ️ Estimated gas ({parseFloat(estimatedGas).toFixed(6)} MON) will be deducted automatically
+                  {withdrawEstimate
+                    ? `ℹ️ Gas is paid on top of the amount, at most ${formatEther(withdrawEstimate.gasCost)} MON`
+                    : 'ℹ️ Reading balance and network fees...'}
                 </p>
               </div>
 
@@ -1589,7 +1014,7 @@ export default function Home() {
               <div className="flex flex-col sm:flex-row gap-2 sm:gap-3">
                 <button
                   onClick={handleWithdraw}
-                  disabled={isWithdrawing}
+                  disabled={isWithdrawing || !withdrawEstimate}
                   className="flex-1 bg-gradient-to-r from-green-600 to-emerald-600 hover:from-green-500 hover:to-emerald-500 px-4 sm:px-6 py-2.5 sm:py-3 rounded-xl font-bold text-base sm:text-lg transition-all transform hover:scale-105 shadow-lg shadow-green-500/30 disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none flex items-center justify-center gap-2 touch-manipulation"
                 >
                   {isWithdrawing ? (
@@ -1605,8 +1030,7 @@ export default function Home() {
                   onClick={() => {
                     if (!isWithdrawing) {
                       setShowWithdrawModal(false)
-                      setIsWithdrawing(false)
-                      setWithdrawError(null) // Clears error on cancel
+                      clearWithdrawError() // Clears error on cancel
                     }
                   }}
                   disabled={isWithdrawing}
@@ -1639,7 +1063,8 @@ export default function Home() {
                   <h3 className="text-xl font-bold text-yellow-300 mb-2">💰 Betting</h3>
                   <ul className="text-sm space-y-2 list-disc list-inside">
                     <li>Set your bet amount before starting a new game</li>
-                    <li>Each safe cell you reveal multiplies your potential winnings by 1.2x</li>
+                    <li>Each safe cell you reveal multiplies your potential winnings by {currentMultiplier}</li>
+                    <li>Every cell has a {mineChance} chance of hiding a mine</li>
                     <li>The pot grows with each safe cell you find</li>
                   </ul>
                 </div>
@@ -1677,6 +1102,7 @@ export default function Home() {
                     <li>Start with smaller bets to learn the game</li>
                     <li>Don&apos;t get greedy - cash out when you&apos;re ahead!</li>
                     <li>Keep your Game Wallet topped up for smooth gameplay</li>
+                    <li>Odds changes are timelocked and announced in a banner before they apply</li>
                   </ul>
                 </div>
               </div>
@@ -1693,6 +1119,243 @@ export default function Home() {
           </div>
         )}
 
+        {/* Vault Modal - Unlock, create or encrypt the game wallet key */}
+        {isConnected && (vault.status === 'locked' || vault.status === 'plaintext' || vault.status === 'empty') && (
+          <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50 animate-fadeIn p-2 sm:p-4">
+            <div className="bg-gradient-to-br from-gray-800/95 to-gray-900/95 backdrop-blur-md border-2 border-purple-500/50 rounded-2xl p-4 sm:p-6 max-w-md w-full mx-4 shadow-2xl animate-bounceIn max-h-[95vh] overflow-y-auto">
+              <h2 className="text-xl sm:text-2xl md:text-3xl font-black bg-gradient-to-r from-purple-400 to-blue-400 bg-clip-text text-transparent mb-2 text-center">
+                {vault.status === 'locked' ? '🔒 Game Wallet Locked' : vault.status === 'plaintext' ? '🔐 Encrypt Game Wallet' : '🔐 Create Game Wallet'}
+              </h2>
+              <p className="text-gray-400 text-xs sm:text-sm mb-4 text-center">
+                {vault.status === 'locked' && vault.keySource === 'signature'
+                  ? 'Sign the MonadMines message with your wallet to unlock the game wallet.'
+                  : vault.status === 'locked'
+                  ? 'Enter your passphrase to unlock the game wallet.'
+                  : vault.status === 'plaintext'
+                    ? 'Your game wallet key is stored unencrypted. Choose a passphrase to encrypt it in this browser.'
+                    : 'Choose a passphrase to encrypt the game wallet key stored in this browser.'}
+              </p>
+              {vault.address && (
+                <p className="text-purple-300 font-mono text-[10px] sm:text-xs mb-4 text-center break-all">{vault.address}</p>
+              )}
+
+              {vault.keySource !== 'signature' && (
+                <form
+                  onSubmit={(e) => {
+                    e.preventDefault()
+                    handleUnlock()
+                  }}
+                  className="space-y-3 mb-4"
+                >
+                  <input
+                    type="password"
+                    autoFocus
+                    autoComplete={vault.status === 'locked' ? 'current-password' : 'new-password'}
+                    value={passphrase}
+                    onChange={(e) => {
+                      setPassphrase(e.target.value)
+                      vault.clearError()
+                    }}
+                    className="w-full bg-gray-800/50 border-2 border-gray-700 rounded-xl px-3 sm:px-4 py-2.5 sm:py-3 text-white text-base focus:outline-none focus:border-purple-500 focus:ring-2 focus:ring-purple-500/50 transition-all"
+                    placeholder="Passphrase"
+                  />
+                  {vault.status !== 'locked' && (
+                    <input
+                      type="password"
+                      autoComplete="new-password"
+                      value={passphraseConfirm}
+                      onChange={(e) => {
+                        setPassphraseConfirm(e.target.value)
+                        setPassphraseMismatch(false)
+                      }}
+                      className="w-full bg-gray-800/50 border-2 border-gray-700 rounded-xl px-3 sm:px-4 py-2.5 sm:py-3 text-white text-base focus:outline-none focus:border-purple-500 focus:ring-2 focus:ring-purple-500/50 transition-all"
+                      placeholder="Confirm passphrase"
+                    />
+                  )}
+
+                  {(vault.error || passphraseMismatch) && (
+                    <p className="text-red-400 font-semibold text-xs sm:text-sm">
+                      ⚠️ {passphraseMismatch ? 'Passphrases do not match' : vault.error}
+                    </p>
+                  )}
+
+                  <button
+                    type="submit"
+                    disabled={vault.isUnlocking || !passphrase}
+                    className="w-full bg-gradient-to-r from-purple-600 to-blue-600 hover:from-purple-500 hover:to-blue-500 px-4 sm:px-6 py-2.5 sm:py-3 rounded-xl font-bold text-base sm:text-lg transition-all transform hover:scale-105 shadow-lg shadow-purple-500/30 disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none touch-manipulation"
+                  >
+                    {vault.isUnlocking ? '⏳ Deriving key...' : vault.status === 'locked' ? '🔓 Unlock' : '🔐 Encrypt & Continue'}
+                  </button>
+                </form>
+              )}
+
+              {/* Signature-derived key: same game wallet on every browser, nothing secret stored */}
+              {(vault.status === 'empty' || vault.keySource === 'signature') && (
+                <div className="space-y-2 mb-4">
+                  {vault.status === 'empty' && (
+                    <p className="text-gray-500 text-[10px] sm:text-xs text-center">— or —</p>
+                  )}
+                  <button
+                    onClick={vault.unlockWithSignature}
+                    disabled={vault.isUnlocking}
+                    className="w-full bg-gradient-to-r from-yellow-600 to-orange-600 hover:from-yellow-500 hover:to-orange-500 px-4 sm:px-6 py-2.5 sm:py-3 rounded-xl font-bold text-base sm:text-lg transition-all transform hover:scale-105 shadow-lg shadow-yellow-500/30 disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none touch-manipulation"
+                  >
+                    {vault.isUnlocking ? '⏳ Waiting for signature...' : '✍️ Sign with Wallet'}
+                  </button>
+                  {vault.status === 'empty' && (
+                    <p className="text-gray-500 text-[10px] sm:text-xs text-center">
+                      Derives the game wallet from your wallet signature: the same one comes back on any device, no passphrase needed.
+                    </p>
+                  )}
+                  {vault.keySource === 'signature' && vault.error && (
+                    <p className="text-red-400 font-semibold text-xs sm:text-sm">⚠️ {vault.error}</p>
+                  )}
+                </div>
+              )}
+
+              {vault.status === 'locked' && (
+                <button
+                  onClick={handleForgetKey}
+                  className="w-full text-gray-500 hover:text-red-400 text-[10px] sm:text-xs transition-colors touch-manipulation"
+                >
+                  {vault.keySource === 'signature' ? 'Use a different game wallet' : 'Forgot passphrase? Discard this wallet'}
+                </button>
+              )}
+              <p className="text-gray-500 text-[10px] sm:text-xs mt-3 text-center">
+                ℹ️ The wallet locks itself after {DEFAULT_AUTO_LOCK_MS / 60000} minutes of inactivity.
+              </p>
+            </div>
+          </div>
+        )}
+
+        {/* Rotate Key Modal */}
+        {showRotateModal && (
+          <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50 animate-fadeIn p-2 sm:p-4">
+            <div className="bg-gradient-to-br from-gray-800/95 to-gray-900/95 backdrop-blur-md border-2 border-purple-500/50 rounded-2xl p-4 sm:p-6 max-w-md w-full mx-4 shadow-2xl animate-bounceIn max-h-[95vh] overflow-y-auto">
+              <h2 className="text-xl sm:text-2xl md:text-3xl font-black bg-gradient-to-r from-purple-400 to-blue-400 bg-clip-text text-transparent mb-2 text-center">
+                🔄 Rotate Session Key
+              </h2>
+
+              {!rotation ? (
+                <>
+                  <p className="text-gray-400 text-xs sm:text-sm mb-4 text-center">
+                    Creates a new game wallet, moves the current balance, authorizes the new key and revokes the old one. Your main wallet signs two transactions.
+                  </p>
+
+                  <div className="space-y-2 mb-4">
+                    <label className="flex items-center gap-2 text-xs sm:text-sm text-gray-300 cursor-pointer">
+                      <input type="radio" checked={sweepTo === 'new'} onChange={() => setSweepTo('new')} />
+                      Move balance to the new game wallet
+                    </label>
+                    <label className="flex items-center gap-2 text-xs sm:text-sm text-gray-300 cursor-pointer">
+                      <input type="radio" checked={sweepTo === 'main'} onChange={() => setSweepTo('main')} />
+                      Send balance back to my main wallet
+                    </label>
+                  </div>
+
+                  <input
+                    type="password"
+                    autoComplete="current-password"
+                    value={rotatePassphrase}
+                    onChange={(e) => setRotatePassphrase(e.target.value)}
+                    className="w-full mb-4 bg-gray-800/50 border-2 border-gray-700 rounded-xl px-3 sm:px-4 py-2.5 sm:py-3 text-white text-base focus:outline-none focus:border-purple-500 focus:ring-2 focus:ring-purple-500/50 transition-all"
+                    placeholder="Vault passphrase"
+                  />
+                </>
+              ) : (
+                <div className="space-y-2 mb-4">
+                  <p className="text-purple-300 font-mono text-[10px] sm:text-xs text-center break-all">
+                    {rotation.from.slice(0, 6)}...{rotation.from.slice(-4)} → {rotation.to.address.slice(0, 6)}...{rotation.to.address.slice(-4)}
+                  </p>
+                  {ROTATION_STEPS.map(({ step, label }, index) => {
+                    const done = ROTATION_STEPS.findIndex(s => s.step === rotation.step) >= index
+                    return (
+                      <div key={step} className={`flex items-center gap-2 text-xs sm:text-sm ${done ? 'text-green-400' : 'text-gray-400'}`}>
+                        <span>{done ? '✅' : isRotating ? '⏳' : '⬜'}</span>
+                        {label}
+                      </div>
+                    )
+                  })}
+                </div>
+              )}
+
+              {rotationError && (
+                <p className="mb-4 text-red-400 font-semibold text-xs sm:text-sm">⚠️ {rotationError}</p>
+              )}
+
+              <div className="flex flex-col sm:flex-row gap-2 sm:gap-3">
+                <button
+                  onClick={handleRotate}
+                  disabled={isRotating || (!rotation && !rotatePassphrase)}
+                  className="flex-1 bg-gradient-to-r from-purple-600 to-blue-600 hover:from-purple-500 hover:to-blue-500 px-4 sm:px-6 py-2.5 sm:py-3 rounded-xl font-bold text-base sm:text-lg transition-all transform hover:scale-105 shadow-lg shadow-purple-500/30 disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none touch-manipulation"
+                >
+                  {isRotating ? '⏳ Rotating...' : rotation ? '▶️ Resume' : '🔄 Rotate'}
+                </button>
+                {canCancelRotation && (
+                  <button
+                    onClick={cancelRotation}
+                    className="flex-1 bg-gradient-to-r from-red-600 to-red-700 hover:from-red-500 hover:to-red-600 px-4 sm:px-6 py-2.5 sm:py-3 rounded-xl font-bold text-base sm:text-lg transition-all transform hover:scale-105 touch-manipulation"
+                  >
+                    🗑️ Discard
+                  </button>
+                )}
+                <button
+                  onClick={() => setShowRotateModal(false)}
+                  disabled={isRotating}
+                  className="flex-1 bg-gradient-to-r from-gray-700 to-gray-800 hover:from-gray-600 hover:to-gray-700 px-4 sm:px-6 py-2.5 sm:py-3 rounded-xl font-bold text-base sm:text-lg transition-all transform hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none touch-manipulation"
+                >
+                  {rotation ? 'Later' : '❌ Cancel'}
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Recovery Modal - Multiple games in progress */}
+        {recoverableGames.length > 0 && (
+          <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50 animate-fadeIn p-2 sm:p-4">
+            <div className="bg-gradient-to-br from-gray-800/95 to-gray-900/95 backdrop-blur-md border-2 border-purple-500/50 rounded-2xl p-4 sm:p-6 max-w-md w-full mx-4 shadow-2xl animate-bounceIn max-h-[95vh] overflow-y-auto">
+              <h2 className="text-xl sm:text-2xl md:text-3xl font-black bg-gradient-to-r from-purple-400 to-blue-400 bg-clip-text text-transparent mb-2 text-center">
+                ♻️ Games in Progress
+              </h2>
+              <p className="text-gray-400 text-xs sm:text-sm mb-4 text-center">
+                You have more than one unfinished game. Choose which one to resume.
+              </p>
+
+              <div className="space-y-2 mb-4">
+                {recoverableGames.map(recovered => (
+                  <div key={recovered.stored.gameId.toString()} className="flex items-center justify-between gap-2 bg-gray-800/60 border border-gray-700 rounded-xl p-3">
+                    <div className="text-xs sm:text-sm">
+                      <p className="font-bold text-purple-300">Game #{recovered.stored.gameId.toString()}</p>
+                      <p className="text-gray-400">
+                        {recovered.status === 'waiting_pyth' ? 'Waiting for Pyth seed' : recovered.status === 'waiting_nonce' ? 'Ready for first move' : `${recovered.revealedCount} safe cells`}
+                        {' · '}
+                        <span className="text-yellow-400 font-mono">{formatEther(recovered.info.currentPot)} MON</span>
+                      </p>
+                      {recovered.stored.timestamp > 0 && (
+                        <p className="text-gray-500 text-[10px]">{new Date(recovered.stored.timestamp).toLocaleString()}</p>
+                      )}
+                    </div>
+                    <button
+                      onClick={() => restoreGame(recovered)}
+                      className="bg-gradient-to-r from-purple-600 to-blue-600 hover:from-purple-500 hover:to-blue-500 px-3 py-2 rounded-lg text-xs sm:text-sm font-semibold transition-all transform hover:scale-105 touch-manipulation"
+                    >
+                      ▶️ Resume
+                    </button>
+                  </div>
+                ))}
+              </div>
+
+              <button
+                onClick={dismissRecovery}
+                className="w-full bg-gradient-to-r from-gray-700 to-gray-800 hover:from-gray-600 hover:to-gray-700 px-4 py-2.5 rounded-xl font-bold text-sm transition-all touch-manipulation"
+              >
+                Not now
+              </button>
+            </div>
+          </div>
+        )}
+
         {/* Explosion Modal - Mine Found */}
         {showMineModal && (
           <div className="fixed inset-0 bg-black bg-opacity-95 flex items-center justify-center z-50 animate-fadeIn p-2 sm:p-4">
@@ -1733,8 +1396,7 @@ export default function Home() {
               <button
                 onClick={() => {
                   setShowMineModal(false)
-                  setMinePosition(null)
-                  setLostPot("0")
+                  clearMine()
                 }}
                 className="relative w-full bg-gradient-to-r from-red-600 to-red-700 hover:from-red-700 hover:to-red-800 px-4 sm:px-6 py-3 sm:py-4 rounded-lg font-bold text-white text-base sm:text-lg transition-all transform hover:scale-105 shadow-lg shadow-red-900/50 border-2 border-red-400 touch-manipulation"
               >
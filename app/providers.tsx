@@ -2,12 +2,25 @@
 'use client'
 
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
-import { useState, type ReactNode } from 'react'
+import { useState, useSyncExternalStore, type ReactNode } from 'react'
 import { WagmiProvider } from 'wagmi'
 import { config } from '@/config'
 
+const noSubscription = () => () => {}
+
 export function Providers(props: { children: ReactNode }) {
   const [queryClient] = useState(() => new QueryClient())
+  // The active network is read from localStorage, so the server (env default) and the browser
+  // can disagree on chain, addresses and explorer: the app only renders once mounted
+  const isMounted = useSyncExternalStore(noSubscription, () => true, () => false)
+
+  if (!isMounted) {
+    return (
+      <main className="min-h-screen bg-gradient-to-br from-gray-900 via-purple-900/20 to-gray-900 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-4 border-b-4 border-purple-500"></div>
+      </main>
+    )
+  }
 
   return (
     <WagmiProvider config={config}>
@@ -16,4 +29,4 @@ export function Providers(props: { children: ReactNode }) {
       </QueryClientProvider>
     </WagmiProvider>
   )
-}
\ No newline at end of file
+}
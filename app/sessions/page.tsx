@@ -0,0 +1,238 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import { useAccount, usePublicClient, useWriteContract } from 'wagmi'
+import { type Address, formatEther } from 'viem'
+import { ACTIVE_CHAIN, EXPLORER_URL } from '@/utils/constants'
+import { revokeSessionKey } from '@/utils/contract'
+import { HISTORY_PAGE_BLOCKS, scanPlayerEvents, mergePlayerEvents, type PlayerEvents } from '@/utils/history'
+import { readDerivedKey, readVault } from '@/utils/keyVault'
+import {
+  activeSessionKeys,
+  fetchSessionKeys,
+  mergeSessionKeyEvents,
+  scanSessionKeyEvents,
+  type SessionKeyEvents,
+  type SessionKeyInfo
+} from '@/utils/sessionKeys'
+
+const EMPTY_KEY_EVENTS: SessionKeyEvents = { registered: [], revoked: [] }
+const EMPTY_EVENTS: PlayerEvents = { requested: [], cellRevealed: [], gameOver: [] }
+
+const shortAddress = (value: string) => `${value.slice(0, 6)}...${value.slice(-4)}`
+
+export default function Sessions() {
+  const { address, isConnected } = useAccount()
+  const publicClient = usePublicClient({ chainId: ACTIVE_CHAIN.id })
+  const { writeContractAsync } = useWriteContract()
+
+  const [keyEvents, setKeyEvents] = useState<SessionKeyEvents>(EMPTY_KEY_EVENTS)
+  const [activity, setActivity] = useState<PlayerEvents>(EMPTY_EVENTS)
+  const [keys, setKeys] = useState<SessionKeyInfo[]>([])
+  // Key stored in this browser (see utils/keyVault.ts)
+  const [browserKey, setBrowserKey] = useState<Address | null>(null)
+  const [latestBlock, setLatestBlock] = useState<bigint | null>(null)
+  // Oldest block scanned so far (next page scans the range right before it)
+  const [oldestScanned, setOldestScanned] = useState<bigint | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [revoking, setRevoking] = useState<Address | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  /**
+   * Scans one more page and rebuilds the key list from every event scanned so far
+   * @param known - Events of the pages already scanned
+   */
+  const loadPage = useCallback(async (
+    toBlock: bigint | null,
+    latest: bigint | null,
+    known: { keyEvents: SessionKeyEvents; activity: PlayerEvents }
+  ) => {
+    if (!publicClient || !address) return
+    setIsLoading(true)
+    setError(null)
+    try {
+      const head = latest ?? await publicClient.getBlockNumber()
+      const to = toBlock ?? head
+      const from = to >= HISTORY_PAGE_BLOCKS ? to - HISTORY_PAGE_BLOCKS + 1n : 0n
+
+      const allKeyEvents = mergeSessionKeyEvents(known.keyEvents, await scanSessionKeyEvents(publicClient, address, from, to))
+      const allActivity = mergePlayerEvents(known.activity, await scanPlayerEvents(publicClient, address, from, to, head))
+
+      // The key of this browser may have been registered before the scanned range
+      const localKey = readVault()?.address ?? readDerivedKey()?.address ?? null
+      const candidates = activeSessionKeys(allKeyEvents)
+      if (localKey && !candidates.some(candidate => candidate.sessionKey.toLowerCase() === localKey.toLowerCase())) {
+        candidates.push({ sessionKey: localKey, registeredBlock: null, registeredTx: null })
+      }
+
+      const found = await fetchSessionKeys(publicClient, address, candidates, allActivity)
+
+      setBrowserKey(localKey)
+      setLatestBlock(head)
+      setOldestScanned(from)
+      setKeyEvents(allKeyEvents)
+      setActivity(allActivity)
+      setKeys(found)
+    } catch (e: unknown) {
+      const err = e as { message?: string }
+      setError("Error loading session keys: " + (err.message || String(e)))
+    } finally {
+      setIsLoading(false)
+    }
+  }, [publicClient, address])
+
+  // Loads the most recent page whenever the connected address changes
+  useEffect(() => {
+    setKeyEvents(EMPTY_KEY_EVENTS)
+    setActivity(EMPTY_EVENTS)
+    setKeys([])
+    setOldestScanned(null)
+    setLatestBlock(null)
+    loadPage(null, null, { keyEvents: EMPTY_KEY_EVENTS, activity: EMPTY_EVENTS })
+  }, [loadPage])
+
+  const loadOlder = () => {
+    if (oldestScanned === null || oldestScanned === 0n || isLoading) return
+    loadPage(oldestScanned - 1n, latestBlock, { keyEvents, activity })
+  }
+
+  const revoke = async (sessionKey: Address) => {
+    if (!publicClient || revoking) return
+    const isBrowserKey = browserKey?.toLowerCase() === sessionKey.toLowerCase()
+    const warning = isBrowserKey
+      ? "This is the game wallet of this browser. You will have to activate it again on the game page before playing. Revoke it?"
+      : `Revoke ${shortAddress(sessionKey)}? It will no longer be able to play for you. Its balance stays on the key.`
+    if (!window.confirm(warning)) return
+
+    setRevoking(sessionKey)
+    setError(null)
+    try {
+      const hash = await revokeSessionKey(writeContractAsync, sessionKey)
+      const receipt = await publicClient.waitForTransactionReceipt({ hash })
+      if (receipt.status !== 'success') throw new Error("revokeSessionKey transaction failed")
+      setKeys(prev => prev.filter(key => key.sessionKey !== sessionKey))
+    } catch (e: unknown) {
+      const err = e as { shortMessage?: string; message?: string }
+      setError("Error revoking session key: " + (err.shortMessage || err.message || String(e)))
+    } finally {
+      setRevoking(null)
+    }
+  }
+
+  const totalBalance = keys.reduce((sum, key) => sum + key.balance, 0n)
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-gray-900 via-purple-900/20 to-gray-900 text-white p-2 sm:p-4 md:p-8 flex flex-col items-center">
+      <div className="w-full max-w-4xl flex flex-col gap-3">
+        <Link href="/" className="text-xs sm:text-sm text-purple-300 hover:text-purple-200">← Back to game</Link>
+
+        <h1 className="text-2xl sm:text-4xl font-black text-center bg-gradient-to-r from-purple-400 via-pink-400 to-blue-400 bg-clip-text text-transparent">
+          🔑 Session Keys
+        </h1>
+
+        {!isConnected ? (
+          <p className="text-center text-gray-400 text-sm">Connect your wallet on the game page to manage your session keys.</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 gap-2">
+              <div className="bg-gradient-to-r from-purple-500/10 to-blue-500/10 border border-purple-500/30 rounded-xl p-2 sm:p-3">
+                <p className="text-gray-400 text-[10px] sm:text-xs">Active keys</p>
+                <p className="text-base sm:text-xl font-bold font-mono text-purple-300">{keys.length}</p>
+              </div>
+              <div className="bg-gradient-to-r from-yellow-500/10 to-yellow-600/10 border border-yellow-500/30 rounded-xl p-2 sm:p-3">
+                <p className="text-gray-400 text-[10px] sm:text-xs">Balance on keys</p>
+                <p className="text-base sm:text-xl font-bold font-mono text-yellow-400">{parseFloat(formatEther(totalBalance)).toFixed(4)} MON</p>
+              </div>
+            </div>
+
+            <p className="text-gray-500 text-[10px] sm:text-xs text-center">
+              Any key listed here can play and cash out your games. Revoking a key does not move its balance:
+              withdraw it from the browser that holds the key.
+            </p>
+
+            {error && (
+              <div className="bg-gradient-to-r from-red-500/10 to-red-600/10 border border-red-500/30 rounded-xl p-4">
+                <p className="text-red-400 font-semibold text-sm">❌ {error}</p>
+              </div>
+            )}
+
+            <div className="bg-gradient-to-br from-gray-800/90 to-gray-900/90 rounded-xl border border-gray-700/50 overflow-x-auto">
+              <table className="w-full text-[10px] sm:text-xs">
+                <thead className="text-gray-400 border-b border-gray-700">
+                  <tr>
+                    <th className="text-left p-2">Key</th>
+                    <th className="text-right p-2">Balance</th>
+                    <th className="text-right p-2">Txs</th>
+                    <th className="text-right p-2">Last move</th>
+                    <th className="text-right p-2">Registered</th>
+                    <th className="text-center p-2"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {keys.map(key => (
+                    <tr key={key.sessionKey} className="border-b border-gray-800 hover:bg-gray-800/50">
+                      <td className="p-2 font-mono">
+                        <a href={EXPLORER_URL && `${EXPLORER_URL}/address/${key.sessionKey}`} target="_blank" rel="noopener noreferrer" className="text-purple-300 hover:text-purple-200">
+                          {shortAddress(key.sessionKey)}
+                        </a>
+                        {browserKey?.toLowerCase() === key.sessionKey.toLowerCase() && (
+                          <span className="ml-2 text-[9px] sm:text-[10px] bg-green-500/20 text-green-300 px-1.5 py-0.5 rounded">this browser</span>
+                        )}
+                      </td>
+                      <td className="p-2 text-right font-mono text-yellow-400">{parseFloat(formatEther(key.balance)).toFixed(4)}</td>
+                      <td className="p-2 text-right font-mono">{key.txCount}</td>
+                      <td className="p-2 text-right font-mono">
+                        {key.lastActivityTx ? (
+                          <a href={EXPLORER_URL && `${EXPLORER_URL}/tx/${key.lastActivityTx}`} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:text-blue-300">
+                            #{key.lastActivityBlock?.toString()}
+                          </a>
+                        ) : '-'}
+                      </td>
+                      <td className="p-2 text-right font-mono">
+                        {key.registeredTx ? (
+                          <a href={EXPLORER_URL && `${EXPLORER_URL}/tx/${key.registeredTx}`} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:text-blue-300">
+                            #{key.registeredBlock?.toString()}
+                          </a>
+                        ) : 'earlier'}
+                      </td>
+                      <td className="p-2 text-center">
+                        <button
+                          onClick={() => revoke(key.sessionKey)}
+                          disabled={revoking !== null}
+                          className="bg-gradient-to-r from-red-600 to-red-700 hover:from-red-500 hover:to-red-600 px-2 sm:px-3 py-1 rounded-lg font-semibold transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          {revoking === key.sessionKey ? '⏳ Revoking...' : 'Revoke'}
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                  {keys.length === 0 && !isLoading && (
+                    <tr>
+                      <td colSpan={6} className="p-4 text-center text-gray-500">No active session keys found in the scanned blocks.</td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="flex flex-col items-center gap-1">
+              {oldestScanned !== null && latestBlock !== null && (
+                <p className="text-gray-500 text-[10px] sm:text-xs">
+                  Scanned blocks {oldestScanned.toString()} – {latestBlock.toString()}
+                </p>
+              )}
+              <button
+                onClick={loadOlder}
+                disabled={isLoading || oldestScanned === null || oldestScanned === 0n}
+                className="bg-gradient-to-r from-gray-700 to-gray-800 hover:from-gray-600 hover:to-gray-700 px-4 py-2 rounded-lg text-xs sm:text-sm font-semibold transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isLoading ? '⏳ Loading...' : '⬇️ Scan older blocks'}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </main>
+  )
+}
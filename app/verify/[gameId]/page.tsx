@@ -0,0 +1,185 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import { useParams } from 'next/navigation'
+import { usePublicClient } from 'wagmi'
+import { formatEther } from 'viem'
+import { getGameInfo, getGameState, type GameInfo } from '@/utils/contract'
+import { loadGameProbabilities, verifyGame, type GameProbabilities, type VerificationReport } from '@/utils/verify'
+import { GRID_SIZE, isCellRevealed } from '@/utils/board'
+import { ACTIVE_CHAIN } from '@/utils/constants'
+
+export default function VerifyGame() {
+  const params = useParams<{ gameId: string }>()
+  const publicClient = usePublicClient({ chainId: ACTIVE_CHAIN.id })
+
+  const [gameInfo, setGameInfo] = useState<GameInfo | null>(null)
+  const [probabilities, setProbabilities] = useState<GameProbabilities | null>(null)
+  const [report, setReport] = useState<VerificationReport | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+
+  const runVerification = useCallback(async () => {
+    if (!publicClient || !params.gameId) return
+
+    let gameId: bigint
+    try {
+      gameId = BigInt(params.gameId)
+    } catch {
+      setError(`Invalid game ID: ${params.gameId}`)
+      return
+    }
+
+    setIsLoading(true)
+    setError(null)
+    try {
+      const [game, state, loaded] = await Promise.all([
+        getGameInfo(publicClient, gameId),
+        getGameState(publicClient, gameId),
+        loadGameProbabilities(publicClient, gameId)
+      ])
+      setGameInfo(game)
+      setProbabilities(loaded)
+      setReport(verifyGame(game, state, loaded.mineProbability, loaded.cellProbabilities))
+    } catch (e: unknown) {
+      const err = e as { message?: string }
+      setError("Error reading game: " + (err.message || String(e)))
+    } finally {
+      setIsLoading(false)
+    }
+  }, [publicClient, params.gameId])
+
+  useEffect(() => {
+    runVerification()
+  }, [runVerification])
+
+  const renderBoard = () => {
+    if (!report || !gameInfo) return null
+    const cells = []
+    for (let y = 0; y < GRID_SIZE; y++) {
+      for (let x = 0; x < GRID_SIZE; x++) {
+        const revealed = isCellRevealed(gameInfo.revealedCells, x, y)
+        const mine = report.layout ? report.layout[y][x] : false
+
+        let cellClass = 'bg-gray-800 border-gray-700'
+        let cellContent = ""
+        if (revealed && mine) {
+          cellClass = 'bg-gradient-to-br from-red-600 to-red-700 border-red-400'
+          cellContent = "💣"
+        } else if (revealed) {
+          cellClass = 'bg-gradient-to-br from-emerald-400 to-green-500 border-green-400'
+          cellContent = "💎"
+        } else if (mine) {
+          cellClass = 'bg-red-900/40 border-red-800/60'
+          cellContent = "💣"
+        }
+
+        cells.push(
+          <div
+            key={`${x}-${y}`}
+            className={`w-7 h-7 sm:w-9 sm:h-9 border-2 rounded-md flex items-center justify-center text-xs sm:text-base ${cellClass} ${!revealed && mine ? 'opacity-60' : ''}`}
+          >
+            {cellContent}
+          </div>
+        )
+      }
+    }
+    return (
+      <div className="grid grid-cols-10 gap-1 p-2 sm:p-3 bg-gradient-to-br from-gray-900/50 to-gray-800/50 rounded-xl border border-gray-700/50">
+        {cells}
+      </div>
+    )
+  }
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-gray-900 via-purple-900/20 to-gray-900 text-white p-2 sm:p-4 md:p-8 flex flex-col items-center">
+      <div className="w-full max-w-3xl flex flex-col gap-3">
+        <div className="flex items-center justify-between">
+          <Link href="/" className="text-xs sm:text-sm text-purple-300 hover:text-purple-200">← Back to game</Link>
+          <button
+            onClick={runVerification}
+            disabled={isLoading}
+            className="text-xs bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-500 hover:to-purple-500 px-3 py-1.5 rounded-lg font-semibold transition-all disabled:opacity-50"
+          >
+            🔄 Re-verify
+          </button>
+        </div>
+
+        <h1 className="text-2xl sm:text-4xl font-black text-center bg-gradient-to-r from-purple-400 via-pink-400 to-blue-400 bg-clip-text text-transparent">
+          🔍 Verify Game #{params.gameId}
+        </h1>
+        <p className="text-gray-400 text-[10px] sm:text-xs text-center">
+          Recomputes the seed and every mine from on-chain data, without trusting the UI.
+        </p>
+
+        {isLoading && (
+          <div className="py-12 flex flex-col items-center gap-3">
+            <div className="animate-spin rounded-full h-12 w-12 border-t-4 border-b-4 border-purple-500"></div>
+            <p className="text-purple-300 font-semibold animate-pulse">Reading game from chain...</p>
+          </div>
+        )}
+
+        {error && (
+          <div className="bg-gradient-to-r from-red-500/10 to-red-600/10 border border-red-500/30 rounded-xl p-4">
+            <p className="text-red-400 font-semibold text-sm">❌ {error}</p>
+          </div>
+        )}
+
+        {report && gameInfo && !isLoading && (
+          <>
+            <div className={`rounded-xl p-4 border text-center ${report.valid ? 'bg-green-500/10 border-green-500/50' : 'bg-red-500/10 border-red-500/50'}`}>
+              <p className={`text-lg sm:text-xl font-bold ${report.valid ? 'text-green-400' : 'text-red-400'}`}>
+                {report.valid ? '✅ Game verified: provably fair' : '⚠️ Verification failed'}
+              </p>
+              {!report.finished && (
+                <p className="text-yellow-300 text-xs mt-1">Game is still active. Mines are only shown once it is finished.</p>
+              )}
+            </div>
+
+            <div className="bg-gradient-to-br from-gray-800/90 to-gray-900/90 p-3 sm:p-4 rounded-xl border border-gray-700/50 space-y-2">
+              {report.checks.map(check => (
+                <div key={check.id} className="text-xs sm:text-sm">
+                  <span className={check.passed ? 'text-green-400' : 'text-red-400'}>
+                    {check.passed ? '✅' : '❌'} {check.label}
+                  </span>
+                  {check.detail && (
+                    <p className="text-gray-500 font-mono text-[10px] sm:text-xs break-all ml-6">{check.detail}</p>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            <div className="bg-gradient-to-br from-gray-800/90 to-gray-900/90 p-3 sm:p-4 rounded-xl border border-gray-700/50 space-y-1 font-mono text-[10px] sm:text-xs break-all">
+              <p><span className="text-gray-400">Player:</span> <span className="text-purple-300">{gameInfo.player}</span></p>
+              <p><span className="text-gray-400">Pyth seed:</span> {gameInfo.pythSeed}</p>
+              <p><span className="text-gray-400">Player nonce:</span> {gameInfo.playerNonce}</p>
+              <p><span className="text-gray-400">Nonce commit:</span> {gameInfo.nonceCommit}</p>
+              <p><span className="text-gray-400">On-chain seed:</span> {gameInfo.seed}</p>
+              {report.recomputedSeed && (
+                <p><span className="text-gray-400">Recomputed seed:</span> {report.recomputedSeed}</p>
+              )}
+              <p><span className="text-gray-400">Final pot:</span> <span className="text-yellow-400">{formatEther(gameInfo.currentPot)} MON</span></p>
+              {probabilities !== null && (
+                <p>
+                  <span className="text-gray-400">Mine probability:</span> {(Number(probabilities.mineProbability) / 100).toFixed(2)}%
+                  <span className="text-gray-500 font-sans">
+                    {probabilities.historical
+                      ? ' (value this game was played with)'
+                      : ' (current value: the RPC has no past state; results differ if it changed after this game)'}
+                  </span>
+                </p>
+              )}
+            </div>
+
+            {report.revealedCells.length > 0 && (
+              <div className="flex justify-center">
+                {renderBoard()}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </main>
+  )
+}
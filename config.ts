@@ -1,15 +1,38 @@
 // config.ts
-import { http, createConfig } from 'wagmi'
-import { monadTestnet } from 'viem/chains'
+import { http, webSocket, createConfig } from 'wagmi'
 import { injected} from 'wagmi/connectors'
+import { type Chain, type EIP1193Provider } from 'viem'
+import { createMonadMinesSimulator } from './utils/simulator'
+import { ACTIVE_CHAIN, RPC_URL, RPC_WS_URL } from './utils/constants'
+import { NETWORKS } from './utils/networks'
 
+// 1. Dev flag: NEXT_PUBLIC_USE_SIMULATOR=true runs the app against the in-memory simulator
+export const USE_SIMULATOR = process.env.NEXT_PUBLIC_USE_SIMULATOR === 'true'
+export const simulator = USE_SIMULATOR ? createMonadMinesSimulator({ chain: ACTIVE_CHAIN }) : null
+
+// Transport of the active network for clients created outside wagmi (burner wallet, fallback public clients)
+export const chainTransport = () => simulator ? simulator.transport : http(RPC_URL)
+
+// Transport for event subscriptions (null without a WebSocket endpoint or in the simulator)
+export const chainWebSocketTransport = () => !simulator && RPC_WS_URL ? webSocket(RPC_WS_URL) : null
+
+// Every registry chain is known to wagmi (the wallet can switch to any of them); the active one comes first
+const chains = [ACTIVE_CHAIN, ...Object.values(NETWORKS).map(network => network.chain).filter(chain => chain.id !== ACTIVE_CHAIN.id)] as [Chain, ...Chain[]]
 
 // 2. Wagmi configuration
 export const config = createConfig({
-  chains: [monadTestnet],
-  connectors: [injected()],
-  transports: {
-    [monadTestnet.id]: http(),
-  },
-  ssr: true, 
-})
\ No newline at end of file
+  chains,
+  connectors: simulator
+    ? [injected({
+        target: {
+          id: 'monadMinesSimulator',
+          name: 'MonadMines Simulator',
+          provider: simulator.provider as unknown as EIP1193Provider
+        }
+      })]
+    : [injected()],
+  transports: Object.fromEntries(chains.map(chain =>
+    [chain.id, chain.id === ACTIVE_CHAIN.id ? chainTransport() : http(NETWORKS[chain.id].rpcUrl)]
+  )),
+  ssr: true,
+})
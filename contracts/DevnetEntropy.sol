@@ -0,0 +1,6 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+// Local devnet only: pulls Pyth's MockEntropy into the build so scripts/devnet.ts
+// can deploy it. Requests are revealed by the script through mockReveal().
+import "@pythnetwork/entropy-sdk-solidity/MockEntropy.sol";
@@ -0,0 +1,74 @@
+'use client'
+
+// hooks/useActivityLog.ts
+// Activity log of the game page: typed entries shown newest first and persisted in IndexedDB
+
+import { useState, useEffect, useRef, useCallback } from 'react'
+import { type Chain } from 'viem'
+import {
+  type LogCategory,
+  type LogEntry,
+  type LogFn,
+  MAX_SHOWN_LOGS,
+  appendLogEntry,
+  clearLogEntries,
+  createLogEntry,
+  openActivityLog,
+  readLogEntries
+} from '@/utils/activityLog'
+import { ACTIVE_CHAIN } from '@/utils/constants'
+
+export type UseActivityLogOptions = {
+  chain?: Chain
+}
+
+/**
+ * Loads the stored entries once and writes every new one; without IndexedDB (private mode,
+ * blocked storage) entries are only kept in memory
+ */
+export function useActivityLog({ chain = ACTIVE_CHAIN }: UseActivityLogOptions = {}) {
+  const [entries, setEntries] = useState<LogEntry[]>([])
+  // Writes are chained after the initial read, so entries logged meanwhile are not read back twice
+  const dbRef = useRef<Promise<IDBDatabase | null> | null>(null)
+
+  useEffect(() => {
+    const db = openActivityLog()
+      .then(async db => {
+        const stored = await readLogEntries(db)
+        setEntries(prev => [...prev, ...stored].slice(0, MAX_SHOWN_LOGS))
+        return db
+      })
+      .catch(e => {
+        console.error('Activity log storage unavailable:', e)
+        return null
+      })
+    dbRef.current = db
+    return () => {
+      dbRef.current = null
+      db.then(db => db?.close())
+    }
+  }, [])
+
+  const add = useCallback((entry: LogEntry) => {
+    setEntries(prev => [entry, ...prev].slice(0, MAX_SHOWN_LOGS))
+    dbRef.current
+      ?.then(db => db && appendLogEntry(db, entry))
+      .catch(e => console.error('Error saving log entry:', e))
+  }, [])
+
+  /**
+   * Log function of one part of the app (entries default to its category)
+   */
+  const logger = useCallback((category: LogCategory): LogFn => (message, details = {}) => {
+    add(createLogEntry(message, details, category, chain.id))
+  }, [add, chain.id])
+
+  const clear = useCallback(() => {
+    setEntries([])
+    dbRef.current
+      ?.then(db => db && clearLogEntries(db))
+      .catch(e => console.error('Error clearing activity log:', e))
+  }, [])
+
+  return { entries, logger, clear }
+}
@@ -0,0 +1,125 @@
+'use client'
+
+// hooks/useBalanceGuard.ts
+// Low-balance guard for the burner wallet: reveals left at the current fees,
+// suggested top-up amount and opt-in automatic top-up from the main wallet
+
+import { useState, useEffect, useRef, useCallback } from 'react'
+import { formatEther, parseEther, type Chain, type PublicClient } from 'viem'
+import {
+  type BalanceGuardSettings,
+  DEFAULT_BALANCE_GUARD,
+  readBalanceGuardSettings,
+  revealsLeft as revealsLeftFor,
+  saveBalanceGuardSettings,
+  topUpAmount
+} from '@/utils/balanceGuard'
+import {
+  type FeeEstimate,
+  type GasStats,
+  EMPTY_GAS_STATS,
+  burnerCosts,
+  estimateFees,
+  readGasStats
+} from '@/utils/fees'
+import { type LogFn } from '@/utils/activityLog'
+import { ACTIVE_CHAIN } from '@/utils/constants'
+
+// Fee refresh (fees only drift slowly on Monad); recorded gas usage is re-read at the same time
+const FEES_INTERVAL_MS = 30000
+
+export type UseBalanceGuardOptions = {
+  // Chain the gas usage was recorded on
+  chain?: Chain
+  // Client used to read the fees (burner client or wagmi public client)
+  reader: Pick<PublicClient, 'estimateFeesPerGas' | 'getGasPrice'> | null | undefined
+  // Burner balance in MON, kept fresh by useBurnerWallet's polling
+  burnerBalance: string
+  // False until the current burner's balance has been read once
+  isBalanceLoaded: boolean
+  // Main wallet transfer to the burner (useBurnerWallet's topUp)
+  topUp: (amount: string) => Promise<boolean>
+  onLog?: LogFn
+}
+
+const noop = () => {}
+
+/**
+ * Measures the burner balance in reveals so top-ups happen before it runs dry
+ */
+export function useBalanceGuard({
+  chain = ACTIVE_CHAIN,
+  reader,
+  burnerBalance,
+  isBalanceLoaded,
+  topUp,
+  onLog = noop
+}: UseBalanceGuardOptions) {
+  // Defaults during SSR; only the top-up modal shows them, and it never renders on the server
+  const [settings, setSettings] = useState<BalanceGuardSettings>(() =>
+    typeof window === 'undefined' ? DEFAULT_BALANCE_GUARD : readBalanceGuardSettings()
+  )
+  const [fees, setFees] = useState<FeeEstimate | null>(null)
+  const [gasStats, setGasStats] = useState<GasStats>(EMPTY_GAS_STATS)
+  // Set once an automatic request went out, cleared when the balance is healthy again
+  const autoRequestedRef = useRef(false)
+
+  // Polls the fees
+  useEffect(() => {
+    if (!reader) return
+    const update = () => {
+      estimateFees(reader)
+        .then(next => {
+          setFees(next)
+          setGasStats(readGasStats(chain.id))
+        })
+        .catch(e => console.error('Error reading fees:', e))
+    }
+    update()
+    const interval = setInterval(update, FEES_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [reader, chain.id])
+
+  const balance = parseEther(burnerBalance)
+  const costs = fees ? burnerCosts(gasStats, fees) : null
+  // null while the balance or the fees are unknown
+  const revealsLeft = isBalanceLoaded && costs ? revealsLeftFor(balance, costs) : null
+  // Below minReveals plus a cashout; also blocks starting a game (unknown values never block)
+  const isLow = revealsLeft !== null && revealsLeft < settings.minReveals
+  const suggestedTopUp = costs && isLow
+    ? formatEther(topUpAmount(balance, costs, settings.targetReveals))
+    : null
+
+  const updateSettings = useCallback((next: BalanceGuardSettings) => {
+    const minReveals = Math.max(1, Math.floor(next.minReveals))
+    const sanitized = {
+      minReveals,
+      targetReveals: Math.max(minReveals, Math.floor(next.targetReveals)),
+      autoTopUp: next.autoTopUp
+    }
+    saveBalanceGuardSettings(sanitized)
+    setSettings(sanitized)
+  }, [])
+
+  // Automatic top-up: one request per low-balance episode (a rejected prompt is not repeated)
+  useEffect(() => {
+    if (!isLow) {
+      autoRequestedRef.current = false
+      return
+    }
+    if (!settings.autoTopUp || autoRequestedRef.current || !suggestedTopUp) return
+    autoRequestedRef.current = true
+    onLog(`🪫 Game wallet low (${revealsLeft} reveals left), requesting ${suggestedTopUp} MON from the main wallet...`)
+    void topUp(suggestedTopUp)
+  }, [isLow, settings.autoTopUp, suggestedTopUp, revealsLeft, topUp, onLog])
+
+  return {
+    settings,
+    updateSettings,
+    costs,
+    gasStats,
+    revealsLeft,
+    isLow,
+    suggestedTopUp
+  }
+}
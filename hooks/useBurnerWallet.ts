@@ -0,0 +1,331 @@
+'use client'
+
+// hooks/useBurnerWallet.ts
+// Burner wallet (session key): encrypted local key, Viem client, balances, top-up and withdraw
+
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react'
+import { useAccount, usePublicClient } from 'wagmi'
+import {
+  parseEther,
+  formatEther,
+  createWalletClient,
+  createPublicClient,
+  publicActions,
+  type Address,
+  type Chain,
+  type Hex,
+  type Client,
+  type Transport,
+  type PrivateKeyAccount,
+  type WalletRpcSchema,
+  type WalletActions,
+  type PublicActions
+} from 'viem'
+import { chainTransport, simulator } from '@/config'
+import { ACTIVE_CHAIN } from '@/utils/constants'
+import { type FeeEstimate, TRANSFER_GAS, estimateFees, maxSweep } from '@/utils/fees'
+import { DEFAULT_LOCALE, classifyError, formatError, type Locale } from '@/utils/errors'
+import { type LogFn } from '@/utils/activityLog'
+import { useKeyVault } from './useKeyVault'
+
+// Type for window.ethereum
+declare global {
+  interface Window {
+    ethereum?: {
+      request: (args: { method: string; params?: unknown[] }) => Promise<unknown>;
+    };
+  }
+}
+
+export type BurnerClient = Client<Transport, Chain, PrivateKeyAccount, WalletRpcSchema, WalletActions<Chain, PrivateKeyAccount> & PublicActions<Transport, Chain, PrivateKeyAccount>>;
+
+export type UseBurnerWalletOptions = {
+  chain?: Chain
+  // Inactivity before the key is locked again (null disables auto-lock)
+  autoLockMs?: number | null
+  onLog?: LogFn
+  // Language of the error messages
+  locale?: Locale
+}
+
+export type WithdrawResult = {
+  ok: boolean
+  // Set when the amount plus gas exceeds the balance
+  maxAmount?: string
+}
+
+// Fee quote of a withdraw; the transfer is sent with exactly this gas and these fees
+export type WithdrawEstimate = {
+  balance: bigint
+  gas: bigint
+  fees: FeeEstimate
+  // Worst-case gas cost (gas * maxFeePerGas)
+  gasCost: bigint
+  // Whole balance minus gasCost
+  maxAmount: bigint
+}
+
+const noop = () => {}
+
+/**
+ * Unlocks the burner key from the encrypted vault and keeps its balance and
+ * the main wallet balance up to date
+ */
+export function useBurnerWallet({
+  chain = ACTIVE_CHAIN,
+  autoLockMs,
+  onLog = noop,
+  locale = DEFAULT_LOCALE
+}: UseBurnerWalletOptions = {}) {
+  const { address } = useAccount()
+  const wagmiPublicClient = usePublicClient({ chainId: chain.id })
+  const vault = useKeyVault({ chainId: chain.id, autoLockMs, onLog })
+
+  // Burner Wallet doesn't use Wagmi hooks, as we don't want to connect it in the global UI
+  // The account only exists while the vault is unlocked
+  const burnerAccount = vault.account
+
+  // Creates the client that will sign fast transactions
+  // publicActions allows using this client to read data as well (getBalance, readContract)
+  const burnerClient = useMemo(() => {
+    if (!burnerAccount) return null
+    const client = createWalletClient({
+      account: burnerAccount,
+      chain: chain,
+      transport: chainTransport()
+    }).extend(publicActions)
+    return client as unknown as BurnerClient
+  }, [burnerAccount, chain])
+
+  const [burnerBalance, setBurnerBalance] = useState<string>("0")
+  // Burner the balance was read for (the balance is stale until it matches the current one)
+  const [burnerBalanceOf, setBurnerBalanceOf] = useState<Address | null>(null)
+  const [mainBalance, setMainBalance] = useState<string>("0")
+  const [isWithdrawing, setIsWithdrawing] = useState(false)
+  const [withdrawError, setWithdrawError] = useState<string | null>(null)
+
+  const balanceIntervalRef = useRef<NodeJS.Timeout | null>(null)
+  const timeoutRef = useRef<NodeJS.Timeout | null>(null)
+
+  const updateBurnerBalance = useCallback(async () => {
+    if (!burnerClient || !burnerAccount) return
+    try {
+      const bal = await burnerClient.getBalance({ address: burnerAccount.address })
+      setBurnerBalance(formatEther(bal))
+      setBurnerBalanceOf(burnerAccount.address)
+    } catch (e) {
+      console.error('Error updating balance:', e)
+    }
+  }, [burnerClient, burnerAccount])
+
+  const updateMainBalance = useCallback(async () => {
+    if (!address || !wagmiPublicClient) return
+    try {
+      const bal = await wagmiPublicClient.getBalance({ address })
+      setMainBalance(formatEther(bal))
+    } catch (e) {
+      console.error('Error updating main balance:', e)
+    }
+  }, [address, wagmiPublicClient])
+
+  const refreshBalances = useCallback(async () => {
+    await updateBurnerBalance()
+    await updateMainBalance()
+  }, [updateBurnerBalance, updateMainBalance])
+
+  // Updates both balances again after a delay to ensure synchronization
+  const scheduleRefresh = useCallback(() => {
+    if (timeoutRef.current) {
+      clearTimeout(timeoutRef.current)
+    }
+    timeoutRef.current = setTimeout(() => {
+      updateBurnerBalance()
+      updateMainBalance()
+    }, 2000)
+  }, [updateBurnerBalance, updateMainBalance])
+
+  // Polls Burner balance (every 10 seconds to reduce load)
+  useEffect(() => {
+    if (!burnerClient || !burnerAccount) return
+    updateBurnerBalance()
+    balanceIntervalRef.current = setInterval(updateBurnerBalance, 10000)
+    return () => {
+      if (balanceIntervalRef.current) {
+        clearInterval(balanceIntervalRef.current)
+        balanceIntervalRef.current = null
+      }
+    }
+  }, [burnerClient, burnerAccount, updateBurnerBalance])
+
+  // Updates main wallet balance when connecting or changing address
+  useEffect(() => {
+    if (address && wagmiPublicClient) {
+      updateMainBalance()
+      const interval = setInterval(updateMainBalance, 10000) // Updates every 10 seconds
+      return () => clearInterval(interval)
+    }
+  }, [address, wagmiPublicClient, updateMainBalance])
+
+  // Clears the delayed refresh when the component unmounts
+  useEffect(() => {
+    return () => {
+      if (timeoutRef.current) {
+        clearTimeout(timeoutRef.current)
+        timeoutRef.current = null
+      }
+    }
+  }, [])
+
+  /**
+   * Quotes a transfer back to the main wallet from the current balance and EIP-1559 fees
+   * @returns null if the balance or the fees can't be read
+   */
+  const estimateWithdraw = useCallback(async (): Promise<WithdrawEstimate | null> => {
+    if (!address || !burnerAccount) return null
+    try {
+      const publicClient = wagmiPublicClient || createPublicClient({
+        chain: chain,
+        transport: chainTransport()
+      })
+
+      const [balance, fees] = await Promise.all([
+        publicClient.getBalance({ address: burnerAccount.address }),
+        estimateFees(publicClient)
+      ])
+      // 21000 for an EOA; a smart-contract main wallet may need more to receive
+      const gas = await publicClient.estimateGas({ account: burnerAccount, to: address, value: 0n })
+        .catch(() => TRANSFER_GAS)
+      return { balance, gas, fees, gasCost: gas * fees.maxFeePerGas, maxAmount: maxSweep(balance, gas, fees) }
+    } catch (e) {
+      console.error('Error estimating withdraw fees:', e)
+      return null
+    }
+  }, [address, burnerAccount, wagmiPublicClient, chain])
+
+  /**
+   * Top Up (Uses Main Wallet via window.ethereum)
+   * @returns True once the transfer was sent
+   */
+  const topUp = useCallback(async (amount: string): Promise<boolean> => {
+    // The simulator provider stands in for the injected wallet
+    const provider = simulator?.provider ?? window.ethereum
+    if (!address || !burnerAccount || !provider) return false
+
+    const value = parseFloat(amount)
+    if (isNaN(value) || value <= 0) {
+      onLog("❌ Invalid value!")
+      return false
+    }
+
+    if (value > parseFloat(mainBalance)) {
+      onLog("❌ Insufficient balance in main wallet!")
+      return false
+    }
+
+    try {
+      onLog(`Sending ${amount} MON...`)
+      const hash = await provider.request({
+        method: 'eth_sendTransaction',
+        params: [{
+          from: address,
+          to: burnerAccount.address,
+          value: `0x${parseEther(amount).toString(16)}`
+        }]
+      }) as Hex
+      onLog("TopUp sent!", { category: 'tx', hash })
+      scheduleRefresh()
+      return true
+    } catch (e: unknown) {
+      onLog("❌ TopUp Error: " + formatError(classifyError(e, locale)))
+      return false
+    }
+  }, [address, burnerAccount, mainBalance, locale, onLog, scheduleRefresh])
+
+  /**
+   * Withdraw - Uses Burner Wallet to send funds back to Main Wallet
+   * @param amount - Amount in MON
+   * @param estimate - Fee quote (see estimateWithdraw), used as-is for the transfer
+   */
+  const withdraw = useCallback(async (amount: string, estimate: WithdrawEstimate): Promise<WithdrawResult> => {
+    if (!address || !burnerAccount || !burnerClient || isWithdrawing) return { ok: false }
+
+    const fail = (errorMsg: string, maxAmount?: string): WithdrawResult => {
+      onLog(errorMsg)
+      setWithdrawError(errorMsg)
+      return { ok: false, maxAmount }
+    }
+
+    setWithdrawError(null)
+
+    let value: bigint
+    try {
+      value = parseEther(amount)
+    } catch {
+      return fail("❌ Invalid value!")
+    }
+    if (value <= 0n) {
+      return fail("❌ Invalid value!")
+    }
+
+    if (value > estimate.balance) {
+      return fail("❌ Insufficient balance in burner account!")
+    }
+
+    // Checks if there's sufficient balance including gas
+    if (value > estimate.maxAmount) {
+      const maxAmount = formatEther(estimate.maxAmount)
+      return fail(`⚠️ Insufficient balance including gas. Maximum available: ${maxAmount} MON`, maxAmount)
+    }
+
+    setIsWithdrawing(true)
+    try {
+      onLog(`Withdrawing ${amount} MON to main wallet...`)
+
+      const hash = await burnerClient.sendTransaction({
+        to: address,
+        value,
+        gas: estimate.gas,
+        maxFeePerGas: estimate.fees.maxFeePerGas,
+        maxPriorityFeePerGas: estimate.fees.maxPriorityFeePerGas
+      })
+
+      onLog("Withdraw sent!", { category: 'tx', hash })
+      onLog("⏳ Waiting for confirmation...")
+
+      const receipt = await burnerClient.waitForTransactionReceipt({ hash })
+      if (receipt.status !== 'success') {
+        return fail("❌ Withdraw transaction failed!")
+      }
+
+      onLog(`✅ Withdraw confirmed at block: ${receipt.blockNumber}`)
+      onLog("💰 Funds transferred to main wallet!")
+
+      await refreshBalances()
+      scheduleRefresh()
+      return { ok: true }
+    } catch (e: unknown) {
+      return fail("❌ Withdraw error: " + formatError(classifyError(e, locale)))
+    } finally {
+      setIsWithdrawing(false)
+    }
+  }, [address, burnerAccount, burnerClient, isWithdrawing, locale, onLog, refreshBalances, scheduleRefresh])
+
+  const clearWithdrawError = useCallback(() => setWithdrawError(null), [])
+
+  return {
+    vault,
+    burnerAccount,
+    burnerClient,
+    burnerBalance,
+    isBurnerBalanceLoaded: !!burnerAccount && burnerBalanceOf === burnerAccount.address,
+    mainBalance,
+    refreshBalances,
+    updateMainBalance,
+    estimateWithdraw,
+    topUp,
+    withdraw,
+    isWithdrawing,
+    withdrawError,
+    clearWithdrawError
+  }
+}
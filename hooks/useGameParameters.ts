@@ -0,0 +1,67 @@
+'use client'
+
+// hooks/useGameParameters.ts
+// Live mine probability and reward multiplier, plus the timelocked changes proposed by the
+// owner so players see new odds before they apply
+
+import { useState, useEffect, useCallback } from 'react'
+import { type Chain } from 'viem'
+import { usePublicClient } from 'wagmi'
+import { getGameParameters, type GameParameters } from '@/utils/contract'
+import { pendingChanges, type PendingChange } from '@/utils/parameters'
+import { ACTIVE_CHAIN } from '@/utils/constants'
+
+// Parameter refresh; proposals sit behind a 24h timelock, so this only has to be timely, not instant
+const PARAMETERS_INTERVAL_MS = 30000
+// Countdown tick while a change is pending
+const CLOCK_INTERVAL_MS = 1000
+
+export type UseGameParametersOptions = {
+  chain?: Chain
+}
+
+/**
+ * Reads the game parameters and keeps the pending changes' countdown running
+ */
+export function useGameParameters({ chain = ACTIVE_CHAIN }: UseGameParametersOptions = {}) {
+  const publicClient = usePublicClient({ chainId: chain.id })
+  // null until the first read
+  const [parameters, setParameters] = useState<GameParameters | null>(null)
+  const [now, setNow] = useState(() => Date.now())
+
+  const refresh = useCallback(async () => {
+    if (!publicClient) return
+    try {
+      setParameters(await getGameParameters(publicClient))
+    } catch (e) {
+      console.error('Error reading game parameters:', e)
+    }
+  }, [publicClient])
+
+  // Polls the parameters (a cancelled proposal emits no event, so events alone would miss it)
+  useEffect(() => {
+    if (!publicClient) return
+    const update = () => void refresh()
+    update()
+    const interval = setInterval(update, PARAMETERS_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [publicClient, refresh])
+
+  const pending: PendingChange[] = parameters ? pendingChanges(parameters) : []
+  const hasPending = pending.length > 0
+
+  useEffect(() => {
+    if (!hasPending) return
+    const interval = setInterval(() => setNow(Date.now()), CLOCK_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [hasPending])
+
+  return {
+    parameters,
+    pending,
+    // Current time in milliseconds, ticking while a change is pending (for formatCountdown)
+    now,
+    // Re-reads right away (after an owner transaction)
+    refresh
+  }
+}
@@ -0,0 +1,39 @@
+'use client'
+
+// hooks/useHouseBalance.ts
+// Contract balance polling, used to check bets and pots against what the house can pay
+
+import { useState, useEffect } from 'react'
+import { type Chain } from 'viem'
+import { usePublicClient } from 'wagmi'
+import { getHouseBalance } from '@/utils/contract'
+import { ACTIVE_CHAIN } from '@/utils/constants'
+
+// Same period as the wallet balances
+const HOUSE_BALANCE_INTERVAL_MS = 10000
+
+export type UseHouseBalanceOptions = {
+  chain?: Chain
+}
+
+/**
+ * Reads the house balance (null until the first read)
+ */
+export function useHouseBalance({ chain = ACTIVE_CHAIN }: UseHouseBalanceOptions = {}) {
+  const publicClient = usePublicClient({ chainId: chain.id })
+  const [houseBalance, setHouseBalance] = useState<bigint | null>(null)
+
+  useEffect(() => {
+    if (!publicClient) return
+    const update = () => {
+      getHouseBalance(publicClient)
+        .then(setHouseBalance)
+        .catch(e => console.error('Error reading house balance:', e))
+    }
+    update()
+    const interval = setInterval(update, HOUSE_BALANCE_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [publicClient])
+
+  return houseBalance
+}
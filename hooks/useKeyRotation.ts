@@ -0,0 +1,233 @@
+'use client'
+
+// hooks/useKeyRotation.ts
+// Session key rotation: new burner, balance sweep, registerSessionKey(new) and revokeSessionKey(old),
+// with every step persisted so an interrupted rotation resumes where it stopped
+
+import { useState, useEffect, useRef, useCallback } from 'react'
+import { useAccount, usePublicClient, useWriteContract } from 'wagmi'
+import { createPublicClient, formatEther, type Address, type Chain, type PrivateKeyAccount } from 'viem'
+import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts'
+import { getSessionDelegate, registerSessionKey, revokeSessionKey } from '@/utils/contract'
+import {
+  type KeyRotation,
+  clearRotation,
+  decryptKey,
+  encryptKey,
+  readRotation,
+  readVault,
+  saveRotation
+} from '@/utils/keyVault'
+import { TRANSFER_GAS, estimateFees, maxSweep } from '@/utils/fees'
+import { chainTransport } from '@/config'
+import { ACTIVE_CHAIN } from '@/utils/constants'
+import { type LogFn } from '@/utils/activityLog'
+import { type BurnerClient } from './useBurnerWallet'
+import { type KeyVault } from './useKeyVault'
+
+export type UseKeyRotationOptions = {
+  vault: KeyVault
+  // Client of the key being rotated away (signs the sweep)
+  burnerClient: BurnerClient | null
+  chain?: Chain
+  onLog?: LogFn
+}
+
+const noop = () => {}
+
+/**
+ * Rotates the burner key. The old key stays in the vault until the last step,
+ * so funds and the session authorization are never left without a key
+ */
+export function useKeyRotation({ vault, burnerClient, chain = ACTIVE_CHAIN, onLog = noop }: UseKeyRotationOptions) {
+  const { address } = useAccount()
+  const { writeContractAsync } = useWriteContract()
+  const wagmiPublicClient = usePublicClient({ chainId: chain.id })
+  const { account: vaultAccount, address: vaultAddress, replace: replaceVaultKey } = vault
+
+  const [rotation, setRotation] = useState<KeyRotation | null>(null)
+  const [isRotating, setIsRotating] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  // New key in memory; lost on reload, in which case the vault locks at the end
+  const nextAccountRef = useRef<PrivateKeyAccount | null>(null)
+
+  // Picks up a rotation interrupted by a reload (only if it started from the current key)
+  useEffect(() => {
+    const stored = readRotation()
+    setRotation(stored && vaultAddress && stored.from.toLowerCase() === vaultAddress.toLowerCase() ? stored : null)
+  }, [vaultAddress])
+
+  /**
+   * Runs the remaining steps of a rotation. Each step checks chain state first,
+   * so repeating one after an interruption is harmless
+   * @returns True once the rotation completed
+   */
+  const advance = useCallback(async (current: KeyRotation): Promise<boolean> => {
+    if (!burnerClient || !address) return false
+    if (burnerClient.account.address.toLowerCase() !== current.from.toLowerCase()) {
+      setError("Unlocked key does not match the rotation")
+      return false
+    }
+
+    const publicClient = wagmiPublicClient || createPublicClient({
+      chain: chain,
+      transport: chainTransport()
+    })
+    const isDelegated = async (key: Address) =>
+      (await getSessionDelegate(publicClient, key)).toLowerCase() === address.toLowerCase()
+    const save = (next: KeyRotation) => {
+      saveRotation(next)
+      setRotation(next)
+      return next
+    }
+
+    setIsRotating(true)
+    setError(null)
+    try {
+      let step = current
+
+      // 1. Sweeps the old burner balance (minus the transfer gas)
+      if (step.step === 'created') {
+        let sweepHash = step.sweepHash
+        if (!sweepHash) {
+          const [balance, fees] = await Promise.all([
+            publicClient.getBalance({ address: step.from }),
+            estimateFees(publicClient)
+          ])
+          // Leaves the worst-case gas cost, like a withdraw of the full balance
+          const value = maxSweep(balance, TRANSFER_GAS, fees)
+          if (value > 0n) {
+            const destination = step.sweepTo === 'new' ? step.to.address : address
+            onLog(`Sweeping ${formatEther(value)} MON to the ${step.sweepTo === 'new' ? 'new key' : 'main wallet'}...`)
+            sweepHash = await burnerClient.sendTransaction({
+              to: destination,
+              value,
+              gas: TRANSFER_GAS,
+              maxFeePerGas: fees.maxFeePerGas,
+              maxPriorityFeePerGas: fees.maxPriorityFeePerGas
+            })
+            step = save({ ...step, sweepHash })
+          } else {
+            onLog("Nothing to sweep, old key balance only covers gas")
+          }
+        }
+        if (sweepHash) {
+          const receipt = await publicClient.waitForTransactionReceipt({ hash: sweepHash })
+          if (receipt.status !== 'success') {
+            save({ ...step, sweepHash: undefined })
+            throw new Error("Sweep transaction failed")
+          }
+          onLog(`✅ Funds swept at block: ${receipt.blockNumber}`, { category: 'tx', hash: sweepHash })
+        }
+        step = save({ ...step, step: 'swept' })
+      }
+
+      // 2. Authorizes the new key (main wallet)
+      if (step.step === 'swept') {
+        if (!(await isDelegated(step.to.address))) {
+          onLog("Authorizing new session key...")
+          const hash = await registerSessionKey(writeContractAsync, step.to.address)
+          const receipt = await publicClient.waitForTransactionReceipt({ hash })
+          if (receipt.status !== 'success') throw new Error("registerSessionKey transaction failed")
+          onLog("✅ New session key registered", { category: 'tx', hash })
+        }
+        step = save({ ...step, step: 'registered' })
+      }
+
+      // 3. Revokes the old key (main wallet)
+      if (step.step === 'registered') {
+        if (await isDelegated(step.from)) {
+          onLog("Revoking old session key...")
+          const hash = await revokeSessionKey(writeContractAsync, step.from)
+          const receipt = await publicClient.waitForTransactionReceipt({ hash })
+          if (receipt.status !== 'success') throw new Error("revokeSessionKey transaction failed")
+          onLog("✅ Old session key revoked", { category: 'tx', hash })
+        }
+        step = save({ ...step, step: 'revoked' })
+      }
+
+      // 4. The new key becomes the vault key (vault first, so a crash here leaves a stale record only)
+      const next = nextAccountRef.current?.address === step.to.address ? nextAccountRef.current : null
+      replaceVaultKey(step.to, next)
+      clearRotation()
+      setRotation(null)
+      nextAccountRef.current = null
+      onLog(next
+        ? `🔄 Session key rotated to ${step.to.address.slice(0, 6)}...${step.to.address.slice(-4)}`
+        : "🔄 Session key rotated. Unlock the vault to use the new key")
+      return true
+    } catch (e: unknown) {
+      const error = e as { shortMessage?: string; message?: string }
+      const errorMsg = error.shortMessage || error.message || String(e)
+      setError(errorMsg)
+      onLog("❌ Rotation error: " + errorMsg)
+      return false
+    } finally {
+      setIsRotating(false)
+    }
+  }, [burnerClient, address, wagmiPublicClient, chain, writeContractAsync, replaceVaultKey, onLog])
+
+  /**
+   * Creates the new key (encrypted with the vault passphrase) and runs the rotation
+   * @param sweepTo - Where the old key's balance goes
+   */
+  const start = useCallback(async (passphrase: string, sweepTo: KeyRotation['sweepTo']): Promise<boolean> => {
+    const stored = readVault()
+    if (!stored || !vaultAccount || !burnerClient || !address || rotation || isRotating) return false
+
+    setIsRotating(true)
+    setError(null)
+    let next: KeyRotation
+    try {
+      // Same passphrase as the current key, so a single unlock keeps working
+      await decryptKey(stored, passphrase)
+
+      const privateKey = generatePrivateKey()
+      nextAccountRef.current = privateKeyToAccount(privateKey)
+      next = {
+        from: vaultAccount.address,
+        to: await encryptKey(privateKey, passphrase),
+        sweepTo,
+        step: 'created',
+        startedAt: Date.now()
+      }
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : String(e))
+      return false
+    } finally {
+      setIsRotating(false)
+    }
+
+    saveRotation(next)
+    setRotation(next)
+    onLog(`🔄 Rotating session key to ${next.to.address.slice(0, 6)}...${next.to.address.slice(-4)}`)
+    return advance(next)
+  }, [vaultAccount, burnerClient, address, rotation, isRotating, advance, onLog])
+
+  const resume = useCallback(async (): Promise<boolean> => {
+    if (!rotation || isRotating) return false
+    return advance(rotation)
+  }, [rotation, isRotating, advance])
+
+  // Only possible before any funds moved to the new key
+  const canCancel = !!rotation && rotation.step === 'created' && !rotation.sweepHash && !isRotating
+
+  const cancel = useCallback(() => {
+    if (!canCancel) return
+    clearRotation()
+    setRotation(null)
+    setError(null)
+    nextAccountRef.current = null
+    onLog("Key rotation cancelled")
+  }, [canCancel, onLog])
+
+  return {
+    rotation,
+    isRotating,
+    error,
+    start,
+    resume,
+    cancel,
+    canCancel
+  }
+}
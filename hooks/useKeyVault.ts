@@ -0,0 +1,215 @@
+'use client'
+
+// hooks/useKeyVault.ts
+// Lock state of the burner key: unlock prompt on load (passphrase or wallet signature),
+// manual lock and auto-lock after inactivity
+
+import { useState, useEffect, useCallback } from 'react'
+import { useAccount, useSignTypedData } from 'wagmi'
+import { type Address, type PrivateKeyAccount } from 'viem'
+import { privateKeyToAccount } from 'viem/accounts'
+import {
+  type EncryptedKey,
+  clearVault,
+  deriveSessionKey,
+  getVaultContents,
+  openVault,
+  readDerivedKey,
+  readVault,
+  saveDerivedKey,
+  sessionKeyTypedData,
+  writeVault
+} from '@/utils/keyVault'
+import { ACTIVE_CHAIN, CONTRACT_ADDRESS } from '@/utils/constants'
+import { type LogFn } from '@/utils/activityLog'
+
+// 'loading' until localStorage has been read (not available during SSR)
+export type VaultStatus = 'loading' | 'empty' | 'plaintext' | 'locked' | 'unlocked'
+// How the stored key is unlocked (null while nothing is stored)
+export type KeySource = 'passphrase' | 'signature' | null
+
+// Locks the key after 15 minutes without user interaction
+export const DEFAULT_AUTO_LOCK_MS = 15 * 60 * 1000
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'scroll'] as const
+
+export type UseKeyVaultOptions = {
+  // Chain the derived key is scoped to
+  chainId?: number
+  // null disables auto-lock
+  autoLockMs?: number | null
+  onLog?: LogFn
+}
+
+const noop = () => {}
+
+function lockedStatus(): VaultStatus {
+  const contents = getVaultContents()
+  return contents === 'encrypted' || contents === 'derived' ? 'locked' : contents
+}
+
+function storedKeySource(): KeySource {
+  const contents = getVaultContents()
+  if (contents === 'derived') return 'signature'
+  return contents === 'empty' ? null : 'passphrase'
+}
+
+function storedAddress(): Address | null {
+  return readVault()?.address ?? readDerivedKey()?.address ?? null
+}
+
+/**
+ * Keeps the decrypted burner account in memory only while unlocked
+ */
+export function useKeyVault({ chainId = ACTIVE_CHAIN.id, autoLockMs = DEFAULT_AUTO_LOCK_MS, onLog = noop }: UseKeyVaultOptions = {}) {
+  const { address: owner } = useAccount()
+  const { signTypedDataAsync } = useSignTypedData()
+
+  const [status, setStatus] = useState<VaultStatus>('loading')
+  const [keySource, setKeySource] = useState<KeySource>(null)
+  const [account, setAccount] = useState<PrivateKeyAccount | null>(null)
+  // Address of the stored key, known even while locked
+  const [address, setAddress] = useState<Address | null>(null)
+  const [isUnlocking, setIsUnlocking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Reads what is stored once mounted
+  useEffect(() => {
+    setStatus(lockedStatus())
+    setKeySource(storedKeySource())
+    setAddress(storedAddress())
+  }, [])
+
+  /**
+   * Decrypts the key, or encrypts a legacy/new key with this passphrase
+   */
+  const unlock = useCallback(async (passphrase: string): Promise<boolean> => {
+    if (isUnlocking) return false
+    const previous = lockedStatus()
+    setIsUnlocking(true)
+    setError(null)
+    try {
+      const unlocked = privateKeyToAccount(await openVault(passphrase))
+      setAccount(unlocked)
+      setAddress(unlocked.address)
+      setStatus('unlocked')
+      setKeySource('passphrase')
+      if (previous === 'plaintext') onLog("🔐 Existing game wallet key encrypted with your passphrase")
+      if (previous === 'empty') onLog("🔐 New game wallet created and encrypted")
+      return true
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : String(e))
+      return false
+    } finally {
+      setIsUnlocking(false)
+    }
+  }, [isUnlocking, onLog])
+
+  /**
+   * Derives the key from the main wallet's signature of a fixed EIP-712 message,
+   * so the same game wallet comes back on any browser. Nothing secret is stored
+   */
+  const unlockWithSignature = useCallback(async (): Promise<boolean> => {
+    if (!owner || isUnlocking) return false
+    const previous = readDerivedKey()
+    setIsUnlocking(true)
+    setError(null)
+    try {
+      const signature = await signTypedDataAsync({ account: owner, ...sessionKeyTypedData(chainId, CONTRACT_ADDRESS) })
+      const unlocked = privateKeyToAccount(deriveSessionKey(signature))
+
+      // Same wallet and scope must give the same key, or funds would move out of reach
+      const sameScope = previous
+        && previous.owner.toLowerCase() === owner.toLowerCase()
+        && previous.chainId === chainId
+        && previous.contract.toLowerCase() === CONTRACT_ADDRESS.toLowerCase()
+      if (sameScope && previous.address !== unlocked.address) {
+        throw new Error("Your wallet returned a different signature than before, it cannot be used for a derived game wallet")
+      }
+
+      saveDerivedKey({ address: unlocked.address, owner, chainId, contract: CONTRACT_ADDRESS })
+      setAccount(unlocked)
+      setAddress(unlocked.address)
+      setStatus('unlocked')
+      setKeySource('signature')
+      if (!sameScope) onLog(`✍️ Game wallet ${unlocked.address.slice(0, 6)}...${unlocked.address.slice(-4)} derived from your wallet signature`)
+      return true
+    } catch (e: unknown) {
+      const error = e as { shortMessage?: string; message?: string }
+      setError(error.shortMessage || error.message || String(e))
+      return false
+    } finally {
+      setIsUnlocking(false)
+    }
+  }, [owner, isUnlocking, signTypedDataAsync, chainId, onLog])
+
+  const lock = useCallback(() => {
+    setAccount(null)
+    setStatus(lockedStatus())
+    setError(null)
+  }, [])
+
+  /**
+   * Discards the stored key so a new one can be created (forgotten passphrase)
+   */
+  const forget = useCallback(() => {
+    clearVault()
+    setAccount(null)
+    setAddress(null)
+    setStatus('empty')
+    setKeySource(null)
+    setError(null)
+    onLog("🗑️ Game wallet key discarded")
+  }, [onLog])
+
+  /**
+   * Swaps the stored key for another one (end of a key rotation). Without the
+   * decrypted account the vault is left locked
+   */
+  const replace = useCallback((encrypted: EncryptedKey, next: PrivateKeyAccount | null) => {
+    writeVault(encrypted)
+    setAddress(encrypted.address)
+    setAccount(next)
+    setStatus(next ? 'unlocked' : 'locked')
+    setKeySource('passphrase')
+  }, [])
+
+  const clearError = useCallback(() => setError(null), [])
+
+  // Auto-lock: restarts the timer on every user interaction while unlocked
+  useEffect(() => {
+    if (status !== 'unlocked' || autoLockMs === null) return
+
+    let timer: ReturnType<typeof setTimeout>
+    const restart = () => {
+      clearTimeout(timer)
+      timer = setTimeout(() => {
+        lock()
+        onLog("🔒 Game wallet locked after inactivity")
+      }, autoLockMs)
+    }
+
+    restart()
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, restart, { passive: true }))
+    return () => {
+      clearTimeout(timer)
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, restart))
+    }
+  }, [status, autoLockMs, lock, onLog])
+
+  return {
+    status,
+    keySource,
+    account,
+    address,
+    unlock,
+    unlockWithSignature,
+    lock,
+    forget,
+    replace,
+    isUnlocking,
+    error,
+    clearError
+  }
+}
+
+export type KeyVault = ReturnType<typeof useKeyVault>
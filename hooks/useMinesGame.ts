@@ -0,0 +1,578 @@
+'use client'
+
+// hooks/useMinesGame.ts
+// Game flow: start (main wallet), reveal and cashout (burner wallet), and recovery after reload
+
+import { useState, useEffect, useMemo, useRef, useCallback, useReducer } from 'react'
+import { useAccount, usePublicClient, useWriteContract } from 'wagmi'
+import { parseEther, formatEther, createPublicClient, keccak256, toHex, type Chain, type Hex } from 'viem'
+import {
+  getGameInfo,
+  getEntropyFee,
+  startGame as startGameContract,
+  revealCell as revealCellContract,
+  cashOut as cashOutContract,
+  findEventInLogs,
+  ZERO_BYTES32
+} from '@/utils/contract'
+import { saveStoredGame, getStoredGame, removeStoredGame } from '@/utils/gameStorage'
+import { findRecoverableGames, type RecoverableGame } from '@/utils/recovery'
+import { gameReducer, initialGameState } from '@/utils/gameMachine'
+import { gasLimitFor, readGasStats, trackGasUsed } from '@/utils/fees'
+import { createTxQueue, TxQueueClearedError } from '@/utils/txQueue'
+import { cellIndex } from '@/utils/board'
+import { DEFAULT_LOCALE, classifyError, classifyRevert, formatError, replayRevertReason, type Locale } from '@/utils/errors'
+import { createGameSync, type GameSyncEvent, type GameSyncMode } from '@/utils/gameSync'
+import { chainTransport, chainWebSocketTransport } from '@/config'
+import { ACTIVE_CHAIN } from '@/utils/constants'
+import { type LogFn } from '@/utils/activityLog'
+import type { BurnerClient } from './useBurnerWallet'
+
+export type UseMinesGameOptions = {
+  burnerClient: BurnerClient | null
+  chain?: Chain
+  onLog?: LogFn
+  // Language of the error messages
+  locale?: Locale
+  // Called right after a reveal hits a mine (UI effects)
+  onMineHit?: (x: number, y: number) => void
+}
+
+const noop = () => {}
+
+// Time allowed for the Pyth callback before giving up on a start (the game stays recoverable)
+const SEED_TIMEOUT_MS = 60000
+
+/**
+ * Owns the game state machine and every transaction of a game
+ */
+export function useMinesGame({
+  burnerClient,
+  chain = ACTIVE_CHAIN,
+  onLog = noop,
+  locale = DEFAULT_LOCALE,
+  onMineHit = noop
+}: UseMinesGameOptions) {
+  const { address } = useAccount()
+  const { writeContractAsync } = useWriteContract()
+  const wagmiPublicClient = usePublicClient({ chainId: chain.id })
+
+  // Game State (transitions are defined in utils/gameMachine.ts)
+  const [game, dispatchGame] = useReducer(gameReducer, initialGameState)
+  const [minePosition, setMinePosition] = useState<{ x: number; y: number } | null>(null)
+  const [lostPot, setLostPot] = useState<string>("0")
+
+  // State for commit-reveal nonce
+  const [currentNonce, setCurrentNonce] = useState<Hex | null>(null)
+
+  // Recovery of in-progress games after reload
+  const [recoverableGames, setRecoverableGames] = useState<RecoverableGame[]>([])
+  const recoveryCheckedRef = useRef<string | null>(null)
+
+  // Burner transaction queue (local nonces) and the cells it has reveals in flight for
+  // (game.pendingMask drives the board; this set also catches double clicks before a render)
+  const txQueue = useMemo(() => burnerClient ? createTxQueue(burnerClient, burnerClient.account.address) : null, [burnerClient])
+  const pendingRef = useRef(new Set<number>())
+  // Chains receipt handling so reveals are applied in send order
+  const receiptTailRef = useRef<Promise<void>>(Promise.resolve())
+  // Game whose nonce reveal is already queued (later reveals send bytes32 zero)
+  const nonceSentRef = useRef<bigint | null>(null)
+  // Game that hit a mine: reveals still in flight for it are expected to revert
+  const lostGameRef = useRef<bigint | null>(null)
+  // Latest pot, read when a queued reveal hits a mine
+  const potRef = useRef(game.pot)
+
+  useEffect(() => {
+    potRef.current = game.pot
+  }, [game.pot])
+
+  // Game sync: first block to scan for a newly started game (restored games start at the latest block)
+  const syncFromBlockRef = useRef<bigint | undefined>(undefined)
+  const [syncMode, setSyncMode] = useState<GameSyncMode | null>(null)
+  // Status seen by sync events, which arrive outside React renders
+  const statusRef = useRef(game.status)
+  // Cashout tx in flight (its GameOver is handled by cashOut itself)
+  const cashingOutRef = useRef(false)
+  // Reveal and cashout txs of this tab: their events are applied from the receipts
+  const ownTxsRef = useRef(new Set<Hex>())
+  // Applies the sync events that arrived while a reveal or cashout was in flight
+  const flushSyncEventsRef = useRef<() => void>(() => {})
+
+  useEffect(() => {
+    statusRef.current = game.status
+  }, [game.status])
+
+  // Game the log entries belong to (each entry is tagged with it)
+  const gameIdRef = useRef(game.id)
+
+  useEffect(() => {
+    gameIdRef.current = game.id
+  }, [game.id])
+
+  const log: LogFn = useCallback((message, details) => {
+    onLog(message, { gameId: gameIdRef.current, ...details })
+  }, [onLog])
+
+  // Start Game (Uses Main Wallet - Pays the bet)
+  const start = useCallback(async (betAmount: string) => {
+    // Validates bet amount
+    const betValueNum = parseFloat(betAmount)
+    if (isNaN(betValueNum) || betValueNum <= 0) {
+      log("❌ Invalid bet amount!")
+      return
+    }
+
+    // Resets game state before starting
+    dispatchGame({ type: 'RESET' })
+    setMinePosition(null)
+    setLostPot("0")
+
+    // 1. Generates random 32-byte nonce using crypto.getRandomValues
+    log("🔐 Generating nonce...")
+    const randomBytesArray = new Uint8Array(32)
+    crypto.getRandomValues(randomBytesArray)
+    const nonce = toHex(randomBytesArray) as Hex
+    setCurrentNonce(nonce)
+
+    // 2. Creates nonce hash using keccak256
+    const nonceCommit = keccak256(nonce)
+    log(`   Nonce hash: ${nonceCommit.slice(0, 10)}...`)
+
+    // 3. Stores nonce in localStorage along with timestamp
+    const gameData = {
+      nonce: nonce,
+      timestamp: Date.now()
+    }
+    localStorage.setItem(`monad_game_nonce_${Date.now()}`, JSON.stringify(gameData))
+
+    try {
+      log("Starting game...")
+
+      // Reuses wagmi public client to avoid creating multiple instances
+      const publicClient = wagmiPublicClient || createPublicClient({
+        chain: chain,
+        transport: chainTransport()
+      })
+
+      // 4. Gets Entropy fee (getFeeV2)
+      log("💰 Getting Entropy fee...")
+      const pythFee = await getEntropyFee(publicClient)
+      log(`   Entropy fee: ${formatEther(pythFee)} MON`)
+
+      // 5. Calculates total value (fee + bet amount set by user)
+      const betValue = parseEther(betAmount)
+      const totalValue = pythFee + betValue
+      log(`   Bet amount: ${betAmount} MON`)
+      log(`   Total value: ${formatEther(totalValue)} MON`)
+
+      // 6. Calls startGame with nonceCommit
+      log("🚀 Calling startGame with nonce commit...")
+      const hash = await startGameContract(writeContractAsync, nonceCommit, totalValue)
+
+      log("startGame sent!", { category: 'tx', hash })
+      dispatchGame({ type: 'TX_SENT' })
+
+      // 7. Waits for transaction confirmation
+      log("Waiting for confirmation...")
+      const receipt = await publicClient.waitForTransactionReceipt({ hash })
+
+      if (receipt.status !== 'success') {
+        log("❌ Transaction failed!")
+        dispatchGame({ type: 'START_FAILED' })
+        setCurrentNonce(null)
+        return
+      }
+
+      log(`✅ Transaction confirmed at block: ${receipt.blockNumber}`, { hash })
+
+      // 8. Gets gameId from GameRequested event
+      let gameId: bigint | null = null
+      const gameRequestedEvent = findEventInLogs(receipt.logs, "GameRequested")
+      if (gameRequestedEvent && gameRequestedEvent.parsed) {
+        gameId = gameRequestedEvent.parsed.args.gameId
+        if (gameId) {
+          log(`🎯 Game ID: ${gameId}`, { gameId })
+          // GameStarted can only land after this block
+          syncFromBlockRef.current = receipt.blockNumber
+          dispatchGame({ type: 'GAME_CREATED', gameId })
+
+          // Stores gameId and nonce in localStorage for recovery
+          saveStoredGame(gameId, nonce)
+        }
+      }
+
+      if (!gameId) {
+        log("❌ Could not get gameId")
+        dispatchGame({ type: 'START_FAILED' })
+        setCurrentNonce(null)
+        return
+      }
+
+      // 9. Waits for GameStarted event (Pyth seed), delivered by the game sync below
+      log("⏳ Waiting for GameStarted event (Pyth seed)...")
+    } catch (e: unknown) {
+      setCurrentNonce(null)
+
+      // Resets game state (no-op if the tx was never sent)
+      dispatchGame({ type: 'START_FAILED' })
+
+      log("❌ " + formatError(classifyError(e, locale)))
+    }
+  }, [wagmiPublicClient, chain, writeContractAsync, locale, log])
+
+  // Play (Uses VIEM + BURNER WALLET)
+  // Reveals are pipelined: each click is sent right away with a locally assigned nonce and
+  // receipts are handled in send order (the order the chain executes them)
+  const reveal = useCallback((x: number, y: number) => {
+    if (!game.id || !burnerClient || !txQueue) return
+    const gameId = game.id
+    const index = cellIndex(x, y)
+    if (lostGameRef.current === gameId || pendingRef.current.has(index)) return
+
+    // Checks if nonce needs to be revealed (first move not sent yet)
+    let nonceToUse: Hex = ZERO_BYTES32
+    if (!game.nonceRevealed && nonceSentRef.current !== gameId) {
+      if (!currentNonce) {
+        // Tries to recover from localStorage
+        const stored = getStoredGame(gameId)
+        if (stored) {
+          setCurrentNonce(stored.nonce)
+          nonceToUse = stored.nonce
+          log("🔐 Nonce recovered from localStorage")
+        } else {
+          log("❌ Nonce not found! Cannot make first move.")
+          return
+        }
+      } else {
+        nonceToUse = currentNonce
+      }
+      nonceSentRef.current = gameId
+      log(`🔓 Revealing nonce on first move...`)
+    }
+
+    log(`Opening (${x}, ${y})...`)
+    // Optimistic: the cell shows as pending until its receipt confirms or rolls it back
+    pendingRef.current.add(index)
+    dispatchGame({ type: 'REVEAL_SENT', gameId, x, y })
+
+    // Direct write via Viem (No popup)
+    // If it's the first move, includes nonce; otherwise sends bytes32 zero
+    const receiptPromise = txQueue
+      .send(txNonce => revealCellContract(burnerClient, gameId, x, y, nonceToUse, {
+        gas: gasLimitFor('revealCell', readGasStats(chain.id)),
+        nonce: txNonce
+      }))
+      .then(hash => {
+        ownTxsRef.current.add(hash)
+        return burnerClient.waitForTransactionReceipt({ hash })
+      })
+    // Rejections are reported in order below (avoids an unhandled rejection meanwhile)
+    receiptPromise.catch(() => {})
+
+    const handleReceipt = async () => {
+      const receipt = await receiptPromise
+
+      if (receipt.status !== 'success') {
+        dispatchGame({ type: 'REVEAL_FAILED', gameId, x, y })
+        if (lostGameRef.current === gameId) {
+          log(`↩️ (${x}, ${y}) reverted: the game was already over`)
+        } else {
+          if (nonceToUse !== ZERO_BYTES32) nonceSentRef.current = null
+          const error = classifyRevert(await replayRevertReason(burnerClient, receipt.transactionHash).catch(() => null), locale)
+          log(`❌ Reveal of (${x}, ${y}) reverted: ${formatError(error)}`, { gameId, hash: receipt.transactionHash })
+        }
+        return
+      }
+      trackGasUsed(chain.id, 'revealCell', receipt.gasUsed)
+
+      // Checks if nonce was revealed (NonceRevealed event)
+      if (findEventInLogs(receipt.logs, "NonceRevealed")) {
+        log("✅ Nonce revealed successfully! Game is now fully active.")
+        dispatchGame({ type: 'NONCE_REVEALED', gameId })
+      }
+
+      const cellRevealedEventFound = findEventInLogs(receipt.logs, "CellRevealed")
+      if (cellRevealedEventFound && cellRevealedEventFound.parsed) {
+        const { isMine, newPot } = cellRevealedEventFound.parsed.args
+
+        if (isMine) {
+          // Stops the queue: reveals not sent yet are dropped, sent ones revert on chain
+          lostGameRef.current = gameId
+          txQueue.clear()
+          // Uses pot BEFORE finding mine (the pot that was lost) only to show in modal
+          setLostPot(potRef.current)
+          log(`💥 MINE FOUND at (${x}, ${y})!`, { gameId, hash: receipt.transactionHash })
+          setMinePosition({ x, y })
+          onMineHit(x, y)
+          dispatchGame({ type: 'MINE_HIT', gameId, x, y })
+          // Clears localStorage data after game over
+          removeStoredGame(gameId)
+          setCurrentNonce(null)
+        } else {
+          potRef.current = formatEther(newPot)
+          log(`💎 Safe! Pot: ${potRef.current} MON`, { gameId, hash: receipt.transactionHash })
+          dispatchGame({ type: 'CELL_SAFE', gameId, x, y, pot: potRef.current })
+        }
+      } else {
+        dispatchGame({ type: 'REVEAL_FAILED', gameId, x, y })
+      }
+    }
+
+    const reportError = (e: unknown) => {
+      dispatchGame({ type: 'REVEAL_FAILED', gameId, x, y })
+      if (nonceToUse !== ZERO_BYTES32) nonceSentRef.current = null
+      if (e instanceof TxQueueClearedError) {
+        log(`↩️ (${x}, ${y}) dropped from the queue`)
+        return
+      }
+
+      const error = classifyError(e, locale)
+      log(`❌ (${x}, ${y}): ${formatError(error)}`)
+      if (error.code === 'INVALID_NONCE' || error.code === 'NONCE_REQUIRED') {
+        // Tries to recover from localStorage
+        const stored = getStoredGame(gameId)
+        if (stored) {
+          setCurrentNonce(stored.nonce)
+          log("🔐 Nonce recovered from localStorage. Try again.")
+        } else {
+          log("❌ Could not recover nonce from localStorage.")
+        }
+      }
+    }
+
+    // Reads updated game state to synchronize once the last reveal in flight is handled
+    const settle = async () => {
+      pendingRef.current.delete(index)
+      if (pendingRef.current.size > 0) return
+
+      // Idle queue: the next send reads the nonce again (other burner txs may have used some)
+      txQueue.resync()
+      const gameInfo = await getGameInfo(burnerClient, gameId)
+      dispatchGame({
+        type: 'SYNC',
+        gameId,
+        pot: formatEther(gameInfo.currentPot),
+        revealedMask: gameInfo.revealedCells,
+        isActive: gameInfo.isActive,
+        isLost: gameInfo.isLost,
+        nonceRevealed: gameInfo.nonceRevealed
+      })
+      flushSyncEventsRef.current()
+    }
+
+    receiptTailRef.current = receiptTailRef.current
+      .then(handleReceipt)
+      .catch(reportError)
+      .then(settle)
+      .catch(e => console.error('Error synchronizing game:', e))
+  }, [game.id, game.nonceRevealed, burnerClient, txQueue, currentNonce, chain.id, locale, log, onMineHit])
+
+  // Cashout (Uses VIEM + BURNER)
+  const cashOut = useCallback(async () => {
+    if (!game.id || !burnerClient || !txQueue) return
+    if (pendingRef.current.size > 0) {
+      log("⏳ Wait for the pending reveals before cashing out")
+      return
+    }
+    try {
+      const gameId = game.id
+      cashingOutRef.current = true
+      const gas = gasLimitFor('cashOut', readGasStats(chain.id))
+      const hash = await txQueue.send(nonce => cashOutContract(burnerClient, gameId, { gas, nonce }))
+      ownTxsRef.current.add(hash)
+      log("Cashout requested!", { category: 'tx', hash })
+      const receipt = await burnerClient.waitForTransactionReceipt({ hash })
+      if (receipt.status !== 'success') {
+        const error = classifyRevert(await replayRevertReason(burnerClient, receipt.transactionHash).catch(() => null), locale)
+        log("❌ Cashout reverted: " + formatError(error), { hash })
+        return
+      }
+      trackGasUsed(chain.id, 'cashOut', receipt.gasUsed)
+      dispatchGame({ type: 'CASHED_OUT', gameId: game.id })
+      log("💰 Money in account!")
+
+      // Clears localStorage data after cashout
+      removeStoredGame(game.id)
+      setCurrentNonce(null)
+    } catch (e: unknown) {
+      log("❌ Cashout failed: " + formatError(classifyError(e, locale)))
+    } finally {
+      cashingOutRef.current = false
+      flushSyncEventsRef.current()
+    }
+  }, [game.id, burnerClient, txQueue, chain.id, locale, log])
+
+  // Game sync: one engine per active game, pushing GameStarted, NonceRevealed, CellRevealed
+  // and GameOver from a WebSocket subscription or from block polling
+  const wsClient = useMemo(() => {
+    const transport = chainWebSocketTransport()
+    return transport ? createPublicClient({ chain, transport }) : null
+  }, [chain])
+  const isSyncing = game.id !== null && (game.status === "waiting_pyth" || game.status === "waiting_nonce" || game.status === "playing")
+
+  useEffect(() => {
+    if (!isSyncing || game.id === null || !wagmiPublicClient) return
+    const gameId = game.id
+    const reader = wagmiPublicClient
+
+    const markSeedReady = () => {
+      dispatchGame({ type: 'SEED_READY', gameId })
+      log(`🟡 Game #${gameId} ready! Waiting for first move (nonce reveal)...`)
+    }
+
+    // Reads games(gameId) again (changes made from another tab or device)
+    const resync = () => {
+      getGameInfo(reader, gameId)
+        .then(info => dispatchGame({
+          type: 'SYNC',
+          gameId,
+          pot: formatEther(info.currentPot),
+          revealedMask: info.revealedCells,
+          isActive: info.isActive,
+          isLost: info.isLost,
+          nonceRevealed: info.nonceRevealed
+        }))
+        .catch(e => console.error('Error synchronizing game:', e))
+    }
+
+    const handleEvent = (event: GameSyncEvent) => {
+      // Own reveals and cashouts are applied from their receipts
+      if (ownTxsRef.current.has(event.transactionHash)) return
+
+      if (event.eventName === 'GameStarted') {
+        if (statusRef.current !== "waiting_pyth") return
+        log(`✅ GameStarted event received for game #${gameId}`)
+        markSeedReady()
+      } else if (event.eventName === 'GameOver') {
+        removeStoredGame(gameId)
+        setCurrentNonce(null)
+        if (event.args.isWin) {
+          log(`💰 Game #${gameId} was cashed out`)
+          dispatchGame({ type: 'CASHED_OUT', gameId })
+        } else {
+          log(`💥 Game #${gameId} was lost`)
+          resync()
+        }
+      } else {
+        resync()
+      }
+    }
+
+    // Events that arrive while a reveal or cashout is in flight wait until it settles (the sync
+    // doesn't deliver them again)
+    const deferred: GameSyncEvent[] = []
+    flushSyncEventsRef.current = () => deferred.splice(0).forEach(handleEvent)
+
+    const sync = createGameSync({
+      client: reader,
+      wsClient,
+      gameId,
+      fromBlock: syncFromBlockRef.current,
+      onModeChange: setSyncMode,
+      onEvent: event => {
+        if (pendingRef.current.size > 0 || cashingOutRef.current) deferred.push(event)
+        else handleEvent(event)
+      }
+    })
+
+    // The Pyth callback may have landed before the first scanned block
+    let seedTimeout: ReturnType<typeof setTimeout> | null = null
+    if (statusRef.current === "waiting_pyth") {
+      getGameInfo(reader, gameId)
+        .then(info => {
+          if (info.pythSeed !== ZERO_BYTES32 && statusRef.current === "waiting_pyth") {
+            log(`✅ Pyth seed found for game #${gameId}`)
+            markSeedReady()
+          }
+        })
+        .catch(e => console.error('Error checking Pyth seed:', e))
+
+      seedTimeout = setTimeout(() => {
+        if (statusRef.current !== "waiting_pyth") return
+        log("⏱️ Timeout waiting for the Pyth seed. Reload the page to check again.")
+        dispatchGame({ type: 'START_FAILED' })
+        setCurrentNonce(null)
+      }, SEED_TIMEOUT_MS)
+    }
+
+    return () => {
+      sync.stop()
+      flushSyncEventsRef.current = () => {}
+      if (seedTimeout) clearTimeout(seedTimeout)
+    }
+  }, [isSyncing, game.id, wagmiPublicClient, wsClient, log])
+
+  // Clears the mine shown after a lost game
+  const clearMine = useCallback(() => {
+    setMinePosition(null)
+    setLostPot("0")
+  }, [])
+
+  // Resume (Restores an in-progress game after page reload)
+  const restoreGame = useCallback((recovered: RecoverableGame) => {
+    const { stored, info, status, revealedMask, revealedCount } = recovered
+    // The game sync scans from the latest block; earlier events are in info already
+    syncFromBlockRef.current = undefined
+    dispatchGame({
+      type: 'RESTORE',
+      state: {
+        id: stored.gameId,
+        pot: formatEther(info.currentPot),
+        isActive: true,
+        status,
+        confirmedMask: revealedMask,
+        pendingMask: 0n,
+        revealedCount,
+        nonceRevealed: info.nonceRevealed
+      }
+    })
+    setCurrentNonce(info.nonceRevealed ? null : stored.nonce)
+    setMinePosition(null)
+    setRecoverableGames([])
+    log(`♻️ Game #${stored.gameId} restored (${revealedCount} safe cells, pot ${formatEther(info.currentPot)} MON)`)
+
+    if (status === "waiting_pyth") {
+      log("⏳ Still waiting for Pyth seed...")
+    }
+  }, [log])
+
+  // Hides the recovery choice without restoring any game
+  const dismissRecovery = useCallback(() => setRecoverableGames([]), [])
+
+  // Scans stored games once per connected address and restores active ones
+  useEffect(() => {
+    if (!address || !wagmiPublicClient || game.status !== "idle") return
+    if (recoveryCheckedRef.current === address) return
+    recoveryCheckedRef.current = address
+
+    findRecoverableGames(wagmiPublicClient, address)
+      .then(found => {
+        if (found.length === 1) {
+          restoreGame(found[0])
+        } else if (found.length > 1) {
+          setRecoverableGames(found)
+          log(`♻️ Found ${found.length} games in progress`)
+        }
+      })
+      .catch(e => {
+        console.error('Error recovering games:', e)
+        // Scans again on the next run of this effect
+        recoveryCheckedRef.current = null
+      })
+  }, [address, wagmiPublicClient, game.status, restoreGame, log])
+
+  return {
+    game,
+    currentNonce,
+    minePosition,
+    lostPot,
+    syncMode,
+    start,
+    reveal,
+    cashOut,
+    clearMine,
+    recoverableGames,
+    restoreGame,
+    dismissRecovery
+  }
+}
@@ -0,0 +1,190 @@
+'use client'
+
+// hooks/useSessionKey.ts
+// Session key authorization: status, activate (registerSessionKey) and revoke (revokeSessionKey)
+
+import { useState, useEffect, useCallback } from 'react'
+import { useAccount, usePublicClient, useWriteContract } from 'wagmi'
+import { createPublicClient, type Chain, type Hash, type PrivateKeyAccount, type PublicClient, type TransactionReceipt } from 'viem'
+import {
+  getSessionDelegate,
+  registerSessionKey,
+  revokeSessionKey,
+  findEventInLogs,
+  type ContractReader
+} from '@/utils/contract'
+import { chainTransport } from '@/config'
+import { ACTIVE_CHAIN } from '@/utils/constants'
+import { DEFAULT_LOCALE, classifyError, formatError, type Locale } from '@/utils/errors'
+import { type LogFn } from '@/utils/activityLog'
+
+export type UseSessionKeyOptions = {
+  burnerAccount: PrivateKeyAccount | null
+  // Any client with readContract (the burner client has publicActions)
+  reader: ContractReader | null
+  chain?: Chain
+  onLog?: LogFn
+  // Language of the error messages
+  locale?: Locale
+}
+
+const noop = () => {}
+
+/**
+ * Manual polling to check transaction status (~30 seconds)
+ * @returns The receipt, or null if it could not be obtained
+ */
+async function pollReceipt(
+  publicClient: PublicClient,
+  hash: Hash,
+  onLog: LogFn
+): Promise<TransactionReceipt | null> {
+  const maxAttempts = 30
+  const pollingInterval = 2000
+
+  for (let attempts = 1; attempts <= maxAttempts; attempts++) {
+    try {
+      const receipt = await publicClient.getTransactionReceipt({ hash })
+      if (receipt) return receipt
+    } catch {
+      // Transaction not yet confirmed, continues waiting
+    }
+    if (attempts % 5 === 0) {
+      onLog(`   Still waiting... (${attempts * 2}s)`)
+    }
+    await new Promise(resolve => setTimeout(resolve, pollingInterval))
+  }
+  return null
+}
+
+/**
+ * Tracks whether the burner key is delegated to the connected wallet
+ */
+export function useSessionKey({
+  burnerAccount,
+  reader,
+  chain = ACTIVE_CHAIN,
+  onLog = noop,
+  locale = DEFAULT_LOCALE
+}: UseSessionKeyOptions) {
+  const { address } = useAccount()
+  const { writeContractAsync } = useWriteContract()
+  const wagmiPublicClient = usePublicClient({ chainId: chain.id })
+
+  const [isSessionActive, setIsSessionActive] = useState(false)
+
+  const checkAuthorization = useCallback(async () => {
+    if (!reader || !burnerAccount || !address) return
+    try {
+      const delegate = await getSessionDelegate(reader, burnerAccount.address)
+      setIsSessionActive(delegate.toLowerCase() === address.toLowerCase())
+    } catch (e) { console.error(e) }
+  }, [reader, burnerAccount, address])
+
+  // Checks if Session Key is authorized in the contract
+  useEffect(() => {
+    if (!address || !burnerAccount || !reader) return
+    getSessionDelegate(reader, burnerAccount.address)
+      .then(delegate => setIsSessionActive(delegate.toLowerCase() === address.toLowerCase()))
+      .catch(e => console.error(e))
+  }, [address, burnerAccount, reader])
+
+  /**
+   * Sends registerSessionKey or revokeSessionKey from the main wallet and confirms
+   * the new delegate through the receipt event, falling back to a direct read
+   */
+  const updateSession = useCallback(async (activate: boolean) => {
+    if (!burnerAccount || !address) return
+    try {
+      onLog(activate ? "Authorizing session key..." : "Revoking session key...")
+      const publicClient = wagmiPublicClient || createPublicClient({
+        chain: chain,
+        transport: chainTransport()
+      })
+
+      const isDelegated = async () => {
+        const delegate = await getSessionDelegate(publicClient, burnerAccount.address)
+        return delegate.toLowerCase() === address.toLowerCase()
+      }
+
+      const hash = activate
+        ? await registerSessionKey(writeContractAsync, burnerAccount.address)
+        : await revokeSessionKey(writeContractAsync, burnerAccount.address)
+      onLog(activate ? "Authorization sent." : "Revocation sent.", { category: 'tx', hash })
+      onLog("⏳ Waiting for confirmation...")
+
+      const receipt = await pollReceipt(publicClient, hash, onLog)
+
+      // If receipt wasn't obtained, checks contract state directly
+      if (!receipt) {
+        onLog("⚠️ Could not get transaction receipt, checking contract state directly...")
+        try {
+          // Waits a bit more before checking
+          await new Promise(resolve => setTimeout(resolve, 3000))
+
+          if (await isDelegated() === activate) {
+            onLog(activate ? "✅ Session key is active! (verified directly)" : "✅ Session key is revoked! (verified directly)")
+            setIsSessionActive(activate)
+          } else {
+            onLog(activate
+              ? "⚠️ Session key not yet active. Transaction may still be pending."
+              : "⚠️ Session key is still active. Transaction may still be pending.")
+            onLog("💡 The transaction was sent. Please refresh the page in a few seconds.")
+          }
+        } catch {
+          onLog("⚠️ Could not verify session key status. Transaction was sent.")
+          onLog("💡 Please refresh the page in a few seconds to check status.")
+        }
+        return
+      }
+
+      if (receipt.status !== 'success') {
+        onLog("❌ Transaction failed!")
+        return
+      }
+
+      onLog(`✅ Transaction confirmed at block: ${receipt.blockNumber}`)
+
+      // Checks SessionKeyRegistered / SessionKeyRevoked event
+      const event = findEventInLogs(receipt.logs, activate ? "SessionKeyRegistered" : "SessionKeyRevoked")
+      if (event) {
+        onLog(activate ? "✅ Session key registered successfully!" : "✅ Session key revoked successfully!")
+        setIsSessionActive(activate)
+        await checkAuthorization() // Updates state
+        return
+      }
+
+      // If event wasn't found, checks contract directly
+      onLog("⚠️ Event not found in logs, checking contract state...")
+      try {
+        if (await isDelegated() === activate) {
+          onLog(activate ? "✅ Session key is active!" : "✅ Session key is revoked!")
+          setIsSessionActive(activate)
+        } else {
+          onLog(activate
+            ? "⚠️ Session key may not be registered. Please check the transaction."
+            : "⚠️ Session key may still be active. Please check the transaction.")
+        }
+      } catch (checkError) {
+        onLog("⚠️ Could not verify session key status. Please check manually.")
+        console.error('Error checking session key:', checkError)
+      }
+    } catch (e: unknown) {
+      const error = classifyError(e, locale)
+      if (error.code === 'TIMEOUT') {
+        onLog("⏱️ Transaction confirmation timeout. The transaction may still be pending.")
+        onLog("💡 Please check the transaction status in the block explorer.")
+      } else {
+        onLog((activate ? "❌ Authorization error: " : "❌ Revocation error: ") + formatError(error))
+      }
+    }
+  }, [burnerAccount, address, wagmiPublicClient, chain, writeContractAsync, checkAuthorization, locale, onLog])
+
+  // Authorize Session (Uses Main Wallet via Wagmi)
+  const activate = useCallback(() => updateSession(true), [updateSession])
+
+  // Revoke Session (Uses Main Wallet via Wagmi)
+  const revoke = useCallback(() => updateSession(false), [updateSession])
+
+  return { isSessionActive, checkAuthorization, activate, revoke }
+}
@@ -0,0 +1,179 @@
+// scripts/devnet.ts
+// Local devnet bootstrap: deploys MonadMines and Pyth's MockEntropy to an anvil node,
+// writes their addresses to .env.local (read by utils/networks.ts) and then acts as
+// the Entropy keeper, revealing every randomness request after a configurable delay.
+//
+//   anvil
+//   npm run devnet -- --delay 2000 --drop-rate 0.1
+//
+// Options:
+//   --rpc <url>          anvil endpoint (default http://127.0.0.1:8545)
+//   --delay <ms>         wait before revealing each request (default 1500)
+//   --drop-rate <0..1>   share of requests that are never revealed, so their games stay
+//                        waiting for Pyth; callbacks themselves never revert (default 0)
+//   --house <MON>        initial house balance sent to MonadMines (default 100)
+//   --skip-build         reuse the existing forge artifacts in out/
+//   --no-watch           deploy and exit without fulfilling requests
+//
+// DEVNET_PRIVATE_KEY overrides the deployer/keeper key (first anvil account by default).
+
+import { execFileSync } from 'node:child_process'
+import { randomBytes } from 'node:crypto'
+import { existsSync, readFileSync, writeFileSync } from 'node:fs'
+import path from 'node:path'
+import { parseArgs } from 'node:util'
+import {
+  type Abi,
+  type Address,
+  type Hex,
+  createPublicClient,
+  createWalletClient,
+  http,
+  nonceManager,
+  parseAbi,
+  parseEther,
+  toHex
+} from 'viem'
+import { privateKeyToAccount } from 'viem/accounts'
+import { monadDevnet } from '../utils/networks'
+
+const ROOT = path.resolve(__dirname, '..')
+const ENV_FILE = path.join(ROOT, '.env.local')
+
+// First anvil dev account (never use outside a local node)
+const ANVIL_PRIVATE_KEY: Hex = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80'
+
+// Subset of Pyth's MockEntropy used by the keeper
+const MOCK_ENTROPY_ABI = parseAbi([
+  'event Requested(address indexed provider, address indexed caller, uint64 indexed sequenceNumber, bytes32 userContribution, uint32 gasLimit, bytes extraArgs)',
+  'function mockReveal(address provider, uint64 sequenceNumber, bytes32 randomNumber)'
+])
+
+type Artifact = { abi: Abi; bytecode: { object: Hex } }
+
+const { values: args } = parseArgs({
+  options: {
+    rpc: { type: 'string', default: 'http://127.0.0.1:8545' },
+    delay: { type: 'string', default: '1500' },
+    'drop-rate': { type: 'string', default: '0' },
+    house: { type: 'string', default: '100' },
+    'skip-build': { type: 'boolean', default: false },
+    'no-watch': { type: 'boolean', default: false }
+  }
+})
+
+const delayMs = Number(args.delay)
+const dropRate = Number(args['drop-rate'])
+if (!Number.isFinite(delayMs) || delayMs < 0) throw new Error(`Invalid --delay: ${args.delay}`)
+if (!(dropRate >= 0 && dropRate <= 1)) throw new Error(`Invalid --drop-rate: ${args['drop-rate']}`)
+
+// Monad Devnet of the app's network registry (anvil's default chain ID)
+const chain = { ...monadDevnet, rpcUrls: { default: { http: [args.rpc] } } }
+const account = privateKeyToAccount((process.env.DEVNET_PRIVATE_KEY as Hex | undefined) ?? ANVIL_PRIVATE_KEY, { nonceManager })
+const publicClient = createPublicClient({ chain, transport: http(args.rpc), pollingInterval: 500 })
+const walletClient = createWalletClient({ chain, account, transport: http(args.rpc) })
+
+const log = (message: string) => console.log(`[devnet ${new Date().toLocaleTimeString()}] ${message}`)
+
+function loadArtifact(file: string, contract: string): Artifact {
+  const artifactPath = path.join(ROOT, 'out', file, `${contract}.json`)
+  if (!existsSync(artifactPath)) throw new Error(`Missing artifact ${artifactPath}, run without --skip-build`)
+  return JSON.parse(readFileSync(artifactPath, 'utf8')) as Artifact
+}
+
+async function deploy(artifact: Artifact, constructorArgs: readonly unknown[]) {
+  const hash = await walletClient.deployContract({ abi: artifact.abi, bytecode: artifact.bytecode.object, args: constructorArgs })
+  const receipt = await publicClient.waitForTransactionReceipt({ hash })
+  if (receipt.status !== 'success' || !receipt.contractAddress) throw new Error(`Deployment reverted (${hash})`)
+  return { address: receipt.contractAddress, blockNumber: receipt.blockNumber }
+}
+
+// Sets the given keys in .env.local, keeping any other line the developer added
+function writeEnv(values: Record<string, string>) {
+  const lines = existsSync(ENV_FILE) ? readFileSync(ENV_FILE, 'utf8').split('\n') : []
+  const kept = lines.filter(line => line.trim() !== '' && !Object.keys(values).includes(line.split('=')[0].trim()))
+  const updated = Object.entries(values).map(([key, value]) => `${key}=${value}`)
+  writeFileSync(ENV_FILE, [...kept, ...updated].join('\n') + '\n')
+}
+
+async function reveal(entropy: Address, provider: Address, sequenceNumber: bigint) {
+  if (Math.random() < dropRate) {
+    log(`#${sequenceNumber} dropped, game stays waiting for Pyth`)
+    return
+  }
+
+  try {
+    const hash = await walletClient.writeContract({
+      address: entropy,
+      abi: MOCK_ENTROPY_ABI,
+      functionName: 'mockReveal',
+      args: [provider, sequenceNumber, toHex(randomBytes(32))]
+    })
+    const receipt = await publicClient.waitForTransactionReceipt({ hash })
+    log(`#${sequenceNumber} revealed: ${receipt.status} (${hash})`)
+  } catch (error) {
+    log(`#${sequenceNumber} reveal failed: ${error instanceof Error ? error.message.split('\n')[0] : String(error)}`)
+  }
+}
+
+async function main() {
+  const chainId = await publicClient.getChainId()
+  if (chainId !== monadDevnet.id) {
+    throw new Error(`Node at ${args.rpc} has chain ID ${chainId}, start anvil with --chain-id ${monadDevnet.id}`)
+  }
+
+  if (!args['skip-build']) {
+    log('Compiling contracts (forge build)')
+    execFileSync('forge', ['build'], { cwd: ROOT, stdio: 'inherit' })
+  }
+
+  // MockEntropy's default provider is the keeper itself
+  const entropy = await deploy(loadArtifact('MockEntropy.sol', 'MockEntropy'), [account.address])
+  log(`MockEntropy deployed at ${entropy.address}`)
+  const mines = await deploy(loadArtifact('MonadMines.sol', 'MonadMines'), [entropy.address])
+  log(`MonadMines deployed at ${mines.address} (owner ${account.address})`)
+
+  const fundHash = await walletClient.sendTransaction({ to: mines.address, value: parseEther(args.house) })
+  await publicClient.waitForTransactionReceipt({ hash: fundHash })
+  log(`House funded with ${args.house} MON`)
+
+  writeEnv({
+    // Makes the devnet the default network; the addresses below override its registry entry
+    NEXT_PUBLIC_CHAIN_ID: String(monadDevnet.id),
+    NEXT_PUBLIC_RPC_URL: args.rpc,
+    // Anvil also serves WebSocket on its HTTP port
+    NEXT_PUBLIC_RPC_WS_URL: args.rpc.replace(/^http/, 'ws'),
+    NEXT_PUBLIC_CONTRACT_ADDRESS: mines.address,
+    NEXT_PUBLIC_ENTROPY_ADDRESS: entropy.address,
+    NEXT_PUBLIC_CONTRACT_DEPLOY_BLOCK: mines.blockNumber.toString()
+  })
+  log(`Addresses written to ${path.relative(ROOT, ENV_FILE)} (restart next dev to pick them up)`)
+
+  if (args['no-watch']) return
+
+  log(`Watching entropy requests (delay ${delayMs}ms, drop rate ${dropRate})`)
+  const unwatch = publicClient.watchContractEvent({
+    address: entropy.address,
+    abi: MOCK_ENTROPY_ABI,
+    eventName: 'Requested',
+    onLogs: logs => {
+      for (const { args: request } of logs) {
+        if (request.provider === undefined || request.sequenceNumber === undefined) continue
+        const { provider, sequenceNumber } = request
+        log(`#${sequenceNumber} requested by ${request.caller}`)
+        setTimeout(() => void reveal(entropy.address, provider, sequenceNumber), delayMs)
+      }
+    },
+    onError: error => log(`Watch error: ${error.message.split('\n')[0]}`)
+  })
+
+  process.on('SIGINT', () => {
+    unwatch()
+    process.exit(0)
+  })
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error)
+  process.exit(1)
+})
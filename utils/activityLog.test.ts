@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest'
+import { keccak256, toHex } from 'viem'
+import { monadTestnet } from 'viem/chains'
+import { monadDevnet } from './networks'
+import { createLogEntry, filterLogs, inferLogLevel, logTxUrl, shortHash } from './activityLog'
+
+const HASH = keccak256(toHex('tx'))
+
+describe('log entries', () => {
+  it('infers the level from the leading emoji', () => {
+    expect(inferLogLevel("❌ Cashout failed")).toBe('error')
+    expect(inferLogLevel("⚠️ Insufficient funds")).toBe('warning')
+    expect(inferLogLevel("  💎 Safe! Pot: 0.0012 MON")).toBe('success')
+    expect(inferLogLevel("Opening (1, 2)...")).toBe('info')
+  })
+
+  it('fills the defaults of a log call', () => {
+    expect(createLogEntry("✅ Done", {}, 'wallet', monadTestnet.id, 1000)).toEqual({
+      timestamp: 1000,
+      level: 'success',
+      category: 'wallet',
+      message: "✅ Done",
+      chainId: monadTestnet.id,
+      gameId: null,
+      hash: null
+    })
+    const entry = createLogEntry("Tx sent!", { category: 'tx', level: 'warning', gameId: 7n, hash: HASH }, 'game', monadTestnet.id)
+    expect(entry).toMatchObject({ category: 'tx', level: 'warning', gameId: 7n, hash: HASH })
+  })
+
+  it('filters by level and category', () => {
+    const entries = [
+      createLogEntry("❌ Failed", {}, 'game', monadTestnet.id),
+      createLogEntry("Sent", { hash: HASH }, 'tx', monadTestnet.id),
+      createLogEntry("⚠️ Low", {}, 'wallet', monadTestnet.id)
+    ]
+    expect(filterLogs(entries, { levels: ['error', 'warning'], categories: ['game', 'wallet', 'tx'] })).toHaveLength(2)
+    expect(filterLogs(entries, { levels: ['info', 'error', 'warning'], categories: ['tx'] })).toEqual([entries[1]])
+    expect(filterLogs(entries, { levels: [], categories: ['game'] })).toEqual([])
+  })
+
+  it('links hashes to the explorer of the chain they were logged on', () => {
+    const entry = createLogEntry("Sent", { hash: HASH }, 'tx', monadTestnet.id)
+    expect(logTxUrl(entry)).toBe(`${monadTestnet.blockExplorers.default.url}/tx/${HASH}`)
+    // No public explorer on the local devnet
+    expect(logTxUrl({ ...entry, chainId: monadDevnet.id })).toBeNull()
+    expect(logTxUrl({ ...entry, hash: null })).toBeNull()
+    expect(shortHash(HASH)).toBe(`${HASH.slice(0, 6)}…${HASH.slice(-4)}`)
+  })
+})
@@ -0,0 +1,186 @@
+// utils/activityLog.ts
+// Typed activity log entries, persisted in IndexedDB so players can review what happened
+// after a reload or crash
+
+import { type Hex } from 'viem'
+import { NETWORKS } from './networks'
+
+const DB_NAME = "monad_activity_log"
+const DB_VERSION = 1
+const STORE = "entries"
+
+// Entries kept in IndexedDB (older ones are pruned on write) and shown in the panel
+export const MAX_STORED_LOGS = 1000
+export const MAX_SHOWN_LOGS = 200
+
+export type LogLevel = 'info' | 'success' | 'warning' | 'error'
+export type LogCategory = 'session' | 'game' | 'wallet' | 'tx'
+
+export const LOG_LEVELS: readonly LogLevel[] = ['info', 'success', 'warning', 'error']
+export const LOG_CATEGORIES: readonly LogCategory[] = ['session', 'game', 'wallet', 'tx']
+
+export type LogEntry = {
+  // Assigned by IndexedDB (auto-increment), so it also orders entries written in the same ms
+  id?: number
+  timestamp: number
+  level: LogLevel
+  category: LogCategory
+  message: string
+  chainId: number
+  gameId: bigint | null
+  hash: Hex | null
+}
+
+// Optional fields of a log call; the level defaults to the one of the message's emoji
+export type LogDetails = {
+  level?: LogLevel
+  category?: LogCategory
+  gameId?: bigint | null
+  hash?: Hex | null
+}
+
+export type LogFn = (message: string, details?: LogDetails) => void
+
+export type LogFilter = {
+  levels: readonly LogLevel[]
+  categories: readonly LogCategory[]
+}
+
+// Leading emoji of the existing log messages
+const LEVEL_PREFIXES: [string, LogLevel][] = [
+  ["❌", 'error'],
+  ["💥", 'error'],
+  ["⚠️", 'warning'],
+  ["⏱️", 'warning'],
+  ["✅", 'success'],
+  ["💰", 'success'],
+  ["💎", 'success']
+]
+
+/**
+ * Level of a message from its leading emoji (info if none matches)
+ */
+export function inferLogLevel(message: string): LogLevel {
+  const trimmed = message.trimStart()
+  return LEVEL_PREFIXES.find(([prefix]) => trimmed.startsWith(prefix))?.[1] ?? 'info'
+}
+
+/**
+ * Builds a log entry; the category falls back to `category` (the one of the calling hook)
+ */
+export function createLogEntry(
+  message: string,
+  details: LogDetails,
+  category: LogCategory,
+  chainId: number,
+  now = Date.now()
+): LogEntry {
+  return {
+    timestamp: now,
+    level: details.level ?? inferLogLevel(message),
+    category: details.category ?? category,
+    message,
+    chainId,
+    gameId: details.gameId ?? null,
+    hash: details.hash ?? null
+  }
+}
+
+/**
+ * Entries matching the filter (an empty list of levels or categories matches nothing)
+ */
+export function filterLogs(entries: readonly LogEntry[], filter: LogFilter): LogEntry[] {
+  return entries.filter(entry => filter.levels.includes(entry.level) && filter.categories.includes(entry.category))
+}
+
+/**
+ * Explorer link of an entry's transaction, on the chain it was logged on (null without one)
+ */
+export function logTxUrl(entry: LogEntry): string | null {
+  const explorerUrl = NETWORKS[entry.chainId]?.explorerUrl
+  return entry.hash && explorerUrl ? `${explorerUrl}/tx/${entry.hash}` : null
+}
+
+/**
+ * Short form of a hash for display (0x1234…abcd)
+ */
+export function shortHash(hash: Hex): string {
+  return `${hash.slice(0, 6)}…${hash.slice(-4)}`
+}
+
+// ==================== INDEXEDDB ====================
+
+// IDBRequest as a promise
+function done<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+// Resolves once a readwrite transaction is committed
+function committed(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error)
+  })
+}
+
+/**
+ * Opens the log database, creating its store on first use
+ */
+export function openActivityLog(factory: IDBFactory = indexedDB): Promise<IDBDatabase> {
+  const request = factory.open(DB_NAME, DB_VERSION)
+  request.onupgradeneeded = () => {
+    request.result.createObjectStore(STORE, { keyPath: 'id', autoIncrement: true })
+  }
+  return done(request)
+}
+
+/**
+ * Writes an entry and prunes the oldest ones beyond MAX_STORED_LOGS; returns the stored entry
+ */
+export async function appendLogEntry(db: IDBDatabase, entry: LogEntry): Promise<LogEntry> {
+  const tx = db.transaction(STORE, 'readwrite')
+  const store = tx.objectStore(STORE)
+  const id = await done(store.add(entry)) as number
+  const count = await done(store.count())
+  if (count > MAX_STORED_LOGS) {
+    // Keys are increasing, so the oldest entries come first
+    const oldest = await done(store.getAllKeys(null, count - MAX_STORED_LOGS))
+    store.delete(IDBKeyRange.upperBound(oldest[oldest.length - 1]))
+  }
+  await committed(tx)
+  return { ...entry, id }
+}
+
+/**
+ * Latest stored entries, newest first
+ */
+export async function readLogEntries(db: IDBDatabase, limit = MAX_SHOWN_LOGS): Promise<LogEntry[]> {
+  const store = db.transaction(STORE, 'readonly').objectStore(STORE)
+  const entries: LogEntry[] = []
+  return new Promise((resolve, reject) => {
+    const request = store.openCursor(null, 'prev')
+    request.onerror = () => reject(request.error)
+    request.onsuccess = () => {
+      const cursor = request.result
+      if (!cursor || entries.length >= limit) {
+        resolve(entries)
+        return
+      }
+      entries.push(cursor.value as LogEntry)
+      cursor.continue()
+    }
+  })
+}
+
+/**
+ * Deletes every stored entry
+ */
+export async function clearLogEntries(db: IDBDatabase): Promise<void> {
+  const tx = db.transaction(STORE, 'readwrite')
+  tx.objectStore(STORE).clear()
+  await committed(tx)
+}
@@ -0,0 +1,55 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { parseGwei } from 'viem'
+import { REVEAL_GAS_LIMIT } from './contract'
+import { DEFAULT_GAS, type BurnerCosts } from './fees'
+import {
+  BALANCE_GUARD_STORAGE,
+  DEFAULT_BALANCE_GUARD,
+  readBalanceGuardSettings,
+  requiredBalance,
+  revealsLeft,
+  topUpAmount
+} from './balanceGuard'
+
+const GAS_PRICE = parseGwei('50')
+const REVEAL_COST = REVEAL_GAS_LIMIT * GAS_PRICE
+const CASHOUT_COST = DEFAULT_GAS.cashOut * GAS_PRICE
+const COSTS: BurnerCosts = { reveal: REVEAL_COST, cashOut: CASHOUT_COST }
+
+describe('reveal budget', () => {
+  it('keeps the cashout cost aside', () => {
+    expect(revealsLeft(CASHOUT_COST, COSTS)).toBe(0)
+    expect(revealsLeft(CASHOUT_COST + REVEAL_COST - 1n, COSTS)).toBe(0)
+    expect(revealsLeft(CASHOUT_COST + 3n * REVEAL_COST, COSTS)).toBe(3)
+    expect(revealsLeft(requiredBalance(7, COSTS), COSTS)).toBe(7)
+  })
+
+  it('tops up to the target, rounded up to 0.0001 MON', () => {
+    const balance = requiredBalance(2, COSTS)
+    const amount = topUpAmount(balance, COSTS, 20)
+    expect(amount % 10n ** 14n).toBe(0n)
+    expect(revealsLeft(balance + amount, COSTS)).toBe(20)
+    expect(topUpAmount(requiredBalance(25, COSTS), COSTS, 20)).toBe(0n)
+  })
+})
+
+describe('readBalanceGuardSettings', () => {
+  beforeEach(() => {
+    const items = new Map<string, string>()
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => items.get(key) ?? null,
+      setItem: (key: string, value: string) => void items.set(key, value),
+      removeItem: (key: string) => void items.delete(key)
+    })
+  })
+
+  it('falls back to the defaults for missing or invalid values', () => {
+    expect(readBalanceGuardSettings()).toEqual(DEFAULT_BALANCE_GUARD)
+
+    localStorage.setItem(BALANCE_GUARD_STORAGE, JSON.stringify({ minReveals: -1, targetReveals: 'x', autoTopUp: 'yes' }))
+    expect(readBalanceGuardSettings()).toEqual(DEFAULT_BALANCE_GUARD)
+
+    localStorage.setItem(BALANCE_GUARD_STORAGE, JSON.stringify({ minReveals: 10, targetReveals: 4, autoTopUp: true }))
+    expect(readBalanceGuardSettings()).toEqual({ minReveals: 10, targetReveals: 10, autoTopUp: true })
+  })
+})
@@ -0,0 +1,76 @@
+// utils/balanceGuard.ts
+// Burner balance budget measured in reveals, and the low-balance top-up settings
+
+import { type BurnerCosts } from './fees'
+
+export const BALANCE_GUARD_STORAGE = "monad_balance_guard"
+
+// 0.0001 MON
+const TOP_UP_STEP = 10n ** 14n
+
+export type BalanceGuardSettings = {
+  // Low balance below this many reveals (plus a cashout); also required to start a game
+  minReveals: number
+  // A top-up refills the burner up to this many reveals
+  targetReveals: number
+  // Requests the top-up from the main wallet as soon as the balance is low
+  autoTopUp: boolean
+}
+
+export const DEFAULT_BALANCE_GUARD: BalanceGuardSettings = {
+  minReveals: 5,
+  targetReveals: 20,
+  autoTopUp: false
+}
+
+/**
+ * Balance needed for a number of reveals followed by a cashout
+ * @param costs - Current cost of each transaction (see burnerCosts)
+ */
+export function requiredBalance(reveals: number, costs: BurnerCosts): bigint {
+  return BigInt(reveals) * costs.reveal + costs.cashOut
+}
+
+/**
+ * Reveals the balance can pay for while keeping enough for the cashout
+ */
+export function revealsLeft(balance: bigint, costs: BurnerCosts): number {
+  if (costs.reveal === 0n) return Infinity
+  if (balance <= costs.cashOut) return 0
+  return Number((balance - costs.cashOut) / costs.reveal)
+}
+
+/**
+ * Amount that brings the balance up to targetReveals (0 if already there),
+ * rounded up to TOP_UP_STEP so the wallet prompt shows a readable value
+ */
+export function topUpAmount(balance: bigint, costs: BurnerCosts, targetReveals: number): bigint {
+  const missing = requiredBalance(targetReveals, costs) - balance
+  if (missing <= 0n) return 0n
+  return ((missing + TOP_UP_STEP - 1n) / TOP_UP_STEP) * TOP_UP_STEP
+}
+
+/**
+ * Reads the guard settings, falling back to the defaults for missing or invalid fields
+ */
+export function readBalanceGuardSettings(): BalanceGuardSettings {
+  const raw = localStorage.getItem(BALANCE_GUARD_STORAGE)
+  if (!raw) return DEFAULT_BALANCE_GUARD
+  try {
+    const parsed = JSON.parse(raw)
+    const count = (value: unknown, fallback: number) =>
+      Number.isInteger(value) && (value as number) > 0 ? (value as number) : fallback
+    const minReveals = count(parsed.minReveals, DEFAULT_BALANCE_GUARD.minReveals)
+    return {
+      minReveals,
+      targetReveals: Math.max(minReveals, count(parsed.targetReveals, DEFAULT_BALANCE_GUARD.targetReveals)),
+      autoTopUp: parsed.autoTopUp === true
+    }
+  } catch {
+    return DEFAULT_BALANCE_GUARD
+  }
+}
+
+export function saveBalanceGuardSettings(settings: BalanceGuardSettings): void {
+  localStorage.setItem(BALANCE_GUARD_STORAGE, JSON.stringify(settings))
+}
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest'
+import { CELL_COUNT, cellIndex, isCellRevealed, countRevealedCells, revealedCellsList } from './board'
+
+// Bitmask with the given cells set
+const maskOf = (cells: Array<[number, number]>) =>
+  cells.reduce((mask, [x, y]) => mask | (1n << BigInt(cellIndex(x, y))), 0n)
+
+describe('board', () => {
+  it('indexes cells like the contract (y * 10 + x)', () => {
+    expect(cellIndex(0, 0)).toBe(0)
+    expect(cellIndex(9, 0)).toBe(9)
+    expect(cellIndex(0, 1)).toBe(10)
+    expect(cellIndex(9, 9)).toBe(CELL_COUNT - 1)
+  })
+
+  it('reads single cells from the bitmask', () => {
+    const mask = maskOf([[3, 4], [9, 9]])
+    expect(isCellRevealed(mask, 3, 4)).toBe(true)
+    expect(isCellRevealed(mask, 9, 9)).toBe(true)
+    expect(isCellRevealed(mask, 4, 3)).toBe(false)
+  })
+
+  it('counts revealed cells', () => {
+    expect(countRevealedCells(0n)).toBe(0)
+    expect(countRevealedCells(maskOf([[0, 0], [5, 5], [9, 9]]))).toBe(3)
+    expect(countRevealedCells((1n << BigInt(CELL_COUNT)) - 1n)).toBe(CELL_COUNT)
+  })
+
+  it('ignores bits outside the 10x10 board', () => {
+    expect(countRevealedCells(1n << BigInt(CELL_COUNT))).toBe(0)
+  })
+
+  it('lists revealed cells row by row', () => {
+    expect(revealedCellsList(maskOf([[7, 2], [1, 0], [0, 2]]))).toEqual([
+      { x: 1, y: 0 },
+      { x: 0, y: 2 },
+      { x: 7, y: 2 }
+    ])
+  })
+})
@@ -0,0 +1,47 @@
+// utils/board.ts
+// Helpers for the 10x10 board and the revealedCells bitmask used by MonadMines
+
+export const GRID_SIZE = 10
+export const CELL_COUNT = GRID_SIZE * GRID_SIZE
+
+/**
+ * Bit index of a cell in the revealedCells bitmask (same as the contract: y * 10 + x)
+ */
+export function cellIndex(x: number, y: number): number {
+  return y * GRID_SIZE + x
+}
+
+/**
+ * Checks if a cell is set in the bitmask
+ */
+export function isCellRevealed(mask: bigint, x: number, y: number): boolean {
+  return (mask & (1n << BigInt(cellIndex(x, y)))) !== 0n
+}
+
+/**
+ * Counts how many cells are set in the bitmask
+ */
+export function countRevealedCells(mask: bigint): number {
+  let count = 0
+  for (let i = 0; i < CELL_COUNT; i++) {
+    if ((mask & (1n << BigInt(i))) !== 0n) {
+      count++
+    }
+  }
+  return count
+}
+
+/**
+ * Lists the coordinates of every cell set in the bitmask
+ */
+export function revealedCellsList(mask: bigint): Array<{ x: number; y: number }> {
+  const cells: Array<{ x: number; y: number }> = []
+  for (let y = 0; y < GRID_SIZE; y++) {
+    for (let x = 0; x < GRID_SIZE; x++) {
+      if (isCellRevealed(mask, x, y)) {
+        cells.push({ x, y })
+      }
+    }
+  }
+  return cells
+}
@@ -1,12 +1,26 @@
 // utils/constants.ts
 import { parseAbi } from 'viem'
-import contractAbi from './abi.json'
+import { MONAD_MINES_ABI } from './abi'
+import { ACTIVE_NETWORK } from './networks'
 
-export const CONTRACT_ADDRESS = "0xb622C9Ad048C61bFe11810baa94d51FcFCa65415";
-export const ENTROPY_ADDRESS = "0x825c0390f379c631f3cf11a82a37d20bddf93c07" as const;
+// Addresses and endpoints of the active network (see networks.ts; Monad testnet by default)
+export const ACTIVE_CHAIN = ACTIVE_NETWORK.chain;
+export const CONTRACT_ADDRESS = ACTIVE_NETWORK.contracts.mines;
+export const ENTROPY_ADDRESS = ACTIVE_NETWORK.contracts.entropy;
 
-// MonadMines contract ABI imported from JSON file
-export const CONTRACT_ABI = contractAbi;
+// Block where CONTRACT_ADDRESS was deployed (lower bound for all-time log scans)
+export const CONTRACT_DEPLOY_BLOCK = ACTIVE_NETWORK.contracts.deployBlock;
+
+export const RPC_URL = ACTIVE_NETWORK.rpcUrl;
+
+// WebSocket endpoint for event subscriptions (undefined = game sync polls over RPC_URL)
+export const RPC_WS_URL = ACTIVE_NETWORK.wsUrl;
+
+// Block explorer used for tx and address links (undefined on the local devnet)
+export const EXPLORER_URL = ACTIVE_NETWORK.explorerUrl;
+
+// MonadMines contract ABI (typed, see abi.ts)
+export const CONTRACT_ABI = MONAD_MINES_ABI;
 
 // Entropy contract ABI to get fee
 export const ENTROPY_ABI = parseAbi([
@@ -0,0 +1,270 @@
+import { describe, it, expect, vi } from 'vitest'
+import {
+  type Address,
+  type Hex,
+  createPublicClient,
+  custom,
+  decodeFunctionData,
+  encodeAbiParameters,
+  encodeEventTopics,
+  encodeFunctionResult,
+  keccak256,
+  toHex
+} from 'viem'
+import { monadTestnet } from 'viem/chains'
+import {
+  getGameInfo,
+  getGameState,
+  getRevealedSafeCells,
+  getSessionDelegate,
+  getGameParameters,
+  registerSessionKey,
+  revokeSessionKey,
+  startGame,
+  revealCell,
+  cashOut,
+  decodeContractEvent,
+  findEventInLogs,
+  getContractLogs,
+  LOG_BLOCK_RANGE,
+  LOG_CONCURRENCY,
+  ZERO_BYTES32,
+  CONTRACT_ADDRESS,
+  CONTRACT_ABI,
+  type BurnerWalletClient,
+  type WriteContractAsync
+} from './contract'
+
+const PLAYER: Address = '0x1111111111111111111111111111111111111111'
+const SESSION_KEY: Address = '0x2222222222222222222222222222222222222222'
+const SEED = keccak256(toHex('seed'))
+const PYTH_SEED = keccak256(toHex('pyth'))
+const NONCE = keccak256(toHex('nonce'))
+const COMMIT = keccak256(NONCE)
+
+/**
+ * Public client whose eth_call answers come from a handler keyed by function name
+ */
+function mockReader(results: Record<string, (args: readonly unknown[]) => Hex>) {
+  const request = vi.fn(async ({ method, params }: { method: string; params?: unknown }) => {
+    if (method === 'eth_chainId') return toHex(monadTestnet.id)
+    if (method !== 'eth_call') throw new Error(`Unexpected method ${method}`)
+    const [call] = params as [{ data: Hex }]
+    const { functionName, args } = decodeFunctionData({ abi: CONTRACT_ABI, data: call.data })
+    return results[functionName](args ?? [])
+  })
+  return createPublicClient({ chain: monadTestnet, transport: custom({ request }) })
+}
+
+// Encodes a MonadMines event as a raw log
+function encodeLog(eventName: 'GameRequested' | 'CellRevealed' | 'GameOver', args: Record<string, unknown>) {
+  const event = CONTRACT_ABI.find(item => item.type === 'event' && item.name === eventName)
+  if (!event || event.type !== 'event') throw new Error(eventName)
+  const nonIndexed = event.inputs.filter(input => !input.indexed)
+  return {
+    topics: encodeEventTopics({ abi: CONTRACT_ABI, eventName, args } as never) as Hex[],
+    data: encodeAbiParameters(nonIndexed, nonIndexed.map(input => args[input.name]))
+  }
+}
+
+describe('read functions', () => {
+  it('maps the games tuple to GameInfo', async () => {
+    const reader = mockReader({
+      games: () => encodeFunctionResult({
+        abi: CONTRACT_ABI,
+        functionName: 'games',
+        result: [PLAYER, 123n, SEED, PYTH_SEED, NONCE, COMMIT, 0b1011n, true, false, true]
+      })
+    })
+
+    expect(await getGameInfo(reader, 7n)).toEqual({
+      player: PLAYER,
+      currentPot: 123n,
+      seed: SEED,
+      pythSeed: PYTH_SEED,
+      playerNonce: NONCE,
+      nonceCommit: COMMIT,
+      revealedCells: 0b1011n,
+      isActive: true,
+      isLost: false,
+      nonceRevealed: true
+    })
+  })
+
+  it('maps the getGameState tuple to GameStateInfo', async () => {
+    const reader = mockReader({
+      getGameState: () => encodeFunctionResult({
+        abi: CONTRACT_ABI,
+        functionName: 'getGameState',
+        result: [PLAYER, 0n, ZERO_BYTES32, false, true, 4n, true]
+      })
+    })
+
+    expect(await getGameState(reader, 7n)).toEqual({
+      player: PLAYER,
+      currentPot: 0n,
+      seed: ZERO_BYTES32,
+      isActive: false,
+      isLost: true,
+      revealedCells: 4n,
+      nonceRevealed: true
+    })
+  })
+
+  it('passes the game ID and session key as arguments', async () => {
+    const seen: unknown[] = []
+    const reader = mockReader({
+      games: args => {
+        seen.push(args[0])
+        return encodeFunctionResult({
+          abi: CONTRACT_ABI,
+          functionName: 'games',
+          result: [PLAYER, 0n, ZERO_BYTES32, ZERO_BYTES32, ZERO_BYTES32, ZERO_BYTES32, 0n, false, false, false]
+        })
+      },
+      sessionDelegates: args => {
+        seen.push(args[0])
+        return encodeFunctionResult({ abi: CONTRACT_ABI, functionName: 'sessionDelegates', result: PLAYER })
+      }
+    })
+
+    await getGameInfo(reader, 42n)
+    expect(await getSessionDelegate(reader, SESSION_KEY)).toBe(PLAYER)
+    expect(seen).toEqual([42n, SESSION_KEY])
+  })
+
+  it('groups getRevealedSafeCells into coordinates', async () => {
+    const reader = mockReader({
+      getRevealedSafeCells: () => encodeFunctionResult({
+        abi: CONTRACT_ABI,
+        functionName: 'getRevealedSafeCells',
+        result: [1, 0, 4, 2, 9, 9]
+      })
+    })
+
+    expect(await getRevealedSafeCells(reader, 1n)).toEqual([
+      { x: 1, y: 0 },
+      { x: 4, y: 2 },
+      { x: 9, y: 9 }
+    ])
+  })
+
+  it('reads the parameters and maps a zero change time to no pending change', async () => {
+    const reader = mockReader({
+      MINE_PROBABILITY: () => encodeFunctionResult({ abi: CONTRACT_ABI, functionName: 'MINE_PROBABILITY', result: 2000n }),
+      REWARD_MULTIPLIER: () => encodeFunctionResult({ abi: CONTRACT_ABI, functionName: 'REWARD_MULTIPLIER', result: 12000n }),
+      pendingMineProbability: () => encodeFunctionResult({
+        abi: CONTRACT_ABI,
+        functionName: 'pendingMineProbability',
+        result: [2500n, 1700086400n]
+      }),
+      pendingRewardMultiplier: () => encodeFunctionResult({
+        abi: CONTRACT_ABI,
+        functionName: 'pendingRewardMultiplier',
+        result: [0n, 0n]
+      })
+    })
+
+    expect(await getGameParameters(reader)).toEqual({
+      mineProbability: 2000n,
+      rewardMultiplier: 12000n,
+      pendingMineProbability: { newValue: 2500n, changeTime: 1700086400n },
+      pendingRewardMultiplier: null
+    })
+  })
+})
+
+describe('write functions', () => {
+  it('sends session key and startGame calls through the main wallet', async () => {
+    const writeContractAsync = vi.fn(async () => '0xabc' as Hex)
+    const write = writeContractAsync as unknown as WriteContractAsync
+
+    await registerSessionKey(write, SESSION_KEY)
+    await revokeSessionKey(write, SESSION_KEY)
+    expect(await startGame(write, COMMIT, 5n)).toBe('0xabc')
+
+    expect(writeContractAsync.mock.calls.map(call => (call as unknown[])[0])).toEqual([
+      { address: CONTRACT_ADDRESS, abi: CONTRACT_ABI, functionName: 'registerSessionKey', args: [SESSION_KEY] },
+      { address: CONTRACT_ADDRESS, abi: CONTRACT_ABI, functionName: 'revokeSessionKey', args: [SESSION_KEY] },
+      { address: CONTRACT_ADDRESS, abi: CONTRACT_ABI, functionName: 'startGame', args: [COMMIT], value: 5n }
+    ])
+  })
+
+  it('sends reveal and cashout through the burner wallet', async () => {
+    const writeContract = vi.fn(async () => '0xdef' as Hex)
+    const walletClient = { writeContract } as unknown as BurnerWalletClient
+
+    await revealCell(walletClient, 3n, 4, 5, NONCE)
+    await cashOut(walletClient, 3n)
+
+    expect(writeContract.mock.calls.map(call => (call as unknown[])[0])).toEqual([
+      { address: CONTRACT_ADDRESS, abi: CONTRACT_ABI, functionName: 'revealCell', args: [3n, 4, 5, NONCE], gas: 200000n },
+      { address: CONTRACT_ADDRESS, abi: CONTRACT_ABI, functionName: 'cashOut', args: [3n] }
+    ])
+  })
+})
+
+describe('event decoding', () => {
+  const requested = encodeLog('GameRequested', { gameId: 9n, player: PLAYER, nonceCommit: COMMIT })
+  const revealed = encodeLog('CellRevealed', { gameId: 9n, x: 2, y: 3, isMine: false, newPot: 1200n })
+
+  it('decodes a log only as the requested event', () => {
+    expect(decodeContractEvent(requested, 'GameRequested')?.args).toEqual({ gameId: 9n, player: PLAYER, nonceCommit: COMMIT })
+    expect(decodeContractEvent(requested, 'CellRevealed')).toBeNull()
+  })
+
+  it('returns null for logs of other contracts', () => {
+    const foreign = { topics: [keccak256(toHex('Transfer(address,address,uint256)'))], data: '0x' as Hex }
+    expect(decodeContractEvent(foreign, 'GameRequested')).toBeNull()
+  })
+
+  it('finds an event among receipt logs', () => {
+    const found = findEventInLogs([requested, revealed], 'CellRevealed')
+    expect(found?.topics).toEqual(revealed.topics)
+    expect(found?.parsed.args).toEqual({ gameId: 9n, x: 2, y: 3, isMine: false, newPot: 1200n })
+    expect(findEventInLogs([requested, revealed], 'GameOver')).toBeNull()
+  })
+})
+
+describe('getContractLogs', () => {
+  it('splits the block range in LOG_BLOCK_RANGE chunks', async () => {
+    const ranges: Array<[bigint, bigint]> = []
+    const client = {
+      getLogs: vi.fn(async ({ fromBlock, toBlock }: { fromBlock: bigint; toBlock: bigint }) => {
+        ranges.push([fromBlock, toBlock])
+        return []
+      })
+    } as unknown as Parameters<typeof getContractLogs>[0]
+
+    await getContractLogs(client, 'GameOver', undefined, 100n, 100n + LOG_BLOCK_RANGE * 2n)
+
+    expect(ranges).toEqual([
+      [100n, 100n + LOG_BLOCK_RANGE - 1n],
+      [100n + LOG_BLOCK_RANGE, 100n + LOG_BLOCK_RANGE * 2n - 1n],
+      [100n + LOG_BLOCK_RANGE * 2n, 100n + LOG_BLOCK_RANGE * 2n]
+    ])
+  })
+
+  it('runs at most LOG_CONCURRENCY chunks at once and keeps block order', async () => {
+    let inFlight = 0
+    let maxInFlight = 0
+    const client = {
+      getLogs: vi.fn(async ({ fromBlock }: { fromBlock: bigint }) => {
+        inFlight++
+        maxInFlight = Math.max(maxInFlight, inFlight)
+        // Later chunks answer first
+        await new Promise(resolve => setTimeout(resolve, Number(100n - fromBlock / LOG_BLOCK_RANGE)))
+        inFlight--
+        return [{ blockNumber: fromBlock }]
+      })
+    } as unknown as Parameters<typeof getContractLogs>[0]
+
+    const chunks = LOG_CONCURRENCY * 3
+    const logs = await getContractLogs(client, 'GameOver', undefined, 0n, LOG_BLOCK_RANGE * BigInt(chunks) - 1n)
+
+    expect(maxInFlight).toBe(LOG_CONCURRENCY)
+    expect(logs.map(log => log.blockNumber)).toEqual(
+      Array.from({ length: chunks }, (_, i) => LOG_BLOCK_RANGE * BigInt(i))
+    )
+  })
+})
@@ -1,19 +1,45 @@
 // utils/contract.ts
 // Module for interactions with MonadMines contract
 
-import { type Address, type PublicClient, type Hex, decodeEventLog } from 'viem'
+import {
+  type Account,
+  type Address,
+  type Chain,
+  type ContractEventName,
+  type ContractFunctionReturnType,
+  type DecodeEventLogReturnType,
+  type Hex,
+  type Log,
+  type PublicClient,
+  type Transport,
+  type WalletClient,
+  decodeEventLog
+} from 'viem'
+import { type UseWriteContractReturnType } from 'wagmi'
 import { CONTRACT_ADDRESS, CONTRACT_ABI, ENTROPY_ADDRESS, ENTROPY_ABI } from './constants'
+import { type MonadMinesAbi } from './abi'
 
 // Also exports for use in watchContractEvent
 export { CONTRACT_ADDRESS, CONTRACT_ABI }
+export type { MonadMinesAbi }
 
+// ============ CLIENT TYPES ============
+
+// Any client able to read the contract (wagmi public client or burner client with publicActions)
+export type ContractReader = Pick<PublicClient, 'readContract'>
+
+// Burner wallet client: account and chain are fixed when the client is created
+export type BurnerWalletClient = WalletClient<Transport, Chain, Account>
+
+// Main wallet writer (wagmi useWriteContract().writeContractAsync)
+export type WriteContractAsync = UseWriteContractReturnType['writeContractAsync']
 
 // Contract types
 // games returns: [player, currentPot, seed, pythSeed, playerNonce, nonceCommit, revealedCells, isActive, isLost, nonceRevealed]
 // Note: revealedCells is a bigint that represents a bitmask (each bit represents a revealed cell)
-export type GameInfoArray = [string, bigint, Hex, Hex, Hex, Hex, bigint, boolean, boolean, boolean]
+export type GameInfoArray = ContractFunctionReturnType<MonadMinesAbi, 'view', 'games'>
 export type GameInfo = {
-  player: string
+  player: Address
   currentPot: bigint
   seed: Hex
   pythSeed: Hex
@@ -25,37 +51,75 @@ export type GameInfo = {
   nonceRevealed: boolean
 }
 
+// getGameState returns: [player, currentPot, seed, isActive, isLost, revealedCells, nonceRevealed]
+// Note: seed is only returned once the game is finished (zero while active)
+export type GameStateArray = ContractFunctionReturnType<MonadMinesAbi, 'view', 'getGameState'>
+export type GameStateInfo = {
+  player: Address
+  currentPot: bigint
+  seed: Hex
+  isActive: boolean
+  isLost: boolean
+  revealedCells: bigint
+  nonceRevealed: boolean
+}
+
+// Timelocked parameter change proposed by the owner (see PARAM_CHANGE_DELAY)
+export type PendingParameterChange = {
+  newValue: bigint
+  // Unix timestamp (seconds) from which the owner can execute the change
+  changeTime: bigint
+}
+
+// Allowed ranges of the parameters, enforced by the propose functions (base 10000)
+export type ParameterBounds = {
+  minMineProbability: bigint
+  maxMineProbability: bigint
+  minRewardMultiplier: bigint
+  maxRewardMultiplier: bigint
+}
+
+// Live game parameters, both base 10000 (pending changes are null when none was proposed)
+export type GameParameters = {
+  mineProbability: bigint
+  rewardMultiplier: bigint
+  pendingMineProbability: PendingParameterChange | null
+  pendingRewardMultiplier: PendingParameterChange | null
+}
+
 // ============ READ FUNCTIONS ============
 
 /**
  * Checks if a session key is registered for a user
  */
 export async function getSessionDelegate(
-  publicClient: PublicClient,
+  publicClient: ContractReader,
   sessionKey: Address
 ): Promise<Address> {
-  const result = await publicClient.readContract({
+  return await publicClient.readContract({
     address: CONTRACT_ADDRESS,
     abi: CONTRACT_ABI,
     functionName: 'sessionDelegates',
     args: [sessionKey]
   })
-  return result as Address
 }
 
 /**
  * Gets game information
+ * @param blockNumber - Reads the game as it was at a past block (the RPC must serve historical state)
  */
 export async function getGameInfo(
-  publicClient: PublicClient,
-  gameId: bigint
+  publicClient: ContractReader,
+  gameId: bigint,
+  blockNumber?: bigint
 ): Promise<GameInfo> {
-  const result = await publicClient.readContract({
+  const result: GameInfoArray = await publicClient.readContract({
     address: CONTRACT_ADDRESS,
     abi: CONTRACT_ABI,
     functionName: 'games',
-    args: [gameId]
-  }) as GameInfoArray
+    args: [gameId],
+    blockNumber
+  })
 
   return {
     player: result[0],
@@ -72,15 +136,167 @@ export async function getGameInfo(
 }
 
 /**
- * Gets Entropy fee
+ * Gets the public game state (seed is hidden while the game is active)
  */
-export async function getEntropyFee(publicClient: PublicClient): Promise<bigint> {
+export async function getGameState(
+  publicClient: ContractReader,
+  gameId: bigint
+): Promise<GameStateInfo> {
+  const result: GameStateArray = await publicClient.readContract({
+    address: CONTRACT_ADDRESS,
+    abi: CONTRACT_ABI,
+    functionName: 'getGameState',
+    args: [gameId]
+  })
+
+  return {
+    player: result[0],
+    currentPot: result[1],
+    seed: result[2],
+    isActive: result[3],
+    isLost: result[4],
+    revealedCells: result[5],
+    nonceRevealed: result[6]
+  }
+}
+
+/**
+ * Gets revealed safe cells of a game as a flat [x0, y0, x1, y1, ...] array
+ * Returns empty if the game doesn't exist, is lost or the seed isn't ready
+ */
+export async function getRevealedSafeCells(
+  publicClient: ContractReader,
+  gameId: bigint
+): Promise<Array<{ x: number; y: number }>> {
   const result = await publicClient.readContract({
+    address: CONTRACT_ADDRESS,
+    abi: CONTRACT_ABI,
+    functionName: 'getRevealedSafeCells',
+    args: [gameId]
+  })
+
+  const cells: Array<{ x: number; y: number }> = []
+  for (let i = 0; i + 1 < result.length; i += 2) {
+    cells.push({ x: result[i], y: result[i + 1] })
+  }
+  return cells
+}
+
+/**
+ * Gets current mine probability (base 10000, ex: 2000 = 20%)
+ * @param blockNumber - Reads the value at a past block instead (the RPC must serve historical state)
+ */
+export async function getMineProbability(publicClient: ContractReader, blockNumber?: bigint): Promise<bigint> {
+  return await publicClient.readContract({
+    address: CONTRACT_ADDRESS,
+    abi: CONTRACT_ABI,
+    functionName: 'MINE_PROBABILITY',
+    blockNumber
+  })
+}
+
+/**
+ * Gets current reward multiplier applied on each safe cell (base 10000, ex: 12000 = 1.2x)
+ */
+export async function getRewardMultiplier(publicClient: ContractReader): Promise<bigint> {
+  return await publicClient.readContract({
+    address: CONTRACT_ADDRESS,
+    abi: CONTRACT_ABI,
+    functionName: 'REWARD_MULTIPLIER'
+  })
+}
+
+/**
+ * Gets the pending MINE_PROBABILITY change (null if none)
+ */
+export async function getPendingMineProbability(publicClient: ContractReader): Promise<PendingParameterChange | null> {
+  const [newValue, changeTime] = await publicClient.readContract({
+    address: CONTRACT_ADDRESS,
+    abi: CONTRACT_ABI,
+    functionName: 'pendingMineProbability'
+  })
+  // The contract resets changeTime to zero once the change is executed or cancelled
+  return changeTime === 0n ? null : { newValue, changeTime }
+}
+
+/**
+ * Gets the pending REWARD_MULTIPLIER change (null if none)
+ */
+export async function getPendingRewardMultiplier(publicClient: ContractReader): Promise<PendingParameterChange | null> {
+  const [newValue, changeTime] = await publicClient.readContract({
+    address: CONTRACT_ADDRESS,
+    abi: CONTRACT_ABI,
+    functionName: 'pendingRewardMultiplier'
+  })
+  return changeTime === 0n ? null : { newValue, changeTime }
+}
+
+/**
+ * Gets the live game parameters along with their pending changes
+ */
+export async function getGameParameters(publicClient: ContractReader): Promise<GameParameters> {
+  const [mineProbability, rewardMultiplier, pendingMineProbability, pendingRewardMultiplier] = await Promise.all([
+    getMineProbability(publicClient),
+    getRewardMultiplier(publicClient),
+    getPendingMineProbability(publicClient),
+    getPendingRewardMultiplier(publicClient)
+  ])
+  return { mineProbability, rewardMultiplier, pendingMineProbability, pendingRewardMultiplier }
+}
+
+/**
+ * Gets the contract owner (the only account allowed to call the owner functions)
+ */
+export async function getOwner(publicClient: ContractReader): Promise<Address> {
+  return await publicClient.readContract({
+    address: CONTRACT_ADDRESS,
+    abi: CONTRACT_ABI,
+    functionName: 'owner'
+  })
+}
+
+/**
+ * Gets the allowed ranges of MINE_PROBABILITY and REWARD_MULTIPLIER
+ */
+export async function getParameterBounds(publicClient: ContractReader): Promise<ParameterBounds> {
+  const read = (functionName: 'MIN_MINE_PROBABILITY' | 'MAX_MINE_PROBABILITY' | 'MIN_REWARD_MULTIPLIER' | 'MAX_REWARD_MULTIPLIER') =>
+    publicClient.readContract({ address: CONTRACT_ADDRESS, abi: CONTRACT_ABI, functionName })
+  const [minMineProbability, maxMineProbability, minRewardMultiplier, maxRewardMultiplier] = await Promise.all([
+    read('MIN_MINE_PROBABILITY'),
+    read('MAX_MINE_PROBABILITY'),
+    read('MIN_REWARD_MULTIPLIER'),
+    read('MAX_REWARD_MULTIPLIER')
+  ])
+  return { minMineProbability, maxMineProbability, minRewardMultiplier, maxRewardMultiplier }
+}
+
+/**
+ * Gets the timelock between proposing and executing a parameter change (seconds)
+ */
+export async function getParamChangeDelay(publicClient: ContractReader): Promise<bigint> {
+  return await publicClient.readContract({
+    address: CONTRACT_ADDRESS,
+    abi: CONTRACT_ABI,
+    functionName: 'PARAM_CHANGE_DELAY'
+  })
+}
+
+/**
+ * Gets the house balance (contract balance, pots of active games included)
+ */
+export async function getHouseBalance(publicClient: Pick<PublicClient, 'getBalance'>): Promise<bigint> {
+  return await publicClient.getBalance({ address: CONTRACT_ADDRESS })
+}
+
+/**
+ * Gets Entropy fee
+ */
+export async function getEntropyFee(publicClient: ContractReader): Promise<bigint> {
+  return await publicClient.readContract({
     address: ENTROPY_ADDRESS,
     abi: ENTROPY_ABI,
     functionName: 'getFeeV2'
   })
-  return result as bigint
 }
 
 // ============ WRITE FUNCTIONS (Main Wallet) ============
@@ -89,8 +305,7 @@ export async function getEntropyFee(publicClient: PublicClient): Promise<bigint>
  * Registers a session key
  */
 export async function registerSessionKey(
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  writeContractAsync: (params: any) => Promise<Hex>,
+  writeContractAsync: WriteContractAsync,
   sessionKey: Address
 ): Promise<Hex> {
   return await writeContractAsync({
@@ -105,8 +320,7 @@ export async function registerSessionKey(
  * Revokes a session key
  */
 export async function revokeSessionKey(
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  writeContractAsync: (params: any) => Promise<Hex>,
+  writeContractAsync: WriteContractAsync,
   sessionKey: Address
 ): Promise<Hex> {
   return await writeContractAsync({
@@ -121,8 +335,7 @@ export async function revokeSessionKey(
  * Starts a new game
  */
 export async function startGame(
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  writeContractAsync: (params: any) => Promise<Hex>,
+  writeContractAsync: WriteContractAsync,
   nonceCommit: Hex,
   value: bigint
 ): Promise<Hex> {
@@ -135,8 +348,100 @@ export async function startGame(
   })
 }
 
+// ============ WRITE FUNCTIONS (Owner) ============
+
+/**
+ * Withdraws the whole contract balance to the owner
+ */
+export async function withdrawHouseFunds(writeContractAsync: WriteContractAsync): Promise<Hex> {
+  return await writeContractAsync({
+    address: CONTRACT_ADDRESS,
+    abi: CONTRACT_ABI,
+    functionName: 'withdrawHouseFunds'
+  })
+}
+
+/**
+ * Proposes a new MINE_PROBABILITY (base 10000), executable after PARAM_CHANGE_DELAY
+ */
+export async function proposeMineProbabilityChange(
+  writeContractAsync: WriteContractAsync,
+  newProbability: bigint
+): Promise<Hex> {
+  return await writeContractAsync({
+    address: CONTRACT_ADDRESS,
+    abi: CONTRACT_ABI,
+    functionName: 'proposeMineProbabilityChange',
+    args: [newProbability]
+  })
+}
+
+/**
+ * Proposes a new REWARD_MULTIPLIER (base 10000), executable after PARAM_CHANGE_DELAY
+ */
+export async function proposeRewardMultiplierChange(
+  writeContractAsync: WriteContractAsync,
+  newMultiplier: bigint
+): Promise<Hex> {
+  return await writeContractAsync({
+    address: CONTRACT_ADDRESS,
+    abi: CONTRACT_ABI,
+    functionName: 'proposeRewardMultiplierChange',
+    args: [newMultiplier]
+  })
+}
+
+/**
+ * Applies the pending MINE_PROBABILITY change (reverts while the timelock runs)
+ */
+export async function executeMineProbabilityChange(writeContractAsync: WriteContractAsync): Promise<Hex> {
+  return await writeContractAsync({
+    address: CONTRACT_ADDRESS,
+    abi: CONTRACT_ABI,
+    functionName: 'executeMineProbabilityChange'
+  })
+}
+
+/**
+ * Applies the pending REWARD_MULTIPLIER change (reverts while the timelock runs)
+ */
+export async function executeRewardMultiplierChange(writeContractAsync: WriteContractAsync): Promise<Hex> {
+  return await writeContractAsync({
+    address: CONTRACT_ADDRESS,
+    abi: CONTRACT_ABI,
+    functionName: 'executeRewardMultiplierChange'
+  })
+}
+
+/**
+ * Cancels a pending change (no event is emitted)
+ * @param isProbabilityChange - true for MINE_PROBABILITY, false for REWARD_MULTIPLIER
+ */
+export async function cancelPendingChange(
+  writeContractAsync: WriteContractAsync,
+  isProbabilityChange: boolean
+): Promise<Hex> {
+  return await writeContractAsync({
+    address: CONTRACT_ADDRESS,
+    abi: CONTRACT_ABI,
+    functionName: 'cancelPendingChange',
+    args: [isProbabilityChange]
+  })
+}
+
 // ============ WRITE FUNCTIONS (Burner Wallet) ============
 
+// Default gas limit of revealCell (the first move also reveals the nonce), see utils/fees.ts
+export const REVEAL_GAS_LIMIT = 200000n
+
+// Per-transaction overrides of burner writes
+export type TxOverrides = {
+  // Gas limit (see gasLimitFor)
+  gas?: bigint
+  // Transaction nonce assigned by the burner queue (see utils/txQueue.ts); undefined reads it from the node
+  nonce?: number
+}
+
 /**
  * Reveals a cell in the game
  * @param walletClient - Wallet client (burner wallet)
@@ -144,21 +449,23 @@ export async function startGame(
  * @param x - Cell X coordinate
  * @param y - Cell Y coordinate
  * @param nonce - Nonce to reveal (use zeroBytes32 if not the first move)
+ * @param overrides - Gas limit (defaults to REVEAL_GAS_LIMIT) and transaction nonce
  */
 export async function revealCell(
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  walletClient: any,
+  walletClient: BurnerWalletClient,
   gameId: bigint,
   x: number,
   y: number,
-  nonce: Hex
+  nonce: Hex,
+  { gas = REVEAL_GAS_LIMIT, nonce: txNonce }: TxOverrides = {}
 ): Promise<Hex> {
   return await walletClient.writeContract({
     address: CONTRACT_ADDRESS,
     abi: CONTRACT_ABI,
     functionName: 'revealCell',
     args: [gameId, x, y, nonce],
-    gas: 200000n
+    gas,
+    nonce: txNonce
   })
 }
 
@@ -169,35 +476,39 @@ export const ZERO_BYTES32 = "0x0000000000000000000000000000000000000000000000000
 
 /**
  * Cashes out a game
+ * @param overrides - Gas limit (undefined lets the node estimate it) and transaction nonce
  */
 export async function cashOut(
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  walletClient: any,
-  gameId: bigint
+  walletClient: BurnerWalletClient,
+  gameId: bigint,
+  { gas, nonce }: TxOverrides = {}
 ): Promise<Hex> {
   return await walletClient.writeContract({
     address: CONTRACT_ADDRESS,
     abi: CONTRACT_ABI,
     functionName: 'cashOut',
-    args: [gameId]
+    args: [gameId],
+    gas,
+    nonce
   })
 }
 
 // ============ EVENT DECODING ============
 
 /**
- * Decodes log event
+ * Decodes log event, returning null if the log is not the requested event
  */
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-export function decodeContractEvent(log: { data: Hex; topics: Hex[] }, eventName: string): any {
+export function decodeContractEvent<eventName extends MonadMinesEventName>(
+  log: { data: Hex; topics: Hex[] },
+  eventName: eventName
+): ContractEvent<eventName> | null {
   try {
     const parsed = decodeEventLog({
       abi: CONTRACT_ABI,
       data: log.data,
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      topics: log.topics as any
+      topics: log.topics as [Hex, ...Hex[]]
     })
-    return parsed.eventName === eventName ? parsed : null
+    return parsed.eventName === eventName ? parsed as ContractEvent<eventName> : null
   } catch {
     return null
   }
@@ -206,11 +517,10 @@ export function decodeContractEvent(log: { data: Hex; topics: Hex[] }, eventName
 /**
  * Finds a specific event in logs and returns the raw log along with parsed
  */
-export function findEventInLogs(
+export function findEventInLogs<eventName extends MonadMinesEventName>(
   logs: Array<{ data: Hex; topics: Hex[] }>,
-  eventName: string
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-): { data: Hex; topics: Hex[]; parsed: any } | null {
+  eventName: eventName
+): { data: Hex; topics: Hex[]; parsed: ContractEvent<eventName> } | null {
   for (const log of logs) {
     const parsed = decodeContractEvent(log, eventName)
     if (parsed) {
@@ -220,56 +530,112 @@ export function findEventInLogs(
   return null
 }
 
+// ============ EVENT LOGS ============
+
 /**
- * Event types
+ * Maximum block range per eth_getLogs request (RPCs reject larger ranges)
  */
-export type GameRequestedEvent = {
-  eventName: 'GameRequested'
-  args: {
-    gameId: bigint
-    player: Address
-    nonceCommit: Hex
-  }
-}
+export const LOG_BLOCK_RANGE = 1000n
 
-export type GameStartedEvent = {
-  eventName: 'GameStarted'
-  args: {
-    gameId: bigint
-  }
-}
+/**
+ * Chunk requests of a log scan in flight at once
+ */
+export const LOG_CONCURRENCY = 8
 
-export type NonceRevealedEvent = {
-  eventName: 'NonceRevealed'
-  args: {
-    gameId: bigint
-    playerNonce: Hex
+/**
+ * Fetches raw logs of a contract event, splitting the block range in chunks
+ * @param publicClient - Client used for reads
+ * @param eventName - Event name in the contract ABI
+ * @param args - Indexed arguments used as topic filters (an array matches any of its values)
+ * @param fromBlock - First block (inclusive)
+ * @param toBlock - Last block (inclusive)
+ */
+export async function getContractLogs(
+  publicClient: Pick<PublicClient, 'getLogs'>,
+  eventName: MonadMinesEventName,
+  args: Record<string, unknown> | undefined,
+  fromBlock: bigint,
+  toBlock: bigint
+): Promise<Log[]> {
+  const event = CONTRACT_ABI.find(item => item.type === 'event' && item.name === eventName)
+  if (!event || event.type !== 'event') {
+    throw new Error(`Event ${eventName} not found in ABI`)
   }
-}
 
-export type CellRevealedEvent = {
-  eventName: 'CellRevealed'
-  args: {
-    gameId: bigint
-    x: number
-    y: number
-    isMine: boolean
-    newPot: bigint
+  const ranges: Array<[bigint, bigint]> = []
+  for (let start = fromBlock; start <= toBlock; start += LOG_BLOCK_RANGE) {
+    const end = start + LOG_BLOCK_RANGE - 1n < toBlock ? start + LOG_BLOCK_RANGE - 1n : toBlock
+    ranges.push([start, end])
   }
-}
 
-export type SessionKeyRegisteredEvent = {
-  eventName: 'SessionKeyRegistered'
-  args: {
-    user: Address
-    sessionKey: Address
+  // Up to LOG_CONCURRENCY workers take the next chunk; results keep block order
+  const chunks: Log[][] = new Array(ranges.length)
+  let next = 0
+  const worker = async () => {
+    while (next < ranges.length) {
+      const index = next++
+      const [start, end] = ranges[index]
+      const chunk = await publicClient.getLogs({
+        address: CONTRACT_ADDRESS,
+        event,
+        args,
+        fromBlock: start,
+        toBlock: end
+      })
+      chunks[index] = chunk as Log[]
+    }
   }
+  await Promise.all(Array.from({ length: Math.min(LOG_CONCURRENCY, ranges.length) }, worker))
+  return chunks.flat()
 }
 
-export type SessionKeyRevokedEvent = {
-  eventName: 'SessionKeyRevoked'
-  args: {
-    user: Address
-    sessionKey: Address
+/**
+ * First block of [fromBlock, toBlock] where a condition holds, found by binary search (the
+ * condition must keep holding once it does); null if it doesn't hold at toBlock
+ * @param holdsAt - Checks the condition at a block (usually a read at that block)
+ */
+export async function findFirstBlock(
+  fromBlock: bigint,
+  toBlock: bigint,
+  holdsAt: (blockNumber: bigint) => Promise<boolean>
+): Promise<bigint | null> {
+  if (!(await holdsAt(toBlock))) return null
+  let low = fromBlock
+  let high = toBlock
+  while (low < high) {
+    const middle = (low + high) / 2n
+    if (await holdsAt(middle)) high = middle
+    else low = middle + 1n
   }
+  return low
 }
+
+/**
+ * Event types (derived from the ABI, so args always match the contract)
+ */
+export type ContractEvent<eventName extends ContractEventName<MonadMinesAbi> = ContractEventName<MonadMinesAbi>> =
+  Extract<DecodeEventLogReturnType<MonadMinesAbi>, { eventName: eventName }>
+
+export type GameRequestedEvent = ContractEvent<'GameRequested'>
+export type GameStartedEvent = ContractEvent<'GameStarted'>
+export type NonceRevealedEvent = ContractEvent<'NonceRevealed'>
+export type CellRevealedEvent = ContractEvent<'CellRevealed'>
+export type GameOverEvent = ContractEvent<'GameOver'>
+export type SessionKeyRegisteredEvent = ContractEvent<'SessionKeyRegistered'>
+export type SessionKeyRevokedEvent = ContractEvent<'SessionKeyRevoked'>
+export type ParameterChangeProposedEvent = ContractEvent<'ParameterChangeProposed'>
+export type ParameterChangedEvent = ContractEvent<'ParameterChanged'>
+
+// Every MonadMines event (discriminated by eventName)
+export type MonadMinesEvent =
+  | GameRequestedEvent
+  | GameStartedEvent
+  | NonceRevealedEvent
+  | CellRevealedEvent
+  | GameOverEvent
+  | SessionKeyRegisteredEvent
+  | SessionKeyRevokedEvent
+  | ParameterChangeProposedEvent
+  | ParameterChangedEvent
+
+export type MonadMinesEventName = MonadMinesEvent['eventName']
@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest'
+import { readFileSync } from 'node:fs'
+import path from 'node:path'
+import {
+  type Hex,
+  UserRejectedRequestError,
+  createPublicClient,
+  createWalletClient,
+  encodeErrorResult,
+  keccak256,
+  parseEther,
+  publicActions,
+  toHex
+} from 'viem'
+import { privateKeyToAccount } from 'viem/accounts'
+import { monadTestnet } from 'viem/chains'
+import { createMonadMinesSimulator, SIMULATOR_ACCOUNT } from './simulator'
+import {
+  cashOut,
+  findEventInLogs,
+  getEntropyFee,
+  registerSessionKey,
+  revealCell,
+  startGame,
+  withdrawHouseFunds,
+  type WriteContractAsync
+} from './contract'
+import {
+  ERROR_CATALOG,
+  SOLIDITY_ERROR_ABI,
+  classifyError,
+  classifyRevert,
+  formatError,
+  localeOf,
+  replayRevertReason,
+  revertCode
+} from './errors'
+
+// Second Anvil dev key, used as the burner wallet
+const BURNER_KEY: Hex = '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d'
+const NONCE = keccak256(toHex('errors nonce'))
+
+describe('error catalog', () => {
+  it('maps every require message of MonadMines.sol', () => {
+    const source = readFileSync(path.join(__dirname, '../contracts/MonadMines.sol'), 'utf8')
+    const reasons = [...source.matchAll(/require\([^;]*?"([^"]+)"\s*\)/g)].map(match => match[1])
+    expect(reasons.length).toBeGreaterThan(20)
+    expect(reasons.filter(reason => revertCode(reason) === 'REVERTED')).toEqual([])
+  })
+
+  it('classifies a revert reason with its catalog entry', () => {
+    expect(classifyRevert('Game finished')).toMatchObject({ code: 'GAME_FINISHED', ...ERROR_CATALOG.en.GAME_FINISHED })
+    expect(classifyRevert(null)).toMatchObject({ code: 'REVERTED', reason: null })
+  })
+
+  it('has a message for every code in every locale', () => {
+    expect(Object.keys(ERROR_CATALOG.pt).sort()).toEqual(Object.keys(ERROR_CATALOG.en).sort())
+    expect(classifyRevert('Game finished', 'pt').message).toBe(ERROR_CATALOG.pt.GAME_FINISHED.message)
+    expect(classifyError(new UserRejectedRequestError(new Error('denied')), 'pt').message)
+      .toBe(ERROR_CATALOG.pt.USER_REJECTED.message)
+  })
+
+  it('picks the locale of the browser language', () => {
+    expect(localeOf('pt-BR')).toBe('pt')
+    expect(localeOf('en-US')).toBe('en')
+    expect(localeOf('fr')).toBe('en')
+  })
+})
+
+describe('classifyError', () => {
+  it('classifies wallet errors', () => {
+    expect(classifyError(new UserRejectedRequestError(new Error('denied'))).code).toBe('USER_REJECTED')
+    // EIP-1193 errors of injected wallets
+    expect(classifyError({ code: 4001, message: 'User denied transaction signature' }).code).toBe('USER_REJECTED')
+    expect(classifyError(new Error('insufficient funds for gas * price + value')).code).toBe('INSUFFICIENT_FUNDS')
+  })
+
+  it('decodes raw revert data and falls back to the message', () => {
+    const data = encodeErrorResult({ abi: SOLIDITY_ERROR_ABI, errorName: 'Error', args: ['Cell already revealed'] })
+    expect(classifyError({ message: 'RPC error', cause: { data } }).code).toBe('CELL_ALREADY_REVEALED')
+    expect(classifyError(new Error('execution reverted: Waiting for Pyth seed')).reason).toBe('Waiting for Pyth seed')
+
+    const unknown = classifyError(new Error('socket hang up'))
+    expect(unknown.code).toBe('UNKNOWN')
+    expect(formatError(unknown)).toContain('socket hang up')
+  })
+})
+
+describe('contract reverts (simulator)', () => {
+  it('classifies failed estimates, custom errors and mined reverts', async () => {
+    const sim = createMonadMinesSimulator({ entropyDelayMs: null, randomSeed: keccak256(toHex('errors')) })
+    const publicClient = createPublicClient({ chain: monadTestnet, transport: sim.transport, pollingInterval: 10 })
+    const mainClient = createWalletClient({ chain: monadTestnet, account: SIMULATOR_ACCOUNT, transport: sim.transport })
+    const burnerClient = createWalletClient({
+      chain: monadTestnet,
+      account: privateKeyToAccount(BURNER_KEY),
+      transport: sim.transport,
+      pollingInterval: 10
+    }).extend(publicActions)
+    const writeContractAsync = ((args: Parameters<typeof mainClient.writeContract>[0]) =>
+      mainClient.writeContract(args)) as unknown as WriteContractAsync
+
+    await mainClient.sendTransaction({ to: burnerClient.account.address, value: parseEther('1') })
+    await registerSessionKey(writeContractAsync, burnerClient.account.address)
+    const fee = await getEntropyFee(publicClient)
+    const started = await publicClient.waitForTransactionReceipt({
+      hash: await startGame(writeContractAsync, keccak256(NONCE), fee + parseEther('0.1'))
+    })
+    const gameId = findEventInLogs(started.logs, 'GameRequested')!.parsed.args.gameId
+
+    // Gas estimate fails: the require message comes back in the error
+    const early = await cashOut(burnerClient, gameId).catch(e => e)
+    expect(classifyError(early)).toMatchObject({ code: 'NONCE_NOT_REVEALED', reason: 'Nonce must be revealed first' })
+
+    // OpenZeppelin custom error
+    const notOwner = await withdrawHouseFunds(((args: Parameters<typeof burnerClient.writeContract>[0]) =>
+      burnerClient.writeContract(args)) as unknown as WriteContractAsync).catch(e => e)
+    expect(classifyError(notOwner).code).toBe('NOT_OWNER')
+
+    // Fixed gas limit: the reveal is mined and reverts, its reason comes from a replay
+    const receipt = await burnerClient.waitForTransactionReceipt({
+      hash: await revealCell(burnerClient, gameId, 0, 0, NONCE)
+    })
+    expect(receipt.status).toBe('reverted')
+    const reason = await replayRevertReason(burnerClient, receipt.transactionHash)
+    expect(classifyRevert(reason)).toMatchObject({ code: 'WAITING_FOR_SEED', reason: 'Waiting for Pyth seed' })
+  })
+})
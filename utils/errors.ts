@@ -0,0 +1,351 @@
+// utils/errors.ts
+// Error catalog: contract reverts (require messages and custom errors of MonadMines.sol) and
+// wallet/RPC failures are classified into typed codes, each with a user-facing message and a
+// suggested action per locale
+
+import {
+  BaseError,
+  ChainMismatchError,
+  ContractFunctionRevertedError,
+  HttpRequestError,
+  InsufficientFundsError,
+  NonceTooHighError,
+  NonceTooLowError,
+  TimeoutError,
+  UserRejectedRequestError,
+  WaitForTransactionReceiptTimeoutError,
+  WebSocketRequestError,
+  decodeErrorResult,
+  parseAbi,
+  type Hex,
+  type PublicClient
+} from 'viem'
+import { CONTRACT_ABI } from './constants'
+
+// Error(string), the revert data of require messages
+export const SOLIDITY_ERROR_ABI = parseAbi(['error Error(string)'])
+
+export type ContractErrorCode =
+  // Session keys
+  | 'SESSION_KEY_ZERO'
+  | 'DELEGATE_TO_SELF'
+  | 'NOT_YOUR_SESSION_KEY'
+  // startGame
+  | 'FEE_NOT_COVERED'
+  | 'ZERO_BET'
+  | 'GAME_ID_EXISTS'
+  // Moves (isAuthorized, revealNonce, revealCell)
+  | 'GAME_NOT_FOUND'
+  | 'NOT_AUTHORIZED'
+  | 'GAME_FINISHED'
+  | 'NONCE_ALREADY_REVEALED'
+  | 'WAITING_FOR_SEED'
+  | 'INVALID_NONCE'
+  | 'ALREADY_LOST'
+  | 'INVALID_COORDINATES'
+  | 'NONCE_REQUIRED'
+  | 'SEED_NOT_READY'
+  | 'CELL_ALREADY_REVEALED'
+  // cashOut
+  | 'GAME_INACTIVE'
+  | 'NONCE_NOT_REVEALED'
+  | 'LOST_CANNOT_WITHDRAW'
+  | 'HOUSE_CANNOT_PAY'
+  // Owner
+  | 'NOT_OWNER'
+  | 'INVALID_OWNER'
+  | 'TRANSFER_FAILED'
+  | 'PROBABILITY_OUT_OF_RANGE'
+  | 'MULTIPLIER_OUT_OF_RANGE'
+  | 'NO_PENDING_CHANGE'
+  | 'TIMELOCK_NOT_EXPIRED'
+  | 'REENTRANT_CALL'
+  // Revert without a known reason
+  | 'REVERTED'
+
+export type WalletErrorCode =
+  | 'USER_REJECTED'
+  | 'INSUFFICIENT_FUNDS'
+  | 'NONCE_CONFLICT'
+  | 'WRONG_NETWORK'
+  | 'TIMEOUT'
+  | 'RPC_UNAVAILABLE'
+
+export type ErrorCode = ContractErrorCode | WalletErrorCode | 'UNKNOWN'
+
+export type Locale = 'en' | 'pt'
+
+export const DEFAULT_LOCALE: Locale = 'en'
+
+export type ErrorEntry = {
+  message: string
+  // What the player can do about it (null if nothing)
+  action: string | null
+}
+
+export type ClassifiedError = ErrorEntry & {
+  code: ErrorCode
+  // Revert reason or custom error name as emitted by the contract (null for wallet errors)
+  reason: string | null
+  // Original error message, for logs
+  details: string
+}
+
+// require messages of MonadMines.sol
+const REVERT_REASONS: Record<string, ContractErrorCode> = {
+  "Session key cannot be zero": 'SESSION_KEY_ZERO',
+  "Cannot delegate to self": 'DELEGATE_TO_SELF',
+  "Not your session key": 'NOT_YOUR_SESSION_KEY',
+  "Sent value must cover fee + bet": 'FEE_NOT_COVERED',
+  "Bet must be greater than zero": 'ZERO_BET',
+  "Game ID already exists": 'GAME_ID_EXISTS',
+  "Game does not exist": 'GAME_NOT_FOUND',
+  "Not authorized: Only Player or SessionKey": 'NOT_AUTHORIZED',
+  "Game finished": 'GAME_FINISHED',
+  "Nonce already revealed": 'NONCE_ALREADY_REVEALED',
+  "Waiting for Pyth seed": 'WAITING_FOR_SEED',
+  "Invalid nonce: commit mismatch": 'INVALID_NONCE',
+  "You already lost": 'ALREADY_LOST',
+  "Invalid coordinates": 'INVALID_COORDINATES',
+  "Nonce required for first reveal": 'NONCE_REQUIRED',
+  "Seed not ready": 'SEED_NOT_READY',
+  "Cell already revealed": 'CELL_ALREADY_REVEALED',
+  "Game inactive": 'GAME_INACTIVE',
+  "Nonce must be revealed first": 'NONCE_NOT_REVEALED',
+  "You lost, cannot withdraw": 'LOST_CANNOT_WITHDRAW',
+  "Failed to send funds": 'HOUSE_CANNOT_PAY',
+  "Transfer failed": 'TRANSFER_FAILED',
+  "Probability out of allowed range": 'PROBABILITY_OUT_OF_RANGE',
+  "Multiplier out of allowed range": 'MULTIPLIER_OUT_OF_RANGE',
+  "No pending change": 'NO_PENDING_CHANGE',
+  "Timelock not expired": 'TIMELOCK_NOT_EXPIRED'
+}
+
+// Custom errors inherited from OpenZeppelin (Ownable, ReentrancyGuard)
+const CUSTOM_ERRORS: Record<string, ContractErrorCode> = {
+  OwnableUnauthorizedAccount: 'NOT_OWNER',
+  OwnableInvalidOwner: 'INVALID_OWNER',
+  ReentrancyGuardReentrantCall: 'REENTRANT_CALL'
+}
+
+export const ERROR_CATALOG: Record<Locale, Record<ErrorCode, ErrorEntry>> = {
+  en: {
+    SESSION_KEY_ZERO: { message: "The session key address is empty.", action: "Unlock or create the game wallet, then authorize it again." },
+    DELEGATE_TO_SELF: { message: "The main wallet cannot be its own session key.", action: "Authorize the game wallet instead." },
+    NOT_YOUR_SESSION_KEY: { message: "This session key was not registered by your wallet.", action: "Revoke it from the wallet that registered it." },
+    FEE_NOT_COVERED: { message: "The amount sent does not cover the Entropy fee plus a bet.", action: "Increase the bet and try again." },
+    ZERO_BET: { message: "The bet must be greater than zero.", action: "Increase the bet and try again." },
+    GAME_ID_EXISTS: { message: "Entropy returned a game ID that is already in use.", action: "Start the game again." },
+    GAME_NOT_FOUND: { message: "This game does not exist.", action: "Start a new game." },
+    NOT_AUTHORIZED: { message: "The game wallet is not authorized to play for this account.", action: "Authorize the session again." },
+    GAME_FINISHED: { message: "This game is already finished.", action: "Start a new game." },
+    NONCE_ALREADY_REVEALED: { message: "The nonce of this game was already revealed.", action: "Keep playing: the next moves don't need it." },
+    WAITING_FOR_SEED: { message: "The Pyth seed has not arrived yet.", action: "Wait a few seconds and try again." },
+    INVALID_NONCE: { message: "The nonce does not match the commit sent when the game started.", action: "Reload the page to recover the nonce stored in this browser." },
+    ALREADY_LOST: { message: "You already hit a mine in this game.", action: "Start a new game." },
+    INVALID_COORDINATES: { message: "That cell is outside the board.", action: null },
+    NONCE_REQUIRED: { message: "The first move must reveal the game nonce.", action: "Reload the page to recover the nonce stored in this browser." },
+    SEED_NOT_READY: { message: "The game seed is not ready yet.", action: "Wait for the nonce reveal to confirm and try again." },
+    CELL_ALREADY_REVEALED: { message: "That cell is already revealed.", action: "Pick another cell." },
+    GAME_INACTIVE: { message: "This game is no longer active.", action: "Start a new game." },
+    NONCE_NOT_REVEALED: { message: "Reveal at least one cell before cashing out.", action: "Reveal a cell first." },
+    LOST_CANNOT_WITHDRAW: { message: "You hit a mine, so this game has nothing to cash out.", action: "Start a new game." },
+    HOUSE_CANNOT_PAY: { message: "The house balance cannot cover your pot right now.", action: "Keep the game open and cash out once the house is funded again." },
+    NOT_OWNER: { message: "Only the contract owner can do this.", action: "Connect the owner wallet." },
+    INVALID_OWNER: { message: "The new owner address is not valid.", action: null },
+    TRANSFER_FAILED: { message: "The house funds could not be sent to the owner.", action: null },
+    PROBABILITY_OUT_OF_RANGE: { message: "The mine probability is outside the allowed range.", action: "Pick a value within the contract limits." },
+    MULTIPLIER_OUT_OF_RANGE: { message: "The reward multiplier is outside the allowed range.", action: "Pick a value within the contract limits." },
+    NO_PENDING_CHANGE: { message: "There is no pending change to execute.", action: null },
+    TIMELOCK_NOT_EXPIRED: { message: "The timelock of this change has not expired yet.", action: "Wait for the countdown to end." },
+    REENTRANT_CALL: { message: "The contract rejected a reentrant call.", action: null },
+    REVERTED: { message: "The contract rejected the transaction.", action: "Check the game state and try again." },
+    USER_REJECTED: { message: "Transaction cancelled in the wallet.", action: null },
+    INSUFFICIENT_FUNDS: { message: "Not enough MON to pay for the transaction.", action: "Top up the wallet and try again." },
+    NONCE_CONFLICT: { message: "The transaction nonce is out of sync with the network.", action: "Try again in a few seconds." },
+    WRONG_NETWORK: { message: "The wallet is connected to another network.", action: "Switch the wallet to the network selected in the app." },
+    TIMEOUT: { message: "The transaction was not confirmed in time; it may still be pending.", action: "Check its status in the block explorer." },
+    RPC_UNAVAILABLE: { message: "The RPC node could not be reached.", action: "Check your connection and try again." },
+    UNKNOWN: { message: "Something went wrong.", action: "Try again." }
+  },
+  pt: {
+    SESSION_KEY_ZERO: { message: "O endereço da chave de sessão está vazio.", action: "Desbloqueie ou crie a carteira de jogo e autorize de novo." },
+    DELEGATE_TO_SELF: { message: "A carteira principal não pode ser a própria chave de sessão.", action: "Autorize a carteira de jogo." },
+    NOT_YOUR_SESSION_KEY: { message: "Esta chave de sessão não foi registrada pela sua carteira.", action: "Revogue pela carteira que a registrou." },
+    FEE_NOT_COVERED: { message: "O valor enviado não cobre a taxa do Entropy mais uma aposta.", action: "Aumente a aposta e tente de novo." },
+    ZERO_BET: { message: "A aposta deve ser maior que zero.", action: "Aumente a aposta e tente de novo." },
+    GAME_ID_EXISTS: { message: "O Entropy retornou um ID de jogo já usado.", action: "Inicie o jogo de novo." },
+    GAME_NOT_FOUND: { message: "Este jogo não existe.", action: "Inicie um novo jogo." },
+    NOT_AUTHORIZED: { message: "A carteira de jogo não está autorizada a jogar por esta conta.", action: "Autorize a sessão de novo." },
+    GAME_FINISHED: { message: "Este jogo já terminou.", action: "Inicie um novo jogo." },
+    NONCE_ALREADY_REVEALED: { message: "O nonce deste jogo já foi revelado.", action: "Continue jogando: as próximas jogadas não precisam dele." },
+    WAITING_FOR_SEED: { message: "A seed do Pyth ainda não chegou.", action: "Aguarde alguns segundos e tente de novo." },
+    INVALID_NONCE: { message: "O nonce não corresponde ao commit enviado ao iniciar o jogo.", action: "Recarregue a página para recuperar o nonce salvo neste navegador." },
+    ALREADY_LOST: { message: "Você já encontrou uma mina neste jogo.", action: "Inicie um novo jogo." },
+    INVALID_COORDINATES: { message: "Essa célula está fora do tabuleiro.", action: null },
+    NONCE_REQUIRED: { message: "A primeira jogada precisa revelar o nonce do jogo.", action: "Recarregue a página para recuperar o nonce salvo neste navegador." },
+    SEED_NOT_READY: { message: "A seed do jogo ainda não está pronta.", action: "Aguarde a confirmação do nonce e tente de novo." },
+    CELL_ALREADY_REVEALED: { message: "Essa célula já foi revelada.", action: "Escolha outra célula." },
+    GAME_INACTIVE: { message: "Este jogo não está mais ativo.", action: "Inicie um novo jogo." },
+    NONCE_NOT_REVEALED: { message: "Revele pelo menos uma célula antes de sacar.", action: "Revele uma célula primeiro." },
+    LOST_CANNOT_WITHDRAW: { message: "Você encontrou uma mina, não há nada para sacar neste jogo.", action: "Inicie um novo jogo." },
+    HOUSE_CANNOT_PAY: { message: "O saldo da casa não cobre o seu pote agora.", action: "Mantenha o jogo aberto e saque quando a casa for abastecida." },
+    NOT_OWNER: { message: "Apenas o dono do contrato pode fazer isso.", action: "Conecte a carteira do dono." },
+    INVALID_OWNER: { message: "O endereço do novo dono não é válido.", action: null },
+    TRANSFER_FAILED: { message: "Os fundos da casa não puderam ser enviados ao dono.", action: null },
+    PROBABILITY_OUT_OF_RANGE: { message: "A probabilidade de mina está fora do intervalo permitido.", action: "Escolha um valor dentro dos limites do contrato." },
+    MULTIPLIER_OUT_OF_RANGE: { message: "O multiplicador está fora do intervalo permitido.", action: "Escolha um valor dentro dos limites do contrato." },
+    NO_PENDING_CHANGE: { message: "Não há mudança pendente para executar.", action: null },
+    TIMELOCK_NOT_EXPIRED: { message: "O timelock desta mudança ainda não expirou.", action: "Aguarde o fim da contagem regressiva." },
+    REENTRANT_CALL: { message: "O contrato rejeitou uma chamada reentrante.", action: null },
+    REVERTED: { message: "O contrato rejeitou a transação.", action: "Confira o estado do jogo e tente de novo." },
+    USER_REJECTED: { message: "Transação cancelada na carteira.", action: null },
+    INSUFFICIENT_FUNDS: { message: "MON insuficiente para pagar a transação.", action: "Abasteça a carteira e tente de novo." },
+    NONCE_CONFLICT: { message: "O nonce da transação está fora de sincronia com a rede.", action: "Tente de novo em alguns segundos." },
+    WRONG_NETWORK: { message: "A carteira está conectada a outra rede.", action: "Troque a carteira para a rede selecionada no app." },
+    TIMEOUT: { message: "A transação não foi confirmada a tempo; ela ainda pode estar pendente.", action: "Confira o status no explorador de blocos." },
+    RPC_UNAVAILABLE: { message: "Não foi possível acessar o nó RPC.", action: "Verifique sua conexão e tente de novo." },
+    UNKNOWN: { message: "Algo deu errado.", action: "Tente de novo." }
+  }
+}
+
+/**
+ * Catalog locale of a language tag ("pt-BR" -> pt), the default one if it has no catalog
+ */
+export function localeOf(language: string): Locale {
+  const base = language.toLowerCase().split('-')[0]
+  return base in ERROR_CATALOG ? base as Locale : DEFAULT_LOCALE
+}
+
+/**
+ * Locale of the browser language (the default one outside the browser)
+ */
+export function browserLocale(): Locale {
+  return typeof navigator === 'undefined' ? DEFAULT_LOCALE : localeOf(navigator.language)
+}
+
+/**
+ * Maps a revert reason or custom error name to its code ('REVERTED' if unknown)
+ */
+export function revertCode(reason: string): ContractErrorCode {
+  return REVERT_REASONS[reason] ?? CUSTOM_ERRORS[reason] ?? 'REVERTED'
+}
+
+/**
+ * Decodes ABI encoded revert data: the Error(string) message or the custom error name
+ */
+export function decodeRevertData(data: Hex): string | null {
+  for (const abi of [SOLIDITY_ERROR_ABI, CONTRACT_ABI]) {
+    try {
+      const decoded = decodeErrorResult({ abi, data })
+      return decoded.errorName === 'Error' ? String(decoded.args?.[0]) : decoded.errorName
+    } catch {
+      // Not an error of this ABI
+    }
+  }
+  return null
+}
+
+// Follows the cause chain of any error (viem errors and plain RPC errors alike)
+function causes(error: unknown): unknown[] {
+  const chain: unknown[] = []
+  let current = error
+  while (current !== undefined && current !== null && !chain.includes(current)) {
+    chain.push(current)
+    current = (current as { cause?: unknown }).cause
+  }
+  return chain
+}
+
+/**
+ * Finds the revert reason of a failed call or transaction (null if it didn't revert)
+ */
+export function findRevertReason(error: unknown): string | null {
+  const chain = causes(error)
+  for (const cause of chain) {
+    if (cause instanceof ContractFunctionRevertedError) {
+      if (cause.reason) return cause.reason
+      if (cause.data) return cause.data.errorName
+    }
+  }
+  // Errors viem could not decode keep the raw revert data
+  for (const cause of chain) {
+    const data = (cause as { data?: unknown }).data
+    if (typeof data === 'string' && data.startsWith('0x') && data.length >= 10) {
+      const reason = decodeRevertData(data as Hex)
+      if (reason) return reason
+    }
+  }
+  // Last resort: nodes that only put the reason in the message
+  for (const cause of chain) {
+    const match = /execution reverted:? ([^\n"]+)/.exec((cause as { message?: string }).message ?? '')
+    if (match) return match[1].trim()
+  }
+  return null
+}
+
+function walletCode(error: unknown): WalletErrorCode | null {
+  for (const cause of causes(error)) {
+    if (cause instanceof UserRejectedRequestError || (cause as { code?: unknown }).code === 4001) return 'USER_REJECTED'
+    if (cause instanceof InsufficientFundsError) return 'INSUFFICIENT_FUNDS'
+    if (cause instanceof NonceTooLowError || cause instanceof NonceTooHighError) return 'NONCE_CONFLICT'
+    if (cause instanceof ChainMismatchError) return 'WRONG_NETWORK'
+    if (cause instanceof WaitForTransactionReceiptTimeoutError || cause instanceof TimeoutError) return 'TIMEOUT'
+    if (cause instanceof HttpRequestError || cause instanceof WebSocketRequestError) return 'RPC_UNAVAILABLE'
+  }
+  // Injected wallets don't always go through viem's error classes
+  const message = error instanceof Error ? error.message : String(error)
+  if (/user (rejected|denied)/i.test(message)) return 'USER_REJECTED'
+  if (/insufficient funds/i.test(message)) return 'INSUFFICIENT_FUNDS'
+  return null
+}
+
+/**
+ * Classifies an error thrown by a contract read/write, a wallet or the RPC
+ */
+export function classifyError(error: unknown, locale: Locale = DEFAULT_LOCALE): ClassifiedError {
+  const details = error instanceof BaseError
+    ? error.shortMessage
+    : error instanceof Error ? error.message : String(error)
+  const wallet = walletCode(error)
+  // Wallet codes win: a rejected or unfunded transaction never reached the contract
+  const reason = wallet ? null : findRevertReason(error)
+  const code: ErrorCode = wallet ?? (reason !== null ? revertCode(reason) : 'UNKNOWN')
+  return { code, ...ERROR_CATALOG[locale][code], reason, details }
+}
+
+/**
+ * Classifies a mined transaction that reverted (reason from replayRevertReason, null if unknown)
+ */
+export function classifyRevert(reason: string | null, locale: Locale = DEFAULT_LOCALE): ClassifiedError {
+  const code = reason !== null ? revertCode(reason) : 'REVERTED'
+  return { code, ...ERROR_CATALOG[locale][code], reason, details: reason ?? 'Transaction reverted' }
+}
+
+/**
+ * Replays a reverted transaction as a call to read its revert reason (null if the replay
+ * doesn't revert). The call runs on the latest state, which is what the player acts on next
+ */
+export async function replayRevertReason(
+  client: Pick<PublicClient, 'getTransaction' | 'call'>,
+  hash: Hex
+): Promise<string | null> {
+  const tx = await client.getTransaction({ hash })
+  try {
+    await client.call({ account: tx.from, to: tx.to, data: tx.input, value: tx.value })
+    return null
+  } catch (e) {
+    return findRevertReason(e)
+  }
+}
+
+/**
+ * One-line log text of a classified error ("message action"), with the raw error when
+ * the catalog has nothing specific
+ */
+export function formatError(error: ClassifiedError): string {
+  const text = error.action ? `${error.message} ${error.action}` : error.message
+  if (error.code === 'UNKNOWN') return `${text} (${error.details})`
+  if (error.code === 'REVERTED' && error.reason) return `${text} (${error.reason})`
+  return text
+}
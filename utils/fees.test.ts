@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { createPublicClient, parseEther, parseGwei } from 'viem'
+import { monadTestnet } from 'viem/chains'
+import { createMonadMinesSimulator } from './simulator'
+import { monadDevnet } from './networks'
+import { REVEAL_GAS_LIMIT } from './contract'
+import {
+  DEFAULT_GAS,
+  EMPTY_GAS_STATS,
+  TRANSFER_GAS,
+  burnerCosts,
+  estimateFees,
+  gasLimitFor,
+  maxSweep,
+  readGasStats,
+  recordGasUsed,
+  trackGasUsed
+} from './fees'
+
+const FEES = { maxFeePerGas: parseGwei('60'), maxPriorityFeePerGas: parseGwei('2') }
+
+describe('gas stats', () => {
+  it('keeps the defaults until enough receipts were recorded', () => {
+    let stats = recordGasUsed(EMPTY_GAS_STATS, 'revealCell', 90000n)
+    stats = recordGasUsed(stats, 'revealCell', 70000n)
+    expect(gasLimitFor('revealCell', stats)).toBe(REVEAL_GAS_LIMIT)
+    expect(gasLimitFor('cashOut', stats)).toBeUndefined()
+    expect(burnerCosts(stats, FEES)).toEqual({
+      reveal: REVEAL_GAS_LIMIT * FEES.maxFeePerGas,
+      cashOut: DEFAULT_GAS.cashOut * FEES.maxFeePerGas
+    })
+  })
+
+  it('averages the gas used and sizes the limit on the largest receipt', () => {
+    let stats = EMPTY_GAS_STATS
+    for (const gasUsed of [90000n, 70000n, 80000n]) stats = recordGasUsed(stats, 'revealCell', gasUsed)
+    expect(stats.revealCell).toEqual({ samples: 3, average: 80000n, max: 90000n })
+    expect(gasLimitFor('revealCell', stats)).toBe(117000n)
+    expect(stats.cashOut.samples).toBe(0)
+  })
+
+  it('persists the stats with bigints', () => {
+    const items = new Map<string, string>()
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => items.get(key) ?? null,
+      setItem: (key: string, value: string) => void items.set(key, value),
+      removeItem: (key: string) => void items.delete(key)
+    })
+    trackGasUsed(monadTestnet.id, 'cashOut', 55000n)
+    trackGasUsed(monadTestnet.id, 'cashOut', 45000n)
+    expect(readGasStats(monadTestnet.id).cashOut).toEqual({ samples: 2, average: 50000n, max: 55000n })
+    expect(readGasStats(monadTestnet.id).revealCell.samples).toBe(0)
+    // Each chain keeps its own stats
+    expect(readGasStats(monadDevnet.id)).toEqual(EMPTY_GAS_STATS)
+  })
+})
+
+describe('maxSweep', () => {
+  it('leaves exactly the worst-case gas cost', () => {
+    const balance = parseEther('1.234567890123456789')
+    const amount = maxSweep(balance, TRANSFER_GAS, FEES)
+    expect(amount + TRANSFER_GAS * FEES.maxFeePerGas).toBe(balance)
+    expect(maxSweep(TRANSFER_GAS * FEES.maxFeePerGas, TRANSFER_GAS, FEES)).toBe(0n)
+  })
+})
+
+describe('estimateFees (simulator)', () => {
+  let publicClient: ReturnType<typeof createPublicClient>
+
+  beforeEach(() => {
+    const sim = createMonadMinesSimulator({ entropyDelayMs: null })
+    publicClient = createPublicClient({ chain: monadTestnet, transport: sim.transport })
+  })
+
+  it('reads EIP-1559 fees with a margin over the base fee', async () => {
+    const gasPrice = await publicClient.getGasPrice()
+    const fees = await estimateFees(publicClient)
+    expect(fees.maxFeePerGas).toBeGreaterThan(gasPrice)
+    expect(fees.maxPriorityFeePerGas).toBe(0n)
+  })
+})
@@ -0,0 +1,141 @@
+// utils/fees.ts
+// Gas and fee budgeting for burner transactions: EIP-1559 fee estimates, running
+// averages of the gas each action uses and exact (bigint) max-sweep amounts
+// Note: Monad charges the full gas limit, so costs are budgeted on limits, not on gas used
+
+import { type PublicClient } from 'viem'
+import { REVEAL_GAS_LIMIT } from './contract'
+
+// Suffixed with the chain ID: gas usage differs between networks
+export const GAS_STATS_STORAGE = "monad_gas_stats"
+
+// Gas of a plain transfer to an EOA
+export const TRANSFER_GAS = 21000n
+
+export type GasAction = 'revealCell' | 'cashOut'
+
+// Gas budgeted until enough receipts were recorded
+export const DEFAULT_GAS: Record<GasAction, bigint> = {
+  revealCell: REVEAL_GAS_LIMIT,
+  cashOut: 100000n
+}
+
+// Receipts needed before the recorded usage replaces the defaults
+const MIN_SAMPLES = 3
+// The running average weighs roughly the last AVERAGE_WINDOW receipts
+const AVERAGE_WINDOW = 20n
+// Gas limit over the largest gas used seen so far (the first reveal and a mine hit cost more)
+const GAS_LIMIT_MARGIN_PERCENT = 130n
+
+export type GasUsage = {
+  samples: number
+  average: bigint
+  max: bigint
+}
+
+export type GasStats = Record<GasAction, GasUsage>
+
+export type FeeEstimate = {
+  maxFeePerGas: bigint
+  maxPriorityFeePerGas: bigint
+}
+
+// Worst-case cost in wei of each burner transaction at the current fees
+export type BurnerCosts = {
+  reveal: bigint
+  cashOut: bigint
+}
+
+const EMPTY_USAGE: GasUsage = { samples: 0, average: 0n, max: 0n }
+
+export const EMPTY_GAS_STATS: GasStats = { revealCell: EMPTY_USAGE, cashOut: EMPTY_USAGE }
+
+/**
+ * Reads EIP-1559 fees (viem adds a 20% base fee margin), falling back to
+ * the legacy gas price on nodes without a base fee
+ */
+export async function estimateFees(client: Pick<PublicClient, 'estimateFeesPerGas' | 'getGasPrice'>): Promise<FeeEstimate> {
+  try {
+    const { maxFeePerGas, maxPriorityFeePerGas } = await client.estimateFeesPerGas()
+    return { maxFeePerGas, maxPriorityFeePerGas }
+  } catch {
+    const gasPrice = await client.getGasPrice()
+    return { maxFeePerGas: gasPrice, maxPriorityFeePerGas: gasPrice }
+  }
+}
+
+/**
+ * Adds the gas used by a successful transaction to the running stats
+ */
+export function recordGasUsed(stats: GasStats, action: GasAction, gasUsed: bigint): GasStats {
+  const usage = stats[action]
+  const samples = usage.samples + 1
+  const weight = BigInt(samples) < AVERAGE_WINDOW ? BigInt(samples) : AVERAGE_WINDOW
+  return {
+    ...stats,
+    [action]: {
+      samples,
+      average: usage.average + (gasUsed - usage.average) / weight,
+      max: gasUsed > usage.max ? gasUsed : usage.max
+    }
+  }
+}
+
+/**
+ * Gas limit to send an action with. Before MIN_SAMPLES receipts, revealCell keeps
+ * its fixed limit and cashOut is left to the node's estimate (undefined)
+ */
+export function gasLimitFor(action: GasAction, stats: GasStats): bigint | undefined {
+  const usage = stats[action]
+  if (usage.samples < MIN_SAMPLES) return action === 'revealCell' ? DEFAULT_GAS.revealCell : undefined
+  return (usage.max * GAS_LIMIT_MARGIN_PERCENT) / 100n
+}
+
+/**
+ * Worst-case cost of a reveal and of a cashout
+ */
+export function burnerCosts(stats: GasStats, fees: FeeEstimate): BurnerCosts {
+  const gasOf = (action: GasAction) => gasLimitFor(action, stats) ?? DEFAULT_GAS[action]
+  return {
+    reveal: gasOf('revealCell') * fees.maxFeePerGas,
+    cashOut: gasOf('cashOut') * fees.maxFeePerGas
+  }
+}
+
+/**
+ * Largest value a transfer can send while paying its own gas at maxFeePerGas
+ */
+export function maxSweep(balance: bigint, gas: bigint, fees: FeeEstimate): bigint {
+  const cost = gas * fees.maxFeePerGas
+  return balance > cost ? balance - cost : 0n
+}
+
+const gasStatsKey = (chainId: number) => `${GAS_STATS_STORAGE}_${chainId}`
+
+/**
+ * Reads the gas usage recorded on a chain, or empty stats if missing or corrupted
+ */
+export function readGasStats(chainId: number): GasStats {
+  const raw = localStorage.getItem(gasStatsKey(chainId))
+  if (!raw) return EMPTY_GAS_STATS
+  try {
+    const parsed = JSON.parse(raw)
+    const usage = (value: { samples?: unknown; average?: unknown; max?: unknown } | undefined): GasUsage => {
+      if (!value || typeof value.samples !== 'number') return EMPTY_USAGE
+      return { samples: value.samples, average: BigInt(value.average as string), max: BigInt(value.max as string) }
+    }
+    return { revealCell: usage(parsed.revealCell), cashOut: usage(parsed.cashOut) }
+  } catch {
+    return EMPTY_GAS_STATS
+  }
+}
+
+/**
+ * Records the gas used by a successful burner transaction on a chain in localStorage
+ */
+export function trackGasUsed(chainId: number, action: GasAction, gasUsed: bigint): void {
+  const stats = recordGasUsed(readGasStats(chainId), action, gasUsed)
+  localStorage.setItem(gasStatsKey(chainId), JSON.stringify(stats, (_, value) =>
+    typeof value === 'bigint' ? value.toString() : value
+  ))
+}
@@ -0,0 +1,250 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import {
+  type Hex,
+  createPublicClient,
+  createWalletClient,
+  formatEther,
+  keccak256,
+  parseEther,
+  publicActions,
+  toHex
+} from 'viem'
+import { privateKeyToAccount } from 'viem/accounts'
+import { monadTestnet } from 'viem/chains'
+import { createMonadMinesSimulator, SIMULATOR_ACCOUNT, type MonadMinesSimulator } from './simulator'
+import {
+  getEntropyFee,
+  getGameInfo,
+  getSessionDelegate,
+  registerSessionKey,
+  startGame,
+  revealCell,
+  cashOut,
+  findEventInLogs,
+  ZERO_BYTES32,
+  type WriteContractAsync
+} from './contract'
+import { computeMineLayout, deriveGameSeed } from './verify'
+import { gameReducer, initialGameState, type GameState } from './gameMachine'
+import { cellIndex, countRevealedCells } from './board'
+
+// Second Anvil dev key, used as the burner wallet
+const BURNER_KEY: Hex = '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d'
+const NONCE = keccak256(toHex('flow nonce'))
+const BET = parseEther('0.1')
+
+function setup(sim: MonadMinesSimulator) {
+  const publicClient = createPublicClient({ chain: monadTestnet, transport: sim.transport, pollingInterval: 10 })
+  const mainClient = createWalletClient({ chain: monadTestnet, account: SIMULATOR_ACCOUNT, transport: sim.transport })
+  const burnerClient = createWalletClient({
+    chain: monadTestnet,
+    account: privateKeyToAccount(BURNER_KEY),
+    transport: sim.transport,
+    pollingInterval: 10
+  }).extend(publicActions)
+  const writeContractAsync = ((args: Parameters<typeof mainClient.writeContract>[0]) =>
+    mainClient.writeContract(args)) as unknown as WriteContractAsync
+  return { publicClient, mainClient, burnerClient, writeContractAsync }
+}
+
+describe('game flow (simulator)', () => {
+  let sim: MonadMinesSimulator
+  let clients: ReturnType<typeof setup>
+
+  beforeEach(async () => {
+    sim = createMonadMinesSimulator({ entropyDelayMs: null, randomSeed: keccak256(toHex('tests')), startTimestamp: 1_700_000_000n })
+    clients = setup(sim)
+    const { publicClient, mainClient, burnerClient, writeContractAsync } = clients
+
+    // Funds and authorizes the burner wallet
+    await mainClient.sendTransaction({ to: burnerClient.account.address, value: parseEther('1') })
+    const hash = await registerSessionKey(writeContractAsync, burnerClient.account.address)
+    await publicClient.waitForTransactionReceipt({ hash })
+  })
+
+  // Starts a game and returns its ID (the Entropy callback is still pending)
+  async function start(nonceCommit: Hex = keccak256(NONCE)) {
+    const { publicClient, writeContractAsync } = clients
+    const fee = await getEntropyFee(publicClient)
+    const hash = await startGame(writeContractAsync, nonceCommit, fee + BET)
+    const receipt = await publicClient.waitForTransactionReceipt({ hash })
+    const event = findEventInLogs(receipt.logs, 'GameRequested')
+    expect(event).not.toBeNull()
+    return event!.parsed.args.gameId
+  }
+
+  // Mine layout of a game, known in tests because the nonce is ours
+  async function layoutOf(gameId: bigint) {
+    const info = await getGameInfo(clients.publicClient, gameId)
+    return computeMineLayout(deriveGameSeed(info.pythSeed, NONCE, SIMULATOR_ACCOUNT), 2000n)
+  }
+
+  async function reveal(gameId: bigint, x: number, y: number, nonce: Hex) {
+    const hash = await revealCell(clients.burnerClient, gameId, x, y, nonce)
+    return clients.burnerClient.waitForTransactionReceipt({ hash })
+  }
+
+  it('registers the burner as session key of the main wallet', async () => {
+    expect(await getSessionDelegate(clients.publicClient, clients.burnerClient.account.address)).toBe(SIMULATOR_ACCOUNT)
+  })
+
+  it('runs start → seed → reveal → cashout', async () => {
+    let game: GameState = gameReducer(initialGameState, { type: 'TX_SENT' })
+    expect(game).toMatchObject({ status: 'waiting_pyth', id: null })
+    const gameId = await start()
+    game = gameReducer(game, { type: 'GAME_CREATED', gameId })
+    expect(game).toMatchObject({ status: 'waiting_pyth', id: gameId, isActive: true, pot: '0' })
+
+    // Seed is not available until the Entropy callback
+    expect((await getGameInfo(clients.publicClient, gameId)).pythSeed).toBe(ZERO_BYTES32)
+    sim.fulfillEntropy(gameId)
+    expect((await getGameInfo(clients.publicClient, gameId)).pythSeed).not.toBe(ZERO_BYTES32)
+    game = gameReducer(game, { type: 'SEED_READY', gameId })
+    expect(game).toMatchObject({ status: 'waiting_nonce', nonceRevealed: false, confirmedMask: 0n })
+
+    const layout = await layoutOf(gameId)
+    const safe = layout.flatMap((row, y) => row.map((mine, x) => ({ x, y, mine }))).filter(cell => !cell.mine).slice(0, 3)
+
+    let expectedPot = BET
+    let expectedMask = 0n
+    for (const [i, { x, y }] of safe.entries()) {
+      const bit = 1n << BigInt(cellIndex(x, y))
+      game = gameReducer(game, { type: 'REVEAL_SENT', gameId, x, y })
+      expect(game.pendingMask).toBe(bit)
+
+      const receipt = await reveal(gameId, x, y, i === 0 ? NONCE : ZERO_BYTES32)
+      expect(receipt.status).toBe('success')
+
+      if (i === 0) {
+        expect(findEventInLogs(receipt.logs, 'NonceRevealed')?.parsed.args.playerNonce).toBe(NONCE)
+        game = gameReducer(game, { type: 'NONCE_REVEALED', gameId })
+        expect(game).toMatchObject({ status: 'playing', nonceRevealed: true })
+      }
+
+      const cell = findEventInLogs(receipt.logs, 'CellRevealed')!.parsed.args
+      expectedPot = (expectedPot * 12000n) / 10000n
+      expectedMask |= bit
+      expect(cell.isMine).toBe(false)
+      expect(cell.newPot).toBe(expectedPot)
+      game = gameReducer(game, { type: 'CELL_SAFE', gameId, x, y, pot: formatEther(cell.newPot) })
+      expect(game).toMatchObject({
+        status: 'playing',
+        pot: formatEther(expectedPot),
+        confirmedMask: expectedMask,
+        pendingMask: 0n,
+        revealedCount: i + 1
+      })
+
+      // Reconciling with the contract state changes nothing
+      const info = await getGameInfo(clients.publicClient, gameId)
+      const synced = gameReducer(game, {
+        type: 'SYNC',
+        gameId,
+        pot: formatEther(info.currentPot),
+        revealedMask: info.revealedCells,
+        isActive: info.isActive,
+        isLost: info.isLost,
+        nonceRevealed: info.nonceRevealed
+      })
+      expect(synced).toEqual(game)
+    }
+
+    const balanceBefore = await clients.publicClient.getBalance({ address: SIMULATOR_ACCOUNT })
+    const hash = await cashOut(clients.burnerClient, gameId)
+    const receipt = await clients.burnerClient.waitForTransactionReceipt({ hash })
+    const over = findEventInLogs(receipt.logs, 'GameOver')!.parsed.args
+    game = gameReducer(game, { type: 'CASHED_OUT', gameId })
+
+    expect(over).toEqual({ gameId, player: SIMULATOR_ACCOUNT, finalPayout: expectedPot, isWin: true })
+    // Payout goes to the main wallet, gas is paid by the burner
+    expect(await clients.publicClient.getBalance({ address: SIMULATOR_ACCOUNT })).toBe(balanceBefore + expectedPot)
+    expect(game).toMatchObject({ status: 'won', isActive: false, pot: formatEther(expectedPot), confirmedMask: expectedMask })
+  })
+
+  it('ends the game when a mine is revealed', async () => {
+    let game = gameReducer(initialGameState, { type: 'TX_SENT' })
+    const gameId = await start()
+    game = gameReducer(game, { type: 'GAME_CREATED', gameId })
+    sim.fulfillEntropy(gameId)
+    game = gameReducer(game, { type: 'SEED_READY', gameId })
+    const layout = await layoutOf(gameId)
+    const y = layout.findIndex(row => row.includes(true))
+    const x = layout[y].indexOf(true)
+
+    game = gameReducer(game, { type: 'REVEAL_SENT', gameId, x, y })
+    const receipt = await reveal(gameId, x, y, NONCE)
+    expect(findEventInLogs(receipt.logs, 'CellRevealed')?.parsed.args.isMine).toBe(true)
+    expect(findEventInLogs(receipt.logs, 'GameOver')?.parsed.args.isWin).toBe(false)
+    // Same order as the hook's receipt handling: the receipt's NonceRevealed, then the mine
+    expect(findEventInLogs(receipt.logs, 'NonceRevealed')).not.toBeNull()
+    game = gameReducer(game, { type: 'NONCE_REVEALED', gameId })
+    expect(game).toMatchObject({ status: 'playing', nonceRevealed: true })
+    game = gameReducer(game, { type: 'MINE_HIT', gameId, x, y })
+    expect(game).toMatchObject({ status: 'game_over', isActive: false, pot: '0', pendingMask: 0n, confirmedMask: 0n })
+
+    const info = await getGameInfo(clients.publicClient, gameId)
+    expect(info).toMatchObject({ isActive: false, isLost: true, currentPot: 0n })
+    game = gameReducer(game, {
+      type: 'SYNC',
+      gameId,
+      pot: formatEther(info.currentPot),
+      revealedMask: info.revealedCells,
+      isActive: info.isActive,
+      isLost: info.isLost,
+      nonceRevealed: info.nonceRevealed
+    })
+    expect(game).toMatchObject({ status: 'game_over', isActive: false, pot: '0', revealedCount: countRevealedCells(info.revealedCells) })
+  })
+
+  it('rejects reveals before the Pyth seed arrives', async () => {
+    let game = gameReducer(initialGameState, { type: 'TX_SENT' })
+    const gameId = await start()
+    game = gameReducer(game, { type: 'GAME_CREATED', gameId })
+    const receipt = await reveal(gameId, 0, 0, NONCE)
+    expect(receipt.status).toBe('reverted')
+    // The board stays locked while waiting for the seed
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    expect(gameReducer(game, { type: 'REVEAL_SENT', gameId, x: 0, y: 0 })).toBe(game)
+    expect(warn).toHaveBeenCalledOnce()
+    warn.mockRestore()
+  })
+
+  // Regression: a commit built from the nonce's text instead of its bytes can never be revealed
+  it('only accepts nonces committed as keccak256(nonce bytes)', async () => {
+    const gameId = await start(keccak256(toHex(NONCE)))
+    sim.fulfillEntropy(gameId)
+
+    const receipt = await reveal(gameId, 0, 0, NONCE)
+    expect(receipt.status).toBe('reverted')
+    expect((await getGameInfo(clients.publicClient, gameId)).nonceRevealed).toBe(false)
+  })
+})
+
+describe('optimistic reveals', () => {
+  const gameId = 7n
+  const playing: GameState = { ...initialGameState, id: gameId, isActive: true, status: 'playing', nonceRevealed: true }
+
+  it('marks cells pending until they are confirmed or rolled back', () => {
+    let game = gameReducer(playing, { type: 'REVEAL_SENT', gameId, x: 1, y: 0 })
+    game = gameReducer(game, { type: 'REVEAL_SENT', gameId, x: 2, y: 0 })
+    expect(game.pendingMask).toBe(0b110n)
+    expect(game.confirmedMask).toBe(0n)
+
+    game = gameReducer(game, { type: 'CELL_SAFE', gameId, x: 1, y: 0, pot: '0.12' })
+    game = gameReducer(game, { type: 'REVEAL_FAILED', gameId, x: 2, y: 0 })
+    expect(game).toMatchObject({ confirmedMask: 0b10n, pendingMask: 0n, revealedCount: 1, pot: '0.12' })
+  })
+
+  it('drops pending cells the chain applied or that a mine made moot', () => {
+    let game = gameReducer(playing, { type: 'REVEAL_SENT', gameId, x: 1, y: 0 })
+    game = gameReducer(game, { type: 'REVEAL_SENT', gameId, x: 2, y: 0 })
+    game = gameReducer(game, { type: 'SYNC', gameId, pot: '0.12', revealedMask: 0b10n, isActive: true, isLost: false, nonceRevealed: true })
+    expect(game.pendingMask).toBe(0b100n)
+
+    game = gameReducer(game, { type: 'REVEAL_SENT', gameId, x: 3, y: 0 })
+    game = gameReducer(game, { type: 'MINE_HIT', gameId, x: 2, y: 0 })
+    expect(game).toMatchObject({ status: 'game_over', pendingMask: 0n, confirmedMask: 0b10n })
+    // Reveals reverting after the mine are still accepted (no-op)
+    expect(gameReducer(game, { type: 'REVEAL_FAILED', gameId, x: 3, y: 0 })).toEqual(game)
+  })
+})
@@ -0,0 +1,120 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { gameReducer, initialGameState, type GameEvent, type GameState } from './gameMachine'
+
+const GAME_ID = 1n
+
+const run = (state: GameState, ...events: GameEvent[]) => events.reduce(gameReducer, state)
+
+// One state per status along the happy path
+const waitingPyth = run(initialGameState, { type: 'TX_SENT' }, { type: 'GAME_CREATED', gameId: GAME_ID })
+const waitingNonce = run(waitingPyth, { type: 'SEED_READY', gameId: GAME_ID })
+const playing = run(
+  waitingNonce,
+  { type: 'REVEAL_SENT', gameId: GAME_ID, x: 0, y: 0 },
+  { type: 'NONCE_REVEALED', gameId: GAME_ID },
+  { type: 'CELL_SAFE', gameId: GAME_ID, x: 0, y: 0, pot: "0.0012" }
+)
+const won = run(playing, { type: 'CASHED_OUT', gameId: GAME_ID })
+const gameOver = run(
+  playing,
+  { type: 'REVEAL_SENT', gameId: GAME_ID, x: 1, y: 0 },
+  { type: 'MINE_HIT', gameId: GAME_ID, x: 1, y: 0 }
+)
+
+describe('gameReducer', () => {
+  let warn: ReturnType<typeof vi.spyOn>
+
+  beforeEach(() => {
+    warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    warn.mockRestore()
+  })
+
+  it('walks idle → waiting_pyth → waiting_nonce → playing → won', () => {
+    expect(waitingPyth).toMatchObject({ status: "waiting_pyth", id: GAME_ID, isActive: true })
+    expect(waitingNonce).toMatchObject({ status: "waiting_nonce", nonceRevealed: false })
+    expect(playing).toMatchObject({
+      status: "playing",
+      nonceRevealed: true,
+      pot: "0.0012",
+      confirmedMask: 1n,
+      pendingMask: 0n,
+      revealedCount: 1
+    })
+    expect(won).toMatchObject({ status: "won", isActive: false, pot: "0.0012" })
+    expect(run(won, { type: 'RESET' })).toBe(initialGameState)
+  })
+
+  it('ends in game_over on a mine', () => {
+    expect(gameOver).toMatchObject({ status: "game_over", isActive: false, pot: "0", pendingMask: 0n, confirmedMask: 1n })
+  })
+
+  it('maps a SYNC of a finished game to its final status', () => {
+    const sync = { type: 'SYNC', gameId: GAME_ID, pot: "0.0012", revealedMask: 1n, nonceRevealed: true } as const
+    // Cashed out elsewhere
+    expect(run(playing, { ...sync, isActive: false, isLost: false }))
+      .toMatchObject({ status: "won", isActive: false, pot: "0.0012", pendingMask: 0n })
+    expect(run(playing, { ...sync, isActive: false, isLost: true }))
+      .toMatchObject({ status: "game_over", isActive: false, pot: "0" })
+    expect(run(playing, { ...sync, isActive: true, isLost: false })).toMatchObject({ status: "playing", isActive: true })
+  })
+
+  const illegal: Array<[string, GameState, GameEvent[]]> = [
+    ["idle", initialGameState, [
+      { type: 'SEED_READY', gameId: GAME_ID },
+      { type: 'NONCE_REVEALED', gameId: GAME_ID },
+      { type: 'CELL_SAFE', gameId: GAME_ID, x: 0, y: 0, pot: "1" },
+      { type: 'MINE_HIT', gameId: GAME_ID, x: 0, y: 0 },
+      { type: 'CASHED_OUT', gameId: GAME_ID }
+    ]],
+    ["waiting_pyth", waitingPyth, [
+      { type: 'TX_SENT' },
+      { type: 'RESET' },
+      { type: 'NONCE_REVEALED', gameId: GAME_ID },
+      { type: 'REVEAL_SENT', gameId: GAME_ID, x: 0, y: 0 },
+      { type: 'CELL_SAFE', gameId: GAME_ID, x: 0, y: 0, pot: "1" },
+      { type: 'CASHED_OUT', gameId: GAME_ID }
+    ]],
+    ["waiting_nonce", waitingNonce, [
+      { type: 'TX_SENT' },
+      { type: 'RESET' },
+      { type: 'SEED_READY', gameId: GAME_ID },
+      { type: 'CELL_SAFE', gameId: GAME_ID, x: 0, y: 0, pot: "1" },
+      { type: 'CASHED_OUT', gameId: GAME_ID }
+    ]],
+    ["playing", playing, [
+      { type: 'TX_SENT' },
+      { type: 'RESET' },
+      { type: 'START_FAILED' },
+      { type: 'SEED_READY', gameId: GAME_ID },
+      { type: 'NONCE_REVEALED', gameId: GAME_ID },
+      { type: 'RESTORE', state: initialGameState },
+      // Events of another game
+      { type: 'CELL_SAFE', gameId: GAME_ID + 1n, x: 1, y: 1, pot: "1" },
+      { type: 'CASHED_OUT', gameId: GAME_ID + 1n }
+    ]],
+    ["won", won, [
+      { type: 'TX_SENT' },
+      { type: 'REVEAL_SENT', gameId: GAME_ID, x: 1, y: 1 },
+      { type: 'CELL_SAFE', gameId: GAME_ID, x: 1, y: 1, pot: "1" },
+      { type: 'MINE_HIT', gameId: GAME_ID, x: 1, y: 1 },
+      { type: 'CASHED_OUT', gameId: GAME_ID }
+    ]],
+    ["game_over", gameOver, [
+      { type: 'TX_SENT' },
+      { type: 'REVEAL_SENT', gameId: GAME_ID, x: 1, y: 1 },
+      { type: 'CELL_SAFE', gameId: GAME_ID, x: 1, y: 1, pot: "1" },
+      { type: 'MINE_HIT', gameId: GAME_ID, x: 1, y: 1 },
+      { type: 'CASHED_OUT', gameId: GAME_ID }
+    ]]
+  ]
+
+  it.each(illegal)('rejects and logs illegal events in %s', (_, state, events) => {
+    for (const event of events) {
+      expect(gameReducer(state, event), event.type).toBe(state)
+    }
+    expect(warn).toHaveBeenCalledTimes(events.length)
+  })
+})
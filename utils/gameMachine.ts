@@ -0,0 +1,153 @@
+// utils/gameMachine.ts
+// Game state machine: every GameState change goes through gameReducer
+//
+// idle → waiting_pyth → waiting_nonce → playing → game_over | won
+//   TX_SENT      SEED_READY     NONCE_REVEALED   MINE_HIT | CASHED_OUT
+//
+// Reveals are optimistic: REVEAL_SENT marks the cell pending, CELL_SAFE confirms it
+// and REVEAL_FAILED rolls it back
+
+import { cellIndex, countRevealedCells } from './board'
+
+export type GameStatus = "idle" | "waiting_pyth" | "waiting_nonce" | "playing" | "game_over" | "won"
+
+export type GameState = {
+  id: bigint | null;
+  pot: string;
+  isActive: boolean;
+  status: GameStatus;
+  // Cells confirmed by a receipt or games(gameId)
+  confirmedMask: bigint;
+  // Cells whose reveal was sent but not confirmed yet
+  pendingMask: bigint;
+  // Confirmed cells only
+  revealedCount: number;
+  nonceRevealed: boolean;
+};
+
+export const initialGameState: GameState = {
+  id: null, pot: "0", isActive: false, status: "idle", confirmedMask: 0n, pendingMask: 0n, revealedCount: 0, nonceRevealed: false
+}
+
+export type GameEvent =
+  // Clears the board before a new game
+  | { type: 'RESET' }
+  // startGame tx sent by the main wallet
+  | { type: 'TX_SENT' }
+  // GameRequested event found in the startGame receipt
+  | { type: 'GAME_CREATED'; gameId: bigint }
+  // Pyth callback stored the seed
+  | { type: 'SEED_READY'; gameId: bigint }
+  // startGame failed, reverted or timed out
+  | { type: 'START_FAILED' }
+  // First reveal published the player nonce
+  | { type: 'NONCE_REVEALED'; gameId: bigint }
+  // revealCell tx queued for a cell (shown as pending until confirmed or rolled back)
+  | { type: 'REVEAL_SENT'; gameId: bigint; x: number; y: number }
+  // Reveal dropped, rejected or reverted
+  | { type: 'REVEAL_FAILED'; gameId: bigint; x: number; y: number }
+  | { type: 'CELL_SAFE'; gameId: bigint; x: number; y: number; pot: string }
+  | { type: 'MINE_HIT'; gameId: bigint; x: number; y: number }
+  | { type: 'CASHED_OUT'; gameId: bigint }
+  // Reconciles with games(gameId) after a reveal
+  | { type: 'SYNC'; gameId: bigint; pot: string; revealedMask: bigint; isActive: boolean; isLost: boolean; nonceRevealed: boolean }
+  // Game recovered from storage after a reload
+  | { type: 'RESTORE'; state: GameState }
+
+export type GameEventType = GameEvent['type']
+
+// Statuses each event is accepted in
+const ALLOWED_FROM: Record<GameEventType, GameStatus[]> = {
+  RESET: ["idle", "game_over", "won"],
+  TX_SENT: ["idle"],
+  GAME_CREATED: ["waiting_pyth"],
+  SEED_READY: ["waiting_pyth"],
+  START_FAILED: ["idle", "waiting_pyth", "waiting_nonce"],
+  NONCE_REVEALED: ["waiting_nonce"],
+  REVEAL_SENT: ["waiting_nonce", "playing"],
+  REVEAL_FAILED: ["waiting_nonce", "playing", "game_over"],
+  CELL_SAFE: ["playing"],
+  MINE_HIT: ["waiting_nonce", "playing"],
+  CASHED_OUT: ["playing"],
+  SYNC: ["waiting_nonce", "playing", "game_over"],
+  RESTORE: ["idle"]
+}
+
+const cellBit = (x: number, y: number) => 1n << BigInt(cellIndex(x, y))
+
+/**
+ * Checks if an event is legal in the current state
+ * Events that carry a gameId must also target the current game
+ */
+export function canTransition(state: GameState, event: GameEvent): boolean {
+  if (!ALLOWED_FROM[event.type].includes(state.status)) return false
+  if ('gameId' in event && event.type !== 'GAME_CREATED' && state.id !== event.gameId) return false
+  return true
+}
+
+/**
+ * Reducer for GameState. Illegal transitions are logged and leave the state untouched
+ */
+export function gameReducer(state: GameState, event: GameEvent): GameState {
+  if (!canTransition(state, event)) {
+    console.warn(`[game] Ignored ${event.type} in status "${state.status}"${state.id !== null ? ` (game #${state.id})` : ''}`)
+    return state
+  }
+
+  switch (event.type) {
+    case 'RESET':
+      return initialGameState
+    case 'TX_SENT':
+      return { ...initialGameState, status: "waiting_pyth" }
+    case 'GAME_CREATED':
+      return { ...state, id: event.gameId, isActive: true }
+    case 'SEED_READY':
+      return { ...state, status: "waiting_nonce", nonceRevealed: false }
+    case 'START_FAILED':
+      return { ...state, status: "idle", isActive: false, nonceRevealed: false }
+    case 'NONCE_REVEALED':
+      return { ...state, status: "playing", nonceRevealed: true }
+    case 'REVEAL_SENT':
+      return { ...state, pendingMask: state.pendingMask | cellBit(event.x, event.y) }
+    case 'REVEAL_FAILED':
+      return { ...state, pendingMask: state.pendingMask & ~cellBit(event.x, event.y) }
+    case 'CELL_SAFE': {
+      const bit = cellBit(event.x, event.y)
+      const confirmedMask = state.confirmedMask | bit
+      return {
+        ...state,
+        pot: event.pot,
+        confirmedMask,
+        pendingMask: state.pendingMask & ~bit,
+        revealedCount: countRevealedCells(confirmedMask)
+      }
+    }
+    case 'MINE_HIT':
+      // Reveals still pending can only revert now
+      return { ...state, status: "game_over", isActive: false, pot: "0", pendingMask: 0n, nonceRevealed: true }
+    case 'CASHED_OUT':
+      return { ...state, status: "won", isActive: false, pendingMask: 0n }
+    case 'SYNC': {
+      const status: GameStatus = event.isLost || state.status === "game_over"
+        ? "game_over"
+        // Finished without a mine: cashed out (e.g. from another tab)
+        : !event.isActive
+          ? "won"
+          : event.nonceRevealed ? "playing" : state.status
+      return {
+        ...state,
+        // Keeps pot at 0 once the game is lost
+        pot: status === "game_over" ? "0" : event.pot,
+        confirmedMask: event.revealedMask,
+        // Reveals the chain already applied are no longer pending
+        pendingMask: status === "playing" || status === "waiting_nonce" ? state.pendingMask & ~event.revealedMask : 0n,
+        revealedCount: countRevealedCells(event.revealedMask),
+        isActive: event.isActive && !event.isLost,
+        nonceRevealed: event.nonceRevealed,
+        status
+      }
+    }
+    case 'RESTORE':
+      return event.state
+  }
+}
@@ -0,0 +1,67 @@
+// utils/gameStorage.ts
+// localStorage records of started games (gameId + secret nonce) used for recovery
+
+import { type Hex } from 'viem'
+
+const GAME_KEY_PREFIX = "monad_game_"
+
+export type StoredGame = {
+  gameId: bigint
+  nonce: Hex
+  timestamp: number
+}
+
+/**
+ * Saves the nonce of a started game so it survives a page reload
+ */
+export function saveStoredGame(gameId: bigint, nonce: Hex): void {
+  const gameData = {
+    gameId: gameId.toString(),
+    nonce: nonce,
+    timestamp: Date.now()
+  }
+  localStorage.setItem(`${GAME_KEY_PREFIX}${gameId.toString()}`, JSON.stringify(gameData))
+}
+
+/**
+ * Reads a stored game record, or null if missing or corrupted
+ */
+export function getStoredGame(gameId: bigint): StoredGame | null {
+  const raw = localStorage.getItem(`${GAME_KEY_PREFIX}${gameId.toString()}`)
+  if (!raw) return null
+  try {
+    const parsed = JSON.parse(raw)
+    if (!parsed.nonce) return null
+    return {
+      gameId,
+      nonce: parsed.nonce as Hex,
+      timestamp: typeof parsed.timestamp === 'number' ? parsed.timestamp : 0
+    }
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Removes a stored game record (after game over or cashout)
+ */
+export function removeStoredGame(gameId: bigint): void {
+  localStorage.removeItem(`${GAME_KEY_PREFIX}${gameId.toString()}`)
+}
+
+/**
+ * Lists every stored game record, newest first
+ * Note: only keys of the form monad_game_<gameId> are considered
+ */
+export function listStoredGames(): StoredGame[] {
+  const games: StoredGame[] = []
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i)
+    if (!key || !key.startsWith(GAME_KEY_PREFIX)) continue
+    const id = key.slice(GAME_KEY_PREFIX.length)
+    if (!/^\d+$/.test(id)) continue
+    const stored = getStoredGame(BigInt(id))
+    if (stored) games.push(stored)
+  }
+  return games.sort((a, b) => b.timestamp - a.timestamp)
+}
@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import {
+  type Hex,
+  type Log,
+  createPublicClient,
+  createWalletClient,
+  keccak256,
+  parseEther,
+  publicActions,
+  toHex
+} from 'viem'
+import { privateKeyToAccount } from 'viem/accounts'
+import { monadTestnet } from 'viem/chains'
+import { createMonadMinesSimulator, SIMULATOR_ACCOUNT, type MonadMinesSimulator } from './simulator'
+import {
+  getEntropyFee,
+  registerSessionKey,
+  startGame,
+  revealCell,
+  findEventInLogs,
+  type WriteContractAsync
+} from './contract'
+import { createGameSync, type GameSyncEvent, type GameSyncMode } from './gameSync'
+
+// Second Anvil dev key, used as the burner wallet
+const BURNER_KEY: Hex = '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d'
+const NONCE = keccak256(toHex('sync nonce'))
+
+describe('createGameSync (simulator)', () => {
+  let sim: MonadMinesSimulator
+  let publicClient: ReturnType<typeof createPublicClient>
+  let burnerClient: ReturnType<typeof setupBurner>
+  let gameId: bigint
+  let startBlock: bigint
+
+  function setupBurner() {
+    return createWalletClient({
+      chain: monadTestnet,
+      account: privateKeyToAccount(BURNER_KEY),
+      transport: sim.transport,
+      pollingInterval: 10
+    }).extend(publicActions)
+  }
+
+  beforeEach(async () => {
+    sim = createMonadMinesSimulator({ entropyDelayMs: null, randomSeed: keccak256(toHex('sync')) })
+    publicClient = createPublicClient({ chain: monadTestnet, transport: sim.transport, pollingInterval: 10 })
+    burnerClient = setupBurner()
+    const mainClient = createWalletClient({ chain: monadTestnet, account: SIMULATOR_ACCOUNT, transport: sim.transport })
+    const writeContractAsync = ((args: Parameters<typeof mainClient.writeContract>[0]) =>
+      mainClient.writeContract(args)) as unknown as WriteContractAsync
+
+    await mainClient.sendTransaction({ to: burnerClient.account.address, value: parseEther('1') })
+    await registerSessionKey(writeContractAsync, burnerClient.account.address)
+    const fee = await getEntropyFee(publicClient)
+    const receipt = await publicClient.waitForTransactionReceipt({
+      hash: await startGame(writeContractAsync, keccak256(NONCE), fee + parseEther('0.1'))
+    })
+    gameId = findEventInLogs(receipt.logs, 'GameRequested')!.parsed.args.gameId
+    startBlock = receipt.blockNumber
+  })
+
+  it('polls the game events in chain order', async () => {
+    const events: GameSyncEvent[] = []
+    const sync = createGameSync({ client: publicClient, gameId, fromBlock: startBlock, onEvent: e => events.push(e), pollingIntervalMs: 10 })
+
+    sim.fulfillEntropy(gameId)
+    await revealCell(burnerClient, gameId, 0, 0, NONCE)
+    await vi.waitFor(() => expect(events.map(e => e.eventName).slice(0, 3)).toEqual(['GameStarted', 'NonceRevealed', 'CellRevealed']))
+    sync.stop()
+    // GameOver follows only if (0, 0) was a mine
+    const revealed = events[2]
+    const isMine = revealed.eventName === 'CellRevealed' && revealed.args.isMine
+    expect(events.slice(3).map(e => e.eventName)).toEqual(isMine ? ['GameOver'] : [])
+  })
+
+  it('de-duplicates pushed events and backfills the range missed by a dropped subscription', async () => {
+    const watchers: Array<{ eventName: string; onLogs: (logs: Log[]) => void; onError: (error: Error) => void }> = []
+    const unwatch = vi.fn()
+    const wsClient = {
+      watchContractEvent: vi.fn((watcher: (typeof watchers)[number]) => {
+        watchers.push(watcher)
+        return unwatch
+      })
+    }
+    const events: GameSyncEvent[] = []
+    const modes: GameSyncMode[] = []
+    const sync = createGameSync({
+      client: publicClient,
+      wsClient: wsClient as never,
+      gameId,
+      fromBlock: startBlock,
+      onEvent: e => events.push(e),
+      onModeChange: mode => modes.push(mode),
+      backfillIntervalMs: 60000
+    })
+    expect(watchers.map(w => w.eventName)).toEqual(['GameStarted', 'NonceRevealed', 'CellRevealed', 'GameOver'])
+
+    // Pushed twice (and possibly found by the first scan): delivered once
+    const started = await publicClient.getTransactionReceipt({ hash: sim.fulfillEntropy(gameId) })
+    const onStarted = watchers.find(w => w.eventName === 'GameStarted')!
+    onStarted.onLogs(started.logs)
+    onStarted.onLogs(started.logs)
+    expect(events.map(e => e.eventName)).toEqual(['GameStarted'])
+
+    // Mined while the connection is down: nothing is pushed, the backfill finds it
+    await revealCell(burnerClient, gameId, 0, 0, NONCE)
+    const logError = vi.spyOn(console, 'error').mockImplementation(() => {})
+    watchers.forEach(w => w.onError(new Error('socket closed')))
+    // Reported once for the four watchers
+    expect(logError).toHaveBeenCalledTimes(1)
+    logError.mockRestore()
+    await vi.waitFor(() => expect(events.map(e => e.eventName).slice(0, 3)).toEqual(['GameStarted', 'NonceRevealed', 'CellRevealed']))
+
+    expect(modes).toEqual(['websocket', 'polling'])
+    expect(unwatch).toHaveBeenCalledTimes(4)
+    sync.stop()
+  })
+})
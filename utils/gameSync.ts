@@ -0,0 +1,175 @@
+// utils/gameSync.ts
+// Sync engine of one game: GameStarted, NonceRevealed, CellRevealed and GameOver are delivered
+// once each and in chain order, pushed by a WebSocket subscription when one is available and
+// found by block-based getLogs polling otherwise. The polling cursor keeps running behind the
+// subscription, so a dropped connection is backfilled from the last scanned block
+
+import { type Log, type PublicClient } from 'viem'
+import { CONTRACT_ADDRESS, CONTRACT_ABI, getContractLogs, type ContractEvent } from './contract'
+import { decodeLogs, type LogMeta } from './history'
+
+export const GAME_SYNC_EVENTS = ['GameStarted', 'NonceRevealed', 'CellRevealed', 'GameOver'] as const
+
+export type GameSyncEventName = typeof GAME_SYNC_EVENTS[number]
+export type GameSyncEvent = ContractEvent<GameSyncEventName> & LogMeta
+
+export type GameSyncMode = 'websocket' | 'polling'
+
+export type GameSyncOptions = {
+  // Client used for block numbers and getLogs (polling and backfill)
+  client: Pick<PublicClient, 'getBlockNumber' | 'getLogs'>
+  // WebSocket client for push subscriptions (null = polling only)
+  wsClient?: Pick<PublicClient, 'watchContractEvent'> | null
+  gameId: bigint
+  // First block to scan (undefined = the latest block when the engine starts)
+  fromBlock?: bigint
+  onEvent: (event: GameSyncEvent) => void
+  onModeChange?: (mode: GameSyncMode) => void
+  // Scan period without a subscription
+  pollingIntervalMs?: number
+  // Scan period while subscribed (only fills gaps)
+  backfillIntervalMs?: number
+}
+
+export type GameSync = {
+  // Unsubscribes and stops polling; no event is delivered afterwards
+  stop: () => void
+}
+
+// Monad produces blocks well under a second apart
+const POLLING_INTERVAL_MS = 1000
+const BACKFILL_INTERVAL_MS = 15000
+const RESUBSCRIBE_DELAY_MS = 5000
+
+/**
+ * Sorts events in chain order (block, then log index)
+ */
+export function sortEvents<event extends LogMeta>(events: event[]): event[] {
+  return [...events].sort((a, b) =>
+    a.blockNumber === b.blockNumber ? a.logIndex - b.logIndex : a.blockNumber < b.blockNumber ? -1 : 1
+  )
+}
+
+/**
+ * Fetches the events of a game in a block range, in chain order
+ */
+export async function fetchGameEvents(
+  client: Pick<PublicClient, 'getLogs'>,
+  gameId: bigint,
+  fromBlock: bigint,
+  toBlock: bigint
+): Promise<GameSyncEvent[]> {
+  const batches = await Promise.all(GAME_SYNC_EVENTS.map(async eventName =>
+    decodeLogs(await getContractLogs(client, eventName, { gameId }, fromBlock, toBlock), eventName)
+  ))
+  return sortEvents<GameSyncEvent>(batches.flat())
+}
+
+/**
+ * Starts syncing a game; events are de-duplicated by tx hash and log index
+ */
+export function createGameSync({
+  client,
+  wsClient = null,
+  gameId,
+  fromBlock,
+  onEvent,
+  onModeChange = () => {},
+  pollingIntervalMs = POLLING_INTERVAL_MS,
+  backfillIntervalMs = BACKFILL_INTERVAL_MS
+}: GameSyncOptions): GameSync {
+  const seen = new Set<string>()
+  // Last block fully scanned by getLogs
+  let cursor: bigint | null = fromBlock !== undefined ? fromBlock - 1n : null
+  let scan: Promise<void> | null = null
+  let unwatch: (() => void) | null = null
+  let pollTimer: ReturnType<typeof setTimeout> | null = null
+  let resubscribeTimer: ReturnType<typeof setTimeout> | null = null
+  let stopped = false
+
+  const deliver = (events: GameSyncEvent[]) => {
+    for (const event of events) {
+      const key = `${event.transactionHash}:${event.logIndex}`
+      if (stopped || seen.has(key)) continue
+      seen.add(key)
+      onEvent(event)
+    }
+  }
+
+  // Scans (cursor, latest]; calls made during a scan share it
+  const catchUp = () => {
+    scan ??= (async () => {
+      try {
+        const latest = await client.getBlockNumber({ cacheTime: 0 })
+        if (cursor === null) cursor = latest - 1n
+        if (latest <= cursor) return
+        deliver(await fetchGameEvents(client, gameId, cursor + 1n, latest))
+        cursor = latest
+      } catch (e) {
+        console.error(`Error syncing game #${gameId}:`, e)
+      } finally {
+        scan = null
+      }
+    })()
+    return scan
+  }
+
+  const schedulePoll = () => {
+    if (pollTimer) clearTimeout(pollTimer)
+    if (stopped) return
+    pollTimer = setTimeout(() => {
+      void catchUp().then(schedulePoll)
+    }, unwatch ? backfillIntervalMs : pollingIntervalMs)
+  }
+
+  const disconnect = (error?: Error) => {
+    // Every watcher reports the same dropped connection
+    if (stopped || resubscribeTimer) return
+    if (error) console.error(`Game #${gameId} subscription lost:`, error)
+    unwatch?.()
+    unwatch = null
+    onModeChange('polling')
+    // Recovers the range missed while disconnected, then polls until the subscription is back
+    void catchUp().then(schedulePoll)
+    resubscribeTimer = setTimeout(() => {
+      resubscribeTimer = null
+      subscribe()
+    }, RESUBSCRIBE_DELAY_MS)
+  }
+
+  const subscribe = () => {
+    if (!wsClient || stopped) return
+    try {
+      const unwatchers = GAME_SYNC_EVENTS.map(eventName => wsClient.watchContractEvent({
+        address: CONTRACT_ADDRESS,
+        abi: CONTRACT_ABI,
+        eventName,
+        args: { gameId },
+        onLogs: logs => deliver(sortEvents<GameSyncEvent>(decodeLogs(logs as Log[], eventName))),
+        onError: disconnect
+      }))
+      unwatch = () => unwatchers.forEach(stopWatching => stopWatching())
+      onModeChange('websocket')
+      schedulePoll()
+    } catch (e) {
+      disconnect(e as Error)
+    }
+  }
+
+  if (wsClient) {
+    subscribe()
+  } else {
+    onModeChange('polling')
+  }
+  void catchUp().then(schedulePoll)
+
+  return {
+    stop: () => {
+      stopped = true
+      unwatch?.()
+      unwatch = null
+      if (pollTimer) clearTimeout(pollTimer)
+      if (resubscribeTimer) clearTimeout(resubscribeTimer)
+    }
+  }
+}
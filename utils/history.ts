@@ -0,0 +1,161 @@
+// utils/history.ts
+// Rebuilds a player's past games from GameRequested, CellRevealed and GameOver logs
+
+import { type Address, type Hex, type Log, type PublicClient } from 'viem'
+import {
+  getContractLogs,
+  getGameInfo,
+  decodeContractEvent,
+  type ContractEvent,
+  type MonadMinesEventName,
+  type GameRequestedEvent,
+  type CellRevealedEvent,
+  type GameOverEvent
+} from './contract'
+
+// How many blocks each history page scans backwards
+export const HISTORY_PAGE_BLOCKS = 20000n
+
+// Parallel game reads when reading bets
+const BET_BATCH_SIZE = 20
+
+// Position and tx hash of the log an event was decoded from
+export type LogMeta = {
+  blockNumber: bigint
+  // Orders events of the same block
+  logIndex: number
+  transactionHash: Hex
+}
+
+export type PlayerEvents = {
+  requested: Array<GameRequestedEvent & LogMeta>
+  cellRevealed: Array<CellRevealedEvent & LogMeta>
+  gameOver: Array<GameOverEvent & LogMeta>
+}
+
+export type GameHistoryEntry = {
+  gameId: bigint
+  // Bet paid without the Entropy fee (null if the game couldn't be read at its start block)
+  bet: bigint | null
+  safeReveals: number
+  finalPayout: bigint | null
+  result: 'won' | 'lost' | 'active'
+  startBlock: bigint
+  startTx: Hex
+  endTx: Hex | null
+}
+
+/**
+ * Decodes raw logs into typed events, keeping their position and tx hash
+ */
+export function decodeLogs<eventName extends MonadMinesEventName>(
+  logs: Log[],
+  eventName: eventName
+): Array<ContractEvent<eventName> & LogMeta> {
+  const events: Array<ContractEvent<eventName> & LogMeta> = []
+  for (const log of logs) {
+    // Pending logs have no block/tx yet
+    if (log.blockNumber === null || log.logIndex === null || log.transactionHash === null) continue
+    const parsed = decodeContractEvent({ data: log.data, topics: log.topics as Hex[] }, eventName)
+    if (parsed) {
+      events.push({ ...parsed, blockNumber: log.blockNumber, logIndex: log.logIndex, transactionHash: log.transactionHash })
+    }
+  }
+  return events
+}
+
+/**
+ * Scans one block range for the player's events
+ * Note: CellRevealed has no indexed player, so it is filtered by the game IDs requested
+ * in this range and scanned up to latestBlock (reveals can land after the range ends)
+ */
+export async function scanPlayerEvents(
+  publicClient: PublicClient,
+  player: Address,
+  fromBlock: bigint,
+  toBlock: bigint,
+  latestBlock: bigint
+): Promise<PlayerEvents> {
+  const requested = decodeLogs(
+    await getContractLogs(publicClient, 'GameRequested', { player }, fromBlock, toBlock),
+    'GameRequested'
+  )
+  const gameOver = decodeLogs(
+    await getContractLogs(publicClient, 'GameOver', { player }, fromBlock, toBlock),
+    'GameOver'
+  )
+
+  const gameIds = requested.map(event => event.args.gameId)
+  const cellRevealed = gameIds.length === 0 ? [] : decodeLogs(
+    await getContractLogs(publicClient, 'CellRevealed', { gameId: gameIds }, fromBlock, latestBlock),
+    'CellRevealed'
+  )
+
+  return { requested, cellRevealed, gameOver }
+}
+
+/**
+ * Merges events of two scans (newer and older ranges)
+ */
+export function mergePlayerEvents(a: PlayerEvents, b: PlayerEvents): PlayerEvents {
+  return {
+    requested: [...a.requested, ...b.requested],
+    cellRevealed: [...a.cellRevealed, ...b.cellRevealed],
+    gameOver: [...a.gameOver, ...b.gameOver]
+  }
+}
+
+/**
+ * Builds one history entry per GameRequested event, newest first
+ * @param events - Events of every scanned range
+ * @param bets - Bet per game ID (see fetchBets)
+ */
+export function buildHistory(events: PlayerEvents, bets: Map<bigint, bigint>): GameHistoryEntry[] {
+  return events.requested
+    .map(request => {
+      const gameId = request.args.gameId
+      const safeReveals = events.cellRevealed.filter(event => event.args.gameId === gameId && !event.args.isMine).length
+      const over = events.gameOver.find(event => event.args.gameId === gameId)
+
+      return {
+        gameId,
+        bet: bets.get(gameId) ?? null,
+        safeReveals,
+        finalPayout: over ? over.args.finalPayout : null,
+        result: over ? (over.args.isWin ? 'won' : 'lost') : 'active',
+        startBlock: request.blockNumber,
+        startTx: request.transactionHash,
+        endTx: over ? over.transactionHash : null
+      } satisfies GameHistoryEntry
+    })
+    .sort((a, b) => (a.startBlock > b.startBlock ? -1 : a.startBlock < b.startBlock ? 1 : 0))
+}
+
+/**
+ * Reads the bet of each game: its pot at the block of its GameRequested event, which the
+ * contract sets to the value sent minus the Entropy fee of that block (so it holds for any
+ * fee and for starts sent through a smart wallet or multicall)
+ * Note: needs an RPC that serves historical state
+ * @param requested - GameRequested events (only their game ID and block are read)
+ */
+export async function fetchBets(
+  publicClient: PublicClient,
+  requested: Array<{ args: Pick<GameRequestedEvent['args'], 'gameId'> } & Pick<LogMeta, 'blockNumber'>>
+): Promise<Map<bigint, bigint>> {
+  const bets = new Map<bigint, bigint>()
+  if (requested.length === 0) return bets
+
+  // Reads games in small parallel batches to avoid flooding the RPC
+  for (let i = 0; i < requested.length; i += BET_BATCH_SIZE) {
+    const batch = requested.slice(i, i + BET_BATCH_SIZE)
+    await Promise.all(batch.map(async request => {
+      try {
+        const game = await getGameInfo(publicClient, request.args.gameId, request.blockNumber)
+        bets.set(request.args.gameId, game.currentPot)
+      } catch (e) {
+        console.error(`Error reading bet of game ${request.args.gameId}:`, e)
+      }
+    }))
+  }
+  return bets
+}
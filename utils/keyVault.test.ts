@@ -0,0 +1,115 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { type Hex } from 'viem'
+import { generatePrivateKey, privateKeyToAccount, privateKeyToAddress } from 'viem/accounts'
+import {
+  BURNER_KEY_STORAGE,
+  VAULT_STORAGE,
+  encryptKey,
+  decryptKey,
+  getVaultContents,
+  openVault,
+  readVault,
+  readRotation,
+  saveRotation,
+  clearVault,
+  deriveSessionKey,
+  sessionKeyTypedData
+} from './keyVault'
+
+const PASSPHRASE = 'correct horse battery'
+
+// Minimal in-memory localStorage
+function memoryStorage() {
+  const items = new Map<string, string>()
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+    removeItem: (key: string) => void items.delete(key)
+  }
+}
+
+describe('encryptKey / decryptKey', () => {
+  const privateKey = generatePrivateKey()
+
+  it('round-trips the private key', async () => {
+    const encrypted = await encryptKey(privateKey, PASSPHRASE)
+    expect(encrypted.address).toBe(privateKeyToAddress(privateKey))
+    expect(encrypted.ciphertext).not.toContain(privateKey.slice(2))
+    expect(await decryptKey(encrypted, PASSPHRASE)).toBe(privateKey)
+  })
+
+  it('uses a fresh salt and IV every time', async () => {
+    const [a, b] = await Promise.all([encryptKey(privateKey, PASSPHRASE), encryptKey(privateKey, PASSPHRASE)])
+    expect(a.salt).not.toBe(b.salt)
+    expect(a.iv).not.toBe(b.iv)
+  })
+
+  it('rejects a wrong passphrase or tampered ciphertext', async () => {
+    const encrypted = await encryptKey(privateKey, PASSPHRASE)
+    await expect(decryptKey(encrypted, 'wrong passphrase')).rejects.toThrow('Wrong passphrase')
+
+    const flipped = (encrypted.ciphertext.slice(0, -2) + (encrypted.ciphertext.endsWith('00') ? '01' : '00')) as Hex
+    await expect(decryptKey({ ...encrypted, ciphertext: flipped }, PASSPHRASE)).rejects.toThrow('Wrong passphrase')
+  })
+})
+
+describe('deriveSessionKey', () => {
+  const owner = privateKeyToAccount(generatePrivateKey())
+  const contract = '0xb622C9Ad048C61bFe11810baa94d51FcFCa65415'
+
+  it('derives the same key from the same wallet and scope', async () => {
+    const first = deriveSessionKey(await owner.signTypedData(sessionKeyTypedData(10143, contract)))
+    const second = deriveSessionKey(await owner.signTypedData(sessionKeyTypedData(10143, contract)))
+    expect(first).toBe(second)
+    expect(first).not.toBe(await owner.signTypedData(sessionKeyTypedData(10143, contract)))
+  })
+
+  it('scopes the key by chain and contract', async () => {
+    const base = deriveSessionKey(await owner.signTypedData(sessionKeyTypedData(10143, contract)))
+    const otherChain = deriveSessionKey(await owner.signTypedData(sessionKeyTypedData(31337, contract)))
+    const otherContract = deriveSessionKey(await owner.signTypedData(sessionKeyTypedData(10143, '0x1111111111111111111111111111111111111111')))
+    expect(new Set([base, otherChain, otherContract]).size).toBe(3)
+  })
+})
+
+describe('openVault', () => {
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', memoryStorage())
+  })
+
+  it('migrates a plaintext key and removes it', async () => {
+    const legacy = generatePrivateKey()
+    localStorage.setItem(BURNER_KEY_STORAGE, legacy)
+    expect(getVaultContents()).toBe('plaintext')
+
+    expect(await openVault(PASSPHRASE)).toBe(legacy)
+    expect(localStorage.getItem(BURNER_KEY_STORAGE)).toBeNull()
+    expect(getVaultContents()).toBe('encrypted')
+    expect(readVault()?.address).toBe(privateKeyToAddress(legacy))
+
+    // Later loads decrypt the same key
+    expect(await openVault(PASSPHRASE)).toBe(legacy)
+  })
+
+  it('creates a new key when nothing is stored', async () => {
+    expect(getVaultContents()).toBe('empty')
+    const created = await openVault(PASSPHRASE)
+    expect(readVault()?.address).toBe(privateKeyToAddress(created))
+  })
+
+  it('keeps a rotation record until the vault is cleared', async () => {
+    const from = privateKeyToAddress(await openVault(PASSPHRASE))
+    const to = await encryptKey(generatePrivateKey(), PASSPHRASE)
+    saveRotation({ from, to, sweepTo: 'new', step: 'swept', startedAt: 1 })
+
+    expect(readRotation()).toEqual({ from, to, sweepTo: 'new', step: 'swept', startedAt: 1 })
+    clearVault()
+    expect(readRotation()).toBeNull()
+    expect(getVaultContents()).toBe('empty')
+  })
+
+  it('refuses short passphrases for new vaults', async () => {
+    await expect(openVault('short')).rejects.toThrow('at least')
+    expect(localStorage.getItem(VAULT_STORAGE)).toBeNull()
+  })
+})
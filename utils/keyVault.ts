@@ -0,0 +1,249 @@
+// utils/keyVault.ts
+// Passphrase-encrypted storage for the burner private key (PBKDF2-SHA256 + AES-GCM via WebCrypto),
+// or a key derived from a main-wallet EIP-712 signature that is never stored
+
+import { type Address, type Hex, bytesToHex, hexToBytes, isAddressEqual, keccak256 } from 'viem'
+import { generatePrivateKey, privateKeyToAddress } from 'viem/accounts'
+
+// Legacy plaintext key, only read to migrate it into the vault
+export const BURNER_KEY_STORAGE = "monad_session_key"
+export const VAULT_STORAGE = "monad_session_vault"
+// In-progress key rotation (see KeyRotation)
+export const ROTATION_STORAGE = "monad_key_rotation"
+// Public info of a signature-derived key (the key itself is re-derived on unlock)
+export const DERIVED_KEY_STORAGE = "monad_session_derived"
+
+// OWASP recommendation for PBKDF2-HMAC-SHA256
+const PBKDF2_ITERATIONS = 600_000
+const SALT_BYTES = 16
+const IV_BYTES = 12
+
+export const MIN_PASSPHRASE_LENGTH = 8
+
+// Order of the secp256k1 group (private keys must be in [1, n - 1])
+const SECP256K1_N = 0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141n
+
+export type EncryptedKey = {
+  version: 1
+  // Public address of the key, so the UI can show which wallet is locked
+  address: Address
+  salt: Hex
+  iv: Hex
+  iterations: number
+  ciphertext: Hex
+}
+
+// Rotation steps, in order; each one is persisted once done so a reload can resume
+export type RotationStep = 'created' | 'swept' | 'registered' | 'revoked'
+
+export type KeyRotation = {
+  // Burner being replaced (still the vault key until the rotation completes)
+  from: Address
+  // New burner, encrypted with the same passphrase as the vault
+  to: EncryptedKey
+  // Where the old burner's balance goes
+  sweepTo: 'new' | 'main'
+  step: RotationStep
+  // Sweep transaction, recorded before waiting so it is never sent twice
+  sweepHash?: Hex
+  startedAt: number
+}
+
+export type DerivedKeyInfo = {
+  address: Address
+  // Main wallet that signed, and the scope of the signed message
+  owner: Address
+  chainId: number
+  contract: Address
+}
+
+// What is stored right now: nothing, a legacy plaintext key, an encrypted vault or a derived key
+export type VaultContents = 'empty' | 'plaintext' | 'encrypted' | 'derived'
+
+const randomBytes = (length: number) => crypto.getRandomValues(new Uint8Array(length))
+// WebCrypto needs ArrayBuffer-backed views
+const toBytes = (hex: Hex) => new Uint8Array(hexToBytes(hex))
+
+async function deriveAesKey(passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey'])
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  )
+}
+
+/**
+ * Encrypts a private key with a key derived from the passphrase
+ */
+export async function encryptKey(privateKey: Hex, passphrase: string): Promise<EncryptedKey> {
+  const salt = randomBytes(SALT_BYTES)
+  const iv = randomBytes(IV_BYTES)
+  const aesKey = await deriveAesKey(passphrase, salt, PBKDF2_ITERATIONS)
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, aesKey, toBytes(privateKey))
+  return {
+    version: 1,
+    address: privateKeyToAddress(privateKey),
+    salt: bytesToHex(salt),
+    iv: bytesToHex(iv),
+    iterations: PBKDF2_ITERATIONS,
+    ciphertext: bytesToHex(new Uint8Array(ciphertext))
+  }
+}
+
+/**
+ * Decrypts a vault entry
+ * @throws Error("Wrong passphrase") when authentication fails
+ */
+export async function decryptKey(encrypted: EncryptedKey, passphrase: string): Promise<Hex> {
+  const aesKey = await deriveAesKey(passphrase, toBytes(encrypted.salt), encrypted.iterations)
+  let plaintext: ArrayBuffer
+  try {
+    plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: toBytes(encrypted.iv) }, aesKey, toBytes(encrypted.ciphertext))
+  } catch {
+    // AES-GCM tag mismatch: wrong passphrase or tampered data
+    throw new Error("Wrong passphrase")
+  }
+
+  const privateKey = bytesToHex(new Uint8Array(plaintext))
+  if (!isAddressEqual(privateKeyToAddress(privateKey), encrypted.address)) {
+    throw new Error("Vault is corrupted (address mismatch)")
+  }
+  return privateKey
+}
+
+/**
+ * Reads the encrypted key from localStorage, or null if missing or corrupted
+ */
+export function readVault(): EncryptedKey | null {
+  const raw = localStorage.getItem(VAULT_STORAGE)
+  if (!raw) return null
+  try {
+    const parsed = JSON.parse(raw)
+    if (parsed.version !== 1 || !parsed.ciphertext || !parsed.address) return null
+    return parsed as EncryptedKey
+  } catch {
+    return null
+  }
+}
+
+export function getVaultContents(): VaultContents {
+  if (readVault()) return 'encrypted'
+  if (readDerivedKey()) return 'derived'
+  return localStorage.getItem(BURNER_KEY_STORAGE) ? 'plaintext' : 'empty'
+}
+
+/**
+ * Replaces the vault entry (used when a key rotation completes)
+ */
+export function writeVault(encrypted: EncryptedKey): void {
+  localStorage.setItem(VAULT_STORAGE, JSON.stringify(encrypted))
+}
+
+/**
+ * Reads the in-progress key rotation, or null if there is none
+ */
+export function readRotation(): KeyRotation | null {
+  const raw = localStorage.getItem(ROTATION_STORAGE)
+  if (!raw) return null
+  try {
+    const parsed = JSON.parse(raw)
+    if (!parsed.from || !parsed.to?.ciphertext || !parsed.step) return null
+    return parsed as KeyRotation
+  } catch {
+    return null
+  }
+}
+
+export function saveRotation(rotation: KeyRotation): void {
+  localStorage.setItem(ROTATION_STORAGE, JSON.stringify(rotation))
+}
+
+export function clearRotation(): void {
+  localStorage.removeItem(ROTATION_STORAGE)
+}
+
+/**
+ * Decrypts the stored key. If only a legacy plaintext key exists it is encrypted
+ * with the passphrase and removed; if nothing is stored a new key is generated
+ * @returns The burner private key
+ */
+export async function openVault(passphrase: string): Promise<Hex> {
+  const encrypted = readVault()
+  if (encrypted) return decryptKey(encrypted, passphrase)
+  if (readDerivedKey()) throw new Error("This game wallet is unlocked with a wallet signature")
+
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`Passphrase must have at least ${MIN_PASSPHRASE_LENGTH} characters`)
+  }
+
+  const privateKey = (localStorage.getItem(BURNER_KEY_STORAGE) as Hex | null) ?? generatePrivateKey()
+  writeVault(await encryptKey(privateKey, passphrase))
+  // Only drops the plaintext copy once the encrypted one is stored
+  localStorage.removeItem(BURNER_KEY_STORAGE)
+  return privateKey
+}
+
+/**
+ * EIP-712 message the main wallet signs to derive its session key. Scoped by
+ * chain and contract so the same wallet gets a different key per deployment
+ */
+export function sessionKeyTypedData(chainId: number, contract: Address) {
+  return {
+    domain: { name: 'MonadMines', version: '1', chainId, verifyingContract: contract },
+    types: {
+      SessionKey: [
+        { name: 'purpose', type: 'string' },
+        { name: 'warning', type: 'string' }
+      ]
+    },
+    primaryType: 'SessionKey',
+    message: {
+      purpose: 'Derive my MonadMines game wallet',
+      warning: 'Only sign this on MonadMines: this signature controls your game wallet'
+    }
+  } as const
+}
+
+/**
+ * Turns the signature into a private key. Only stable if the wallet signs
+ * deterministically (RFC 6979), which EOA wallets do
+ */
+export function deriveSessionKey(signature: Hex): Hex {
+  let key = keccak256(signature)
+  // Practically unreachable, keeps the key inside the curve order
+  while (BigInt(key) === 0n || BigInt(key) >= SECP256K1_N) key = keccak256(key)
+  return key
+}
+
+/**
+ * Reads the derived key info, or null if the burner is not signature-derived
+ */
+export function readDerivedKey(): DerivedKeyInfo | null {
+  const raw = localStorage.getItem(DERIVED_KEY_STORAGE)
+  if (!raw) return null
+  try {
+    const parsed = JSON.parse(raw)
+    if (!parsed.address || !parsed.owner || !parsed.contract) return null
+    return parsed as DerivedKeyInfo
+  } catch {
+    return null
+  }
+}
+
+export function saveDerivedKey(info: DerivedKeyInfo): void {
+  localStorage.setItem(DERIVED_KEY_STORAGE, JSON.stringify(info))
+}
+
+/**
+ * Deletes the stored key (encrypted or not). Funds left on a random key become
+ * unreachable; a derived key can always be derived again
+ */
+export function clearVault(): void {
+  localStorage.removeItem(VAULT_STORAGE)
+  localStorage.removeItem(BURNER_KEY_STORAGE)
+  localStorage.removeItem(DERIVED_KEY_STORAGE)
+  clearRotation()
+}
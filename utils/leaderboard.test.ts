@@ -0,0 +1,180 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { type Address, type Hex, createPublicClient, createWalletClient, keccak256, parseEther, publicActions, toHex } from 'viem'
+import { monadTestnet } from 'viem/chains'
+import {
+  emptyAggregate,
+  extendAggregate,
+  fetchLeaderboard,
+  rankPlayers,
+  readAllTimeAggregate,
+  saveAllTimeAggregate
+} from './leaderboard'
+import { type PlayerEvents } from './history'
+import { createMonadMinesSimulator, SIMULATOR_ACCOUNT } from './simulator'
+import {
+  cashOut,
+  findEventInLogs,
+  getEntropyFee,
+  getGameInfo,
+  revealCell,
+  startGame,
+  type WriteContractAsync
+} from './contract'
+import { computeMineLayout, computeNonceCommit, deriveGameSeed } from './verify'
+
+const ALICE: Address = '0x1111111111111111111111111111111111111111'
+const BOB: Address = '0x2222222222222222222222222222222222222222'
+const BET = parseEther('0.1')
+
+const meta = (blockNumber: bigint) => ({ blockNumber, logIndex: 0, transactionHash: keccak256(toHex(blockNumber)) })
+
+function requested(gameId: bigint, player: Address): PlayerEvents['requested'][number] {
+  return { eventName: 'GameRequested', args: { gameId, player, nonceCommit: keccak256(toHex(gameId)) }, ...meta(gameId) }
+}
+
+function revealed(gameId: bigint, isMine = false): PlayerEvents['cellRevealed'][number] {
+  return { eventName: 'CellRevealed', args: { gameId, x: 0, y: 0, isMine, newPot: 0n }, ...meta(gameId + 1n) }
+}
+
+function over(gameId: bigint, player: Address, finalPayout: bigint): PlayerEvents['gameOver'][number] {
+  return { eventName: 'GameOver', args: { gameId, player, finalPayout, isWin: finalPayout > 0n }, ...meta(gameId + 2n) }
+}
+
+// Aggregates events scanned in one range
+const aggregate = (events: PlayerEvents, bets: Map<bigint, bigint>) =>
+  [...extendAggregate(emptyAggregate(1n), events, bets, 100n).stats.values()]
+
+function memoryStorage() {
+  const items = new Map<string, string>()
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+    removeItem: (key: string) => void items.delete(key)
+  }
+}
+
+describe('extendAggregate', () => {
+  it('sums the games of each player', () => {
+    const events: PlayerEvents = {
+      requested: [requested(1n, ALICE), requested(2n, ALICE), requested(3n, BOB)],
+      cellRevealed: [revealed(1n), revealed(1n), revealed(2n), revealed(2n, true), revealed(3n)],
+      gameOver: [over(1n, ALICE, parseEther('0.15')), over(2n, ALICE, 0n), over(3n, BOB, parseEther('0.12'))]
+    }
+    const stats = aggregate(events, new Map([[1n, BET], [2n, BET], [3n, BET]]))
+    expect(stats.find(entry => entry.player === ALICE)).toEqual({
+      player: ALICE,
+      games: 2,
+      wins: 1,
+      totalPayout: parseEther('0.15'),
+      biggestWin: parseEther('0.15'),
+      longestStreak: 2,
+      totalBet: parseEther('0.2'),
+      netProfit: parseEther('-0.05')
+    })
+    expect(rankPlayers(stats, 'netProfit').map(entry => entry.player)).toEqual([BOB, ALICE])
+  })
+
+  it('leaves out games started before the scanned range', () => {
+    // Game 1 started earlier: only its last reveal and GameOver were scanned
+    const events: PlayerEvents = {
+      requested: [requested(2n, ALICE)],
+      cellRevealed: [revealed(1n), revealed(2n)],
+      gameOver: [over(1n, ALICE, parseEther('1')), over(2n, ALICE, 0n)]
+    }
+    expect(aggregate(events, new Map([[2n, BET]]))).toEqual([{
+      player: ALICE,
+      games: 1,
+      wins: 0,
+      totalPayout: 0n,
+      biggestWin: 0n,
+      longestStreak: 1,
+      totalBet: BET,
+      netProfit: -BET
+    }])
+  })
+
+  it('fails when the bet of a counted game is missing', () => {
+    const events: PlayerEvents = { requested: [requested(1n, BOB)], cellRevealed: [], gameOver: [over(1n, BOB, 0n)] }
+    expect(() => aggregate(events, new Map())).toThrow("Couldn't read the bet of game 1")
+  })
+
+  it('carries games still open at the end of a range into the next one', () => {
+    const first = extendAggregate(emptyAggregate(1n), {
+      requested: [requested(1n, ALICE)],
+      cellRevealed: [revealed(1n)],
+      gameOver: []
+    }, new Map(), 50n)
+    expect(first.stats.size).toBe(0)
+    expect(first.openGames.get(1n)).toEqual({ startBlock: 1n, safeReveals: 1 })
+
+    const second = extendAggregate(first, {
+      requested: [],
+      cellRevealed: [revealed(1n)],
+      gameOver: [over(1n, ALICE, parseEther('0.2'))]
+    }, new Map([[1n, BET]]), 100n)
+    expect(second.openGames.size).toBe(0)
+    expect([...second.stats.values()]).toEqual([expect.objectContaining({ longestStreak: 2, netProfit: BET })])
+    // The first aggregate is left as it was
+    expect(first.openGames.size).toBe(1)
+  })
+})
+
+describe('all-time aggregate', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('persists the aggregate with bigints', () => {
+    vi.stubGlobal('localStorage', memoryStorage())
+    expect(readAllTimeAggregate()).toBeNull()
+    const saved = extendAggregate(emptyAggregate(1n), {
+      requested: [requested(1n, ALICE), requested(2n, BOB)],
+      cellRevealed: [revealed(2n)],
+      gameOver: [over(1n, ALICE, parseEther('0.3'))]
+    }, new Map([[1n, BET]]), 10n)
+    saveAllTimeAggregate(saved)
+    expect(readAllTimeAggregate()).toEqual(saved)
+  })
+
+  it('scans from the deploy block once, then only new blocks (simulator)', async () => {
+    vi.stubGlobal('localStorage', memoryStorage())
+    const sim = createMonadMinesSimulator({ entropyDelayMs: null, randomSeed: keccak256(toHex('leaderboard')) })
+    const publicClient = createPublicClient({ chain: monadTestnet, transport: sim.transport, pollingInterval: 10 })
+    const client = createWalletClient({ chain: monadTestnet, account: SIMULATOR_ACCOUNT, transport: sim.transport, pollingInterval: 10 })
+      .extend(publicActions)
+    const writeContractAsync = ((args: Parameters<typeof client.writeContract>[0]) =>
+      client.writeContract(args)) as unknown as WriteContractAsync
+    const send = async (hash: Promise<Hex>) => publicClient.waitForTransactionReceipt({ hash: await hash })
+
+    // Plays a game with one safe reveal, then cashes out
+    const nonce = keccak256(toHex('leaderboard nonce'))
+    const play = async () => {
+      const fee = await getEntropyFee(publicClient)
+      const started = await send(startGame(writeContractAsync, computeNonceCommit(nonce), fee + BET))
+      const gameId = findEventInLogs(started.logs, 'GameRequested')!.parsed.args.gameId
+      sim.fulfillEntropy(gameId)
+      const { pythSeed } = await getGameInfo(publicClient, gameId)
+      const layout = computeMineLayout(deriveGameSeed(pythSeed, nonce, SIMULATOR_ACCOUNT), 2000n)
+      const y = layout.findIndex(row => row.includes(false))
+      await send(revealCell(client, gameId, layout[y].indexOf(false), y, nonce))
+      await send(cashOut(client, gameId))
+    }
+
+    await play()
+    const progress = vi.fn()
+    expect(await fetchLeaderboard(publicClient, 'all', progress)).toEqual([
+      expect.objectContaining({ player: SIMULATOR_ACCOUNT, games: 1, wins: 1, longestStreak: 1, totalBet: BET })
+    ])
+    expect(progress).toHaveBeenCalled()
+    const scannedTo = readAllTimeAggregate()!.toBlock
+    expect(scannedTo).toBe(await publicClient.getBlockNumber())
+
+    await play()
+    const getLogs = vi.spyOn(publicClient, 'getLogs')
+    expect(await fetchLeaderboard(publicClient, 'all')).toEqual([expect.objectContaining({ games: 2, wins: 2 })])
+    expect(getLogs).toHaveBeenCalled()
+    for (const [args] of getLogs.mock.calls) {
+      expect((args as { fromBlock: bigint }).fromBlock).toBeGreaterThan(scannedTo)
+    }
+  })
+})
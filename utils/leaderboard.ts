@@ -0,0 +1,275 @@
+// utils/leaderboard.ts
+// Aggregates GameRequested, CellRevealed and GameOver logs of every player into rankings
+
+import { type Address, type PublicClient } from 'viem'
+import { findFirstBlock, getContractLogs } from './contract'
+import { ACTIVE_CHAIN, CONTRACT_ADDRESS, CONTRACT_DEPLOY_BLOCK } from './constants'
+import { decodeLogs, fetchBets, type PlayerEvents } from './history'
+
+export type LeaderboardWindow = 'daily' | 'weekly' | 'all'
+export type LeaderboardMetric = 'totalPayout' | 'biggestWin' | 'longestStreak' | 'netProfit'
+
+// Length of the rolling windows in seconds (all-time starts at the deploy block)
+const WINDOW_SECONDS: Record<Exclude<LeaderboardWindow, 'all'>, number> = {
+  daily: 24 * 60 * 60,
+  weekly: 7 * 24 * 60 * 60
+}
+
+// Block time of chains that don't declare one (Monad's)
+const DEFAULT_BLOCK_TIME_MS = 400
+
+// Blocks scanned between two saves of the all-time aggregate, so a long first scan resumes
+// where it stopped after a reload
+export const ALL_TIME_SEGMENT_BLOCKS = 50_000n
+
+// localStorage keys, suffixed with the chain ID and contract address
+const DEPLOY_BLOCK_STORAGE = "monad_deploy_block"
+const ALL_TIME_STORAGE = "monad_leaderboard_all_time"
+
+export type PlayerStats = {
+  player: Address
+  games: number
+  wins: number
+  totalPayout: bigint
+  biggestWin: bigint
+  // Most safe cells revealed in a single game
+  longestStreak: number
+  totalBet: bigint
+  netProfit: bigint
+}
+
+// A game whose start was scanned but not its end yet
+export type OpenGame = {
+  startBlock: bigint
+  safeReveals: number
+}
+
+// Stats of the games played in a block range, extended as new ranges are scanned
+export type LeaderboardAggregate = {
+  // Last scanned block
+  toBlock: bigint
+  // Keyed by lowercase player address
+  stats: Map<string, PlayerStats>
+  openGames: Map<bigint, OpenGame>
+}
+
+/**
+ * Aggregate of nothing yet, scanning from fromBlock
+ */
+export function emptyAggregate(fromBlock: bigint): LeaderboardAggregate {
+  return { toBlock: fromBlock - 1n, stats: new Map(), openGames: new Map() }
+}
+
+/**
+ * First block of a rolling window, estimated from the chain block time
+ */
+export function windowStartBlock(window: Exclude<LeaderboardWindow, 'all'>, latestBlock: bigint): bigint {
+  const blocks = BigInt(Math.ceil((WINDOW_SECONDS[window] * 1000) / (ACTIVE_CHAIN.blockTime ?? DEFAULT_BLOCK_TIME_MS)))
+  const start = latestBlock - blocks + 1n
+  return start > CONTRACT_DEPLOY_BLOCK ? start : CONTRACT_DEPLOY_BLOCK
+}
+
+const storageSuffix = () => `${ACTIVE_CHAIN.id}_${CONTRACT_ADDRESS.toLowerCase()}`
+
+/**
+ * Block where the contract was deployed: CONTRACT_DEPLOY_BLOCK when configured, else found by
+ * binary search on its code (needs an RPC that serves historical state) and kept in localStorage
+ */
+export async function findDeployBlock(
+  publicClient: Pick<PublicClient, 'getCode'>,
+  latestBlock: bigint
+): Promise<bigint> {
+  if (CONTRACT_DEPLOY_BLOCK > 0n) return CONTRACT_DEPLOY_BLOCK
+  const key = `${DEPLOY_BLOCK_STORAGE}_${storageSuffix()}`
+  const stored = localStorage.getItem(key)
+  if (stored && /^\d+$/.test(stored)) return BigInt(stored)
+
+  const deployBlock = await findFirstBlock(0n, latestBlock, async blockNumber =>
+    (await publicClient.getCode({ address: CONTRACT_ADDRESS, blockNumber })) !== undefined
+  )
+  if (deployBlock === null) throw new Error(`No contract at ${CONTRACT_ADDRESS}`)
+  localStorage.setItem(key, deployBlock.toString())
+  return deployBlock
+}
+
+/**
+ * Scans every player's game events in a block range
+ */
+export async function scanAllEvents(
+  publicClient: PublicClient,
+  fromBlock: bigint,
+  toBlock: bigint
+): Promise<PlayerEvents> {
+  const requested = decodeLogs(
+    await getContractLogs(publicClient, 'GameRequested', undefined, fromBlock, toBlock),
+    'GameRequested'
+  )
+  const cellRevealed = decodeLogs(
+    await getContractLogs(publicClient, 'CellRevealed', undefined, fromBlock, toBlock),
+    'CellRevealed'
+  )
+  const gameOver = decodeLogs(
+    await getContractLogs(publicClient, 'GameOver', undefined, fromBlock, toBlock),
+    'GameOver'
+  )
+  return { requested, cellRevealed, gameOver }
+}
+
+/**
+ * Adds the events of the next block range to an aggregate. Only games whose start is in the
+ * aggregate count: a game started before it is left out of every metric, since its bet and
+ * earlier reveals weren't scanned
+ * @param aggregate - Aggregate up to the block before the range (not modified)
+ * @param events - Events of every player in the range
+ * @param bets - Bet per game ID (see fetchBets), required for every game finished in the range
+ * @param toBlock - Last block of the range
+ */
+export function extendAggregate(
+  aggregate: LeaderboardAggregate,
+  events: PlayerEvents,
+  bets: Map<bigint, bigint>,
+  toBlock: bigint
+): LeaderboardAggregate {
+  const stats = new Map([...aggregate.stats].map(([key, entry]) => [key, { ...entry }]))
+  const openGames = new Map([...aggregate.openGames].map(([gameId, game]) => [gameId, { ...game }]))
+
+  for (const event of events.requested) {
+    openGames.set(event.args.gameId, { startBlock: event.blockNumber, safeReveals: 0 })
+  }
+  for (const event of events.cellRevealed) {
+    const game = openGames.get(event.args.gameId)
+    if (game && !event.args.isMine) game.safeReveals++
+  }
+
+  for (const over of events.gameOver) {
+    const { gameId, player, finalPayout, isWin } = over.args
+    const game = openGames.get(gameId)
+    if (!game) continue
+    openGames.delete(gameId)
+    const bet = bets.get(gameId)
+    // Fails rather than skewing the totals
+    if (bet === undefined) throw new Error(`Couldn't read the bet of game ${gameId}`)
+
+    const key = player.toLowerCase()
+    const entry = stats.get(key) ?? {
+      player,
+      games: 0,
+      wins: 0,
+      totalPayout: 0n,
+      biggestWin: 0n,
+      longestStreak: 0,
+      totalBet: 0n,
+      netProfit: 0n
+    }
+
+    entry.games++
+    if (isWin) entry.wins++
+    entry.totalPayout += finalPayout
+    if (finalPayout > entry.biggestWin) entry.biggestWin = finalPayout
+    entry.longestStreak = Math.max(entry.longestStreak, game.safeReveals)
+    entry.totalBet += bet
+    entry.netProfit += finalPayout - bet
+
+    stats.set(key, entry)
+  }
+
+  return { toBlock, stats, openGames }
+}
+
+// Scans a block range and adds it to the aggregate
+async function scanRange(
+  publicClient: PublicClient,
+  aggregate: LeaderboardAggregate,
+  toBlock: bigint
+): Promise<LeaderboardAggregate> {
+  const events = await scanAllEvents(publicClient, aggregate.toBlock + 1n, toBlock)
+
+  // Only reads bets of the games that are counted
+  const starts = new Map([...aggregate.openGames].map(([gameId, game]) => [gameId, game.startBlock]))
+  for (const event of events.requested) starts.set(event.args.gameId, event.blockNumber)
+  const counted = events.gameOver
+    .filter(event => starts.has(event.args.gameId))
+    .map(event => ({ args: { gameId: event.args.gameId }, blockNumber: starts.get(event.args.gameId)! }))
+  const bets = await fetchBets(publicClient, counted)
+
+  return extendAggregate(aggregate, events, bets, toBlock)
+}
+
+/**
+ * Reads the saved all-time aggregate, or null if missing or corrupted
+ */
+export function readAllTimeAggregate(): LeaderboardAggregate | null {
+  const raw = localStorage.getItem(`${ALL_TIME_STORAGE}_${storageSuffix()}`)
+  if (!raw) return null
+  try {
+    const parsed = JSON.parse(raw)
+    return {
+      toBlock: BigInt(parsed.toBlock),
+      stats: new Map((parsed.stats as PlayerStats[]).map(entry => [entry.player.toLowerCase(), {
+        ...entry,
+        totalPayout: BigInt(entry.totalPayout),
+        biggestWin: BigInt(entry.biggestWin),
+        totalBet: BigInt(entry.totalBet),
+        netProfit: BigInt(entry.netProfit)
+      }])),
+      openGames: new Map((parsed.openGames as Array<[string, OpenGame]>).map(([gameId, game]) => [
+        BigInt(gameId),
+        { startBlock: BigInt(game.startBlock), safeReveals: game.safeReveals }
+      ]))
+    }
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Saves the all-time aggregate in localStorage
+ */
+export function saveAllTimeAggregate(aggregate: LeaderboardAggregate): void {
+  const data = {
+    toBlock: aggregate.toBlock,
+    stats: [...aggregate.stats.values()],
+    openGames: [...aggregate.openGames]
+  }
+  localStorage.setItem(`${ALL_TIME_STORAGE}_${storageSuffix()}`, JSON.stringify(data, (_, value) =>
+    typeof value === 'bigint' ? value.toString() : value
+  ))
+}
+
+/**
+ * Sorts players by a metric, highest first
+ */
+export function rankPlayers(stats: PlayerStats[], metric: LeaderboardMetric): PlayerStats[] {
+  return [...stats].sort((a, b) => {
+    const av = a[metric]
+    const bv = b[metric]
+    return av > bv ? -1 : av < bv ? 1 : 0
+  })
+}
+
+/**
+ * Loads the stats of every player for a time window. All-time scans from the deploy block
+ * once, then only the blocks added since the saved aggregate
+ * @param onProgress - Called with the scanned and total block counts while all-time scans
+ */
+export async function fetchLeaderboard(
+  publicClient: PublicClient,
+  window: LeaderboardWindow,
+  onProgress?: (scanned: bigint, total: bigint) => void
+): Promise<PlayerStats[]> {
+  const latestBlock = await publicClient.getBlockNumber()
+  if (window !== 'all') {
+    const aggregate = await scanRange(publicClient, emptyAggregate(windowStartBlock(window, latestBlock)), latestBlock)
+    return [...aggregate.stats.values()]
+  }
+
+  const deployBlock = await findDeployBlock(publicClient, latestBlock)
+  let aggregate = readAllTimeAggregate() ?? emptyAggregate(deployBlock)
+  while (aggregate.toBlock < latestBlock) {
+    const end = aggregate.toBlock + ALL_TIME_SEGMENT_BLOCKS
+    aggregate = await scanRange(publicClient, aggregate, end < latestBlock ? end : latestBlock)
+    saveAllTimeAggregate(aggregate)
+    onProgress?.(aggregate.toBlock - deployBlock + 1n, latestBlock - deployBlock + 1n)
+  }
+  return [...aggregate.stats.values()]
+}
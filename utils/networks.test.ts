@@ -0,0 +1,47 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { monad, monadTestnet } from 'viem/chains'
+import {
+  NETWORKS,
+  NETWORK_STORAGE,
+  monadDevnet,
+  isDeployed,
+  resolveNetwork,
+  readSelectedChainId,
+  saveSelectedChainId
+} from './networks'
+
+describe('resolveNetwork', () => {
+  it('registers testnet, mainnet and devnet by chain id', () => {
+    expect(Object.keys(NETWORKS).map(Number).sort((a, b) => a - b)).toEqual([monad.id, monadTestnet.id, monadDevnet.id])
+    expect(isDeployed(NETWORKS[monadTestnet.id])).toBe(true)
+    expect(isDeployed(NETWORKS[monad.id])).toBe(false)
+  })
+
+  it('falls back to the default network for unknown or undeployed chains', () => {
+    expect(resolveNetwork(null).chain.id).toBe(monadTestnet.id)
+    expect(resolveNetwork(monadTestnet.id).contracts.mines).toBe(NETWORKS[monadTestnet.id].contracts!.mines)
+    expect(resolveNetwork(monad.id).chain.id).toBe(monadTestnet.id)
+    expect(resolveNetwork(1).chain.id).toBe(monadTestnet.id)
+  })
+})
+
+describe('selected network', () => {
+  beforeEach(() => {
+    const items = new Map<string, string>()
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => items.get(key) ?? null,
+      setItem: (key: string, value: string) => void items.set(key, value),
+      removeItem: (key: string) => void items.delete(key)
+    })
+  })
+
+  it('round-trips the chain id and ignores invalid values', () => {
+    expect(readSelectedChainId()).toBeNull()
+
+    saveSelectedChainId(monadDevnet.id)
+    expect(readSelectedChainId()).toBe(monadDevnet.id)
+
+    localStorage.setItem(NETWORK_STORAGE, 'mainnet')
+    expect(readSelectedChainId()).toBeNull()
+  })
+})
@@ -0,0 +1,131 @@
+// utils/networks.ts
+// Network registry keyed by chain id: MonadMines and Entropy addresses, RPC endpoints and
+// explorer of every chain the app knows. The active network is picked once per page load
+// (switching saves the choice and reloads), so addresses can stay module-level constants
+
+import { type Address, type Chain, defineChain } from 'viem'
+import { monad, monadTestnet } from 'viem/chains'
+
+export const NETWORK_STORAGE = "monad_network"
+
+export type NetworkContracts = {
+  mines: Address
+  entropy: Address
+  // Block where mines was deployed (lower bound for all-time log scans)
+  deployBlock: bigint
+}
+
+export type Network = {
+  chain: Chain
+  rpcUrl: string
+  // Enables event subscriptions (undefined = game sync polls over rpcUrl)
+  wsUrl?: string
+  // undefined on chains without a public explorer
+  explorerUrl?: string
+  // null until MonadMines is deployed on the chain
+  contracts: NetworkContracts | null
+}
+
+export type DeployedNetwork = Network & { contracts: NetworkContracts }
+
+// Local anvil node (`npm run devnet` deploys the contracts and writes their addresses to .env.local)
+export const monadDevnet = defineChain({
+  id: 31337,
+  name: 'Monad Devnet',
+  blockTime: monadTestnet.blockTime,
+  nativeCurrency: monadTestnet.nativeCurrency,
+  rpcUrls: {
+    default: {
+      http: ['http://127.0.0.1:8545'],
+      webSocket: ['ws://127.0.0.1:8545']
+    }
+  },
+  testnet: true
+})
+
+// Network of NEXT_PUBLIC_CHAIN_ID; the other NEXT_PUBLIC_* overrides (written by `npm run devnet`) apply to it
+const ENV_CHAIN_ID = Number(process.env.NEXT_PUBLIC_CHAIN_ID ?? monadTestnet.id)
+
+function withEnvOverrides(network: Network): Network {
+  const mines = (process.env.NEXT_PUBLIC_CONTRACT_ADDRESS as Address | undefined) ?? network.contracts?.mines
+  const entropy = (process.env.NEXT_PUBLIC_ENTROPY_ADDRESS as Address | undefined) ?? network.contracts?.entropy
+  const deployBlock = process.env.NEXT_PUBLIC_CONTRACT_DEPLOY_BLOCK
+  return {
+    ...network,
+    rpcUrl: process.env.NEXT_PUBLIC_RPC_URL ?? network.rpcUrl,
+    wsUrl: process.env.NEXT_PUBLIC_RPC_WS_URL ?? network.wsUrl,
+    contracts: mines && entropy
+      ? { mines, entropy, deployBlock: deployBlock !== undefined ? BigInt(deployBlock) : network.contracts?.deployBlock ?? 0n }
+      : null
+  }
+}
+
+const REGISTRY: Network[] = [
+  {
+    chain: monadTestnet,
+    rpcUrl: monadTestnet.rpcUrls.default.http[0],
+    explorerUrl: monadTestnet.blockExplorers.default.url,
+    contracts: {
+      mines: "0xb622C9Ad048C61bFe11810baa94d51FcFCa65415",
+      entropy: "0x825c0390f379c631f3cf11a82a37d20bddf93c07",
+      // Not recorded for this deployment (NEXT_PUBLIC_CONTRACT_DEPLOY_BLOCK sets it); the
+      // all-time leaderboard looks it up on-chain
+      deployBlock: 0n
+    }
+  },
+  {
+    chain: monad,
+    rpcUrl: monad.rpcUrls.default.http[0],
+    wsUrl: monad.rpcUrls.default.webSocket[0],
+    explorerUrl: monad.blockExplorers.default.url,
+    contracts: null
+  },
+  {
+    chain: monadDevnet,
+    rpcUrl: monadDevnet.rpcUrls.default.http[0],
+    wsUrl: monadDevnet.rpcUrls.default.webSocket[0],
+    contracts: null
+  }
+]
+
+export const NETWORKS: Record<number, Network> = Object.fromEntries(REGISTRY.map(network =>
+  [network.chain.id, network.chain.id === ENV_CHAIN_ID ? withEnvOverrides(network) : network]
+))
+
+/**
+ * Checks if MonadMines is deployed on a network
+ */
+export function isDeployed(network: Network | undefined): network is DeployedNetwork {
+  return network?.contracts != null
+}
+
+/**
+ * Network to use for a chain id: the requested one when deployed, else the env default,
+ * else Monad testnet
+ */
+export function resolveNetwork(chainId: number | null): DeployedNetwork {
+  const requested = chainId !== null ? NETWORKS[chainId] : undefined
+  if (isDeployed(requested)) return requested
+  const fallback = NETWORKS[ENV_CHAIN_ID]
+  return isDeployed(fallback) ? fallback : NETWORKS[monadTestnet.id] as DeployedNetwork
+}
+
+/**
+ * Reads the chain id picked in the network switcher (null if none)
+ */
+export function readSelectedChainId(): number | null {
+  const raw = localStorage.getItem(NETWORK_STORAGE)
+  const chainId = raw === null ? NaN : Number(raw)
+  return Number.isInteger(chainId) ? chainId : null
+}
+
+/**
+ * Saves the network picked in the switcher; it becomes active on the next page load
+ */
+export function saveSelectedChainId(chainId: number): void {
+  localStorage.setItem(NETWORK_STORAGE, String(chainId))
+}
+
+// Server renders always use the env default (the selection lives in localStorage), which is why
+// the app only renders after mount (see app/providers.tsx)
+export const ACTIVE_NETWORK: DeployedNetwork = resolveNetwork(typeof window === 'undefined' ? null : readSelectedChainId())
@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest'
+import { createPublicClient, createWalletClient } from 'viem'
+import { monadTestnet } from 'viem/chains'
+import { createMonadMinesSimulator, SIMULATOR_ACCOUNT } from './simulator'
+import {
+  executeMineProbabilityChange,
+  getGameParameters,
+  getParamChangeDelay,
+  getParameterBounds,
+  proposeMineProbabilityChange,
+  type WriteContractAsync
+} from './contract'
+import {
+  checkParameterBounds,
+  formatCountdown,
+  formatMultiplier,
+  formatParameter,
+  formatProbability,
+  parseParameterInput,
+  pendingChanges,
+  scanParameterEvents
+} from './parameters'
+
+describe('formatting', () => {
+  it('formats base 10000 values', () => {
+    expect(formatMultiplier(12000n)).toBe('1.20')
+    expect(formatMultiplier(15500n)).toBe('1.55')
+    expect(formatProbability(2000n)).toBe('20%')
+    expect(formatProbability(1250n)).toBe('12.5%')
+    expect(formatParameter('MINE_PROBABILITY', 100n)).toBe('1%')
+    expect(formatParameter('REWARD_MULTIPLIER', 10000n)).toBe('1.00x')
+  })
+
+  it('counts down to the change time', () => {
+    const now = 1_700_000_000_000
+    const at = (seconds: number) => BigInt(now / 1000 + seconds)
+    expect(formatCountdown(at(86400 + 2 * 3600 + 5 * 60 + 30), now)).toBe('1d 02h 05m')
+    expect(formatCountdown(at(3 * 3600 + 7), now)).toBe('3h 00m 07s')
+    expect(formatCountdown(at(4 * 60 + 9), now)).toBe('04m 09s')
+    expect(formatCountdown(at(0), now)).toBeNull()
+  })
+})
+
+describe('pendingChanges', () => {
+  it('lists proposed changes soonest first', () => {
+    const params = {
+      mineProbability: 2000n,
+      rewardMultiplier: 12000n,
+      pendingMineProbability: { newValue: 2500n, changeTime: 200n },
+      pendingRewardMultiplier: { newValue: 13000n, changeTime: 100n }
+    }
+    expect(pendingChanges(params)).toEqual([
+      { parameter: 'REWARD_MULTIPLIER', currentValue: 12000n, newValue: 13000n, changeTime: 100n },
+      { parameter: 'MINE_PROBABILITY', currentValue: 2000n, newValue: 2500n, changeTime: 200n }
+    ])
+    expect(pendingChanges({ ...params, pendingMineProbability: null, pendingRewardMultiplier: null })).toEqual([])
+  })
+})
+
+describe('proposal inputs', () => {
+  const bounds = { minMineProbability: 100n, maxMineProbability: 5000n, minRewardMultiplier: 10000n, maxRewardMultiplier: 20000n }
+
+  it('parses display units into base 10000', () => {
+    expect(parseParameterInput('MINE_PROBABILITY', '25')).toBe(2500n)
+    expect(parseParameterInput('MINE_PROBABILITY', ' 12.5 ')).toBe(1250n)
+    expect(parseParameterInput('REWARD_MULTIPLIER', '1.2')).toBe(12000n)
+    expect(parseParameterInput('REWARD_MULTIPLIER', '1.00005')).toBeNull()
+    expect(parseParameterInput('MINE_PROBABILITY', '-5')).toBeNull()
+    expect(parseParameterInput('MINE_PROBABILITY', 'abc')).toBeNull()
+  })
+
+  it('rejects values outside the contract bounds', () => {
+    expect(checkParameterBounds('MINE_PROBABILITY', 2500n, bounds)).toBeNull()
+    expect(checkParameterBounds('MINE_PROBABILITY', 6000n, bounds)).toBe('Must be between 1% and 50%')
+    expect(checkParameterBounds('REWARD_MULTIPLIER', 9999n, bounds)).toBe('Must be between 1.00x and 2.00x')
+  })
+})
+
+describe('timelocked changes (simulator)', () => {
+  it('proposes, waits out the timelock and executes a change', async () => {
+    const sim = createMonadMinesSimulator({ entropyDelayMs: null, startTimestamp: 1_700_000_000n })
+    const publicClient = createPublicClient({ chain: monadTestnet, transport: sim.transport, pollingInterval: 10 })
+    const ownerClient = createWalletClient({ chain: monadTestnet, account: SIMULATOR_ACCOUNT, transport: sim.transport })
+    const writeContractAsync = ((args: Parameters<typeof ownerClient.writeContract>[0]) =>
+      ownerClient.writeContract(args)) as unknown as WriteContractAsync
+
+    const bounds = await getParameterBounds(publicClient)
+    expect(checkParameterBounds('MINE_PROBABILITY', 2500n, bounds)).toBeNull()
+    const delay = await getParamChangeDelay(publicClient)
+
+    const proposed = await publicClient.waitForTransactionReceipt({
+      hash: await proposeMineProbabilityChange(writeContractAsync, 2500n)
+    })
+    const { timestamp } = await publicClient.getBlock({ blockNumber: proposed.blockNumber })
+    const before = await getGameParameters(publicClient)
+    expect(before.pendingMineProbability).toEqual({ newValue: 2500n, changeTime: timestamp + delay })
+    expect(before.pendingRewardMultiplier).toBeNull()
+
+    // Still timelocked
+    await expect(executeMineProbabilityChange(writeContractAsync)).rejects.toThrow('Timelock not expired')
+
+    sim.increaseTime(delay)
+    await publicClient.waitForTransactionReceipt({ hash: await executeMineProbabilityChange(writeContractAsync) })
+    const after = await getGameParameters(publicClient)
+    expect(after.mineProbability).toBe(2500n)
+    expect(after.pendingMineProbability).toBeNull()
+
+    const timeline = await scanParameterEvents(publicClient, 0n, await publicClient.getBlockNumber())
+    expect(timeline.map(event => [event.eventName, event.args.parameter, event.args.newValue])).toEqual([
+      ['ParameterChanged', 'MINE_PROBABILITY', 2500n],
+      ['ParameterChangeProposed', 'MINE_PROBABILITY', 2500n]
+    ])
+  })
+})
@@ -0,0 +1,129 @@
+// utils/parameters.ts
+// Live game parameters and their timelocked changes (the owner proposes a value, which can
+// only be executed once PARAM_CHANGE_DELAY has passed): display and input helpers, bounds
+// checks and the timeline of past changes
+
+import { type PublicClient, parseUnits } from 'viem'
+import {
+  getContractLogs,
+  type GameParameters,
+  type ParameterBounds,
+  type ParameterChangeProposedEvent,
+  type ParameterChangedEvent
+} from './contract'
+import { decodeLogs, type LogMeta } from './history'
+import { sortEvents } from './gameSync'
+import { PROBABILITY_BASE } from './verify'
+
+export type ParameterName = 'MINE_PROBABILITY' | 'REWARD_MULTIPLIER'
+
+export type PendingChange = {
+  parameter: ParameterName
+  currentValue: bigint
+  newValue: bigint
+  // Unix timestamp (seconds) from which the change can be executed
+  changeTime: bigint
+}
+
+/**
+ * Formats a base 10000 multiplier (12000 -> "1.20")
+ */
+export function formatMultiplier(multiplier: bigint): string {
+  return (Number(multiplier) / Number(PROBABILITY_BASE)).toFixed(2)
+}
+
+/**
+ * Formats a base 10000 probability without trailing zeros (2000 -> "20%", 1250 -> "12.5%")
+ */
+export function formatProbability(probability: bigint): string {
+  return `${Number(((Number(probability) * 100) / Number(PROBABILITY_BASE)).toFixed(2))}%`
+}
+
+/**
+ * Formats a parameter value for display
+ */
+export function formatParameter(parameter: ParameterName, value: bigint): string {
+  return parameter === 'MINE_PROBABILITY' ? formatProbability(value) : `${formatMultiplier(value)}x`
+}
+
+/**
+ * Lists the pending changes, soonest first
+ */
+export function pendingChanges(params: GameParameters): PendingChange[] {
+  const changes: PendingChange[] = []
+  if (params.pendingMineProbability) {
+    changes.push({ parameter: 'MINE_PROBABILITY', currentValue: params.mineProbability, ...params.pendingMineProbability })
+  }
+  if (params.pendingRewardMultiplier) {
+    changes.push({ parameter: 'REWARD_MULTIPLIER', currentValue: params.rewardMultiplier, ...params.pendingRewardMultiplier })
+  }
+  return changes.sort((a, b) => (a.changeTime < b.changeTime ? -1 : a.changeTime > b.changeTime ? 1 : 0))
+}
+
+/**
+ * Parses a value typed in display units (percent for MINE_PROBABILITY, multiplier for
+ * REWARD_MULTIPLIER) into base 10000; null if it isn't a number or has too many decimals
+ */
+export function parseParameterInput(parameter: ParameterName, input: string): bigint | null {
+  const trimmed = input.trim()
+  if (!/^\d+(\.\d+)?$/.test(trimmed)) return null
+  // Base 10000: 2 decimals for percents, 4 for multipliers
+  const decimals = parameter === 'MINE_PROBABILITY' ? 2 : 4
+  if ((trimmed.split('.')[1]?.length ?? 0) > decimals) return null
+  return parseUnits(trimmed, decimals)
+}
+
+/**
+ * Checks a proposed value against the contract bounds; returns the error to show, or null
+ */
+export function checkParameterBounds(parameter: ParameterName, value: bigint, bounds: ParameterBounds): string | null {
+  const [min, max] = parameter === 'MINE_PROBABILITY'
+    ? [bounds.minMineProbability, bounds.maxMineProbability]
+    : [bounds.minRewardMultiplier, bounds.maxRewardMultiplier]
+  if (value < min || value > max) {
+    return `Must be between ${formatParameter(parameter, min)} and ${formatParameter(parameter, max)}`
+  }
+  return null
+}
+
+/**
+ * Formats the time left until a timelock expires ("1d 02h 05m", "04m 09s"); null once expired
+ * @param changeTime - Unix timestamp (seconds) of the expiry
+ * @param now - Current time in milliseconds
+ */
+export function formatCountdown(changeTime: bigint, now: number): string | null {
+  const left = Number(changeTime) - Math.floor(now / 1000)
+  if (left <= 0) return null
+  const days = Math.floor(left / 86400)
+  const hours = Math.floor((left % 86400) / 3600)
+  const minutes = Math.floor((left % 3600) / 60)
+  const seconds = left % 60
+  const pad = (value: number) => value.toString().padStart(2, '0')
+  if (days > 0) return `${days}d ${pad(hours)}h ${pad(minutes)}m`
+  if (hours > 0) return `${hours}h ${pad(minutes)}m ${pad(seconds)}s`
+  return `${pad(minutes)}m ${pad(seconds)}s`
+}
+
+// ============ CHANGE TIMELINE ============
+
+export type ParameterEvent = (ParameterChangeProposedEvent | ParameterChangedEvent) & LogMeta
+
+/**
+ * Scans one block range for proposed and executed parameter changes, newest first
+ * Note: cancelPendingChange emits no event, so a cancelled proposal is never followed by ParameterChanged
+ */
+export async function scanParameterEvents(
+  publicClient: Pick<PublicClient, 'getLogs'>,
+  fromBlock: bigint,
+  toBlock: bigint
+): Promise<ParameterEvent[]> {
+  const proposed = decodeLogs(
+    await getContractLogs(publicClient, 'ParameterChangeProposed', undefined, fromBlock, toBlock),
+    'ParameterChangeProposed'
+  )
+  const executed = decodeLogs(
+    await getContractLogs(publicClient, 'ParameterChanged', undefined, fromBlock, toBlock),
+    'ParameterChanged'
+  )
+  return sortEvents<ParameterEvent>([...proposed, ...executed]).reverse()
+}
@@ -0,0 +1,85 @@
+// utils/recovery.ts
+// Finds games that were still in progress when the page was closed or reloaded
+
+import { type PublicClient } from 'viem'
+import { getGameInfo, getRevealedSafeCells, ZERO_BYTES32, type GameInfo } from './contract'
+import { cellIndex, countRevealedCells } from './board'
+import { listStoredGames, removeStoredGame, type StoredGame } from './gameStorage'
+
+export type RecoverableStatus = "waiting_pyth" | "waiting_nonce" | "playing"
+
+export type RecoverableGame = {
+  stored: StoredGame
+  info: GameInfo
+  status: RecoverableStatus
+  revealedMask: bigint
+  revealedCount: number
+}
+
+/**
+ * Maps on-chain game data to the UI status it should resume in
+ */
+export function recoverableStatus(info: GameInfo): RecoverableStatus {
+  if (info.pythSeed === ZERO_BYTES32) return "waiting_pyth"
+  if (!info.nonceRevealed) return "waiting_nonce"
+  return "playing"
+}
+
+/**
+ * Scans stored game records and returns the ones still active for the player
+ * Records of the player's finished or lost games are removed from storage (other players' records are kept)
+ * @param publicClient - Client used for reads
+ * @param player - Connected main wallet address
+ */
+export async function findRecoverableGames(
+  publicClient: PublicClient,
+  player: string
+): Promise<RecoverableGame[]> {
+  const recoverable: RecoverableGame[] = []
+
+  for (const stored of listStoredGames()) {
+    let info: GameInfo
+    try {
+      info = await getGameInfo(publicClient, stored.gameId)
+    } catch (e) {
+      // RPC error: keeps the record, it may be recoverable on next load
+      console.error(`Error reading game ${stored.gameId}:`, e)
+      continue
+    }
+
+    // Records of other players stay untouched (another account may use this browser)
+    if (info.player.toLowerCase() !== player.toLowerCase()) continue
+
+    if (!info.isActive || info.isLost) {
+      removeStoredGame(stored.gameId)
+      continue
+    }
+
+    const status = recoverableStatus(info)
+    let revealedMask = 0n
+    if (status === "playing") {
+      // An active game has no revealed mines, but only trusts cells the contract reports as safe
+      let safeCells: Array<{ x: number; y: number }>
+      try {
+        safeCells = await getRevealedSafeCells(publicClient, stored.gameId)
+      } catch (e) {
+        // Same as above: skips the game without dropping its record
+        console.error(`Error reading revealed cells of game ${stored.gameId}:`, e)
+        continue
+      }
+      for (const { x, y } of safeCells) {
+        revealedMask |= 1n << BigInt(cellIndex(x, y))
+      }
+    }
+
+    recoverable.push({
+      stored,
+      info,
+      status,
+      revealedMask,
+      revealedCount: countRevealedCells(revealedMask)
+    })
+  }
+
+  return recoverable
+}
@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest'
+import {
+  type Address,
+  type Hex,
+  createPublicClient,
+  createWalletClient,
+  keccak256,
+  parseEther,
+  publicActions,
+  toHex
+} from 'viem'
+import { privateKeyToAccount } from 'viem/accounts'
+import { monadTestnet } from 'viem/chains'
+import { createMonadMinesSimulator, SIMULATOR_ACCOUNT } from './simulator'
+import { registerSessionKey, revokeSessionKey, type WriteContractAsync } from './contract'
+import { activeSessionKeys, fetchSessionKeys, scanSessionKeyEvents, type SessionKeyEvents } from './sessionKeys'
+
+const KEY_A: Address = '0xaAaAaAaaAaAaAaaAaAAAAAAAAaaaAaAaAaaAaaAa'
+const KEY_B: Address = '0xbBbBBBBbbBBBbbbBbbBbbbbBBbBbbbbBbBbbBBbB'
+// Second Anvil dev key, a wallet other than the simulator account
+const OTHER_KEY: Hex = '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d'
+
+function event(sessionKey: Address, blockNumber: bigint, logIndex = 0) {
+  return {
+    eventName: 'SessionKeyRegistered' as const,
+    args: { user: SIMULATOR_ACCOUNT, sessionKey },
+    blockNumber,
+    logIndex,
+    transactionHash: keccak256(toHex(`${sessionKey}-${blockNumber}-${logIndex}`))
+  }
+}
+
+function events(registered: ReturnType<typeof event>[], revoked: ReturnType<typeof event>[]): SessionKeyEvents {
+  return {
+    registered,
+    revoked: revoked.map(entry => ({ ...entry, eventName: 'SessionKeyRevoked' as const }))
+  }
+}
+
+describe('activeSessionKeys', () => {
+  it('drops keys whose newest event is a revocation', () => {
+    const keys = activeSessionKeys(events([event(KEY_A, 10n), event(KEY_B, 11n)], [event(KEY_A, 12n)]))
+    expect(keys.map(key => key.sessionKey)).toEqual([KEY_B])
+    expect(keys[0].registeredBlock).toBe(11n)
+  })
+
+  it('keeps a key registered again after a revocation, newest first', () => {
+    const keys = activeSessionKeys(events(
+      [event(KEY_A, 10n), event(KEY_B, 11n), event(KEY_A, 13n)],
+      [event(KEY_A, 12n)]
+    ))
+    expect(keys.map(key => [key.sessionKey, key.registeredBlock])).toEqual([[KEY_A, 13n], [KEY_B, 11n]])
+  })
+
+  it('orders events of the same block by log index', () => {
+    expect(activeSessionKeys(events([event(KEY_A, 10n, 1)], [event(KEY_A, 10n, 2)]))).toEqual([])
+    expect(activeSessionKeys(events([event(KEY_A, 10n, 2)], [event(KEY_A, 10n, 1)]))).toHaveLength(1)
+  })
+})
+
+describe('fetchSessionKeys (simulator)', () => {
+  it('only returns keys still delegated to the user', async () => {
+    const sim = createMonadMinesSimulator({ entropyDelayMs: null })
+    const publicClient = createPublicClient({ chain: monadTestnet, transport: sim.transport, pollingInterval: 10 })
+    const mainClient = createWalletClient({ chain: monadTestnet, account: SIMULATOR_ACCOUNT, transport: sim.transport })
+    const otherClient = createWalletClient({
+      chain: monadTestnet,
+      account: privateKeyToAccount(OTHER_KEY),
+      transport: sim.transport,
+      pollingInterval: 10
+    }).extend(publicActions)
+    const writeContractAsync = ((args: Parameters<typeof mainClient.writeContract>[0]) =>
+      mainClient.writeContract(args)) as unknown as WriteContractAsync
+    const send = async (hash: Promise<Hex>) => publicClient.waitForTransactionReceipt({ hash: await hash })
+
+    await send(mainClient.sendTransaction({ to: otherClient.account.address, value: parseEther('1') }))
+    await send(registerSessionKey(writeContractAsync, KEY_A))
+    await send(registerSessionKey(writeContractAsync, KEY_B))
+    await send(registerSessionKey(writeContractAsync, otherClient.account.address))
+    await send(revokeSessionKey(writeContractAsync, KEY_A))
+    // Another wallet takes over KEY_B: its registration event is still in the user's logs
+    await send(registerSessionKey(
+      ((args: Parameters<typeof otherClient.writeContract>[0]) => otherClient.writeContract(args)) as unknown as WriteContractAsync,
+      KEY_B
+    ))
+
+    const latest = await publicClient.getBlockNumber()
+    const scanned = await scanSessionKeyEvents(publicClient, SIMULATOR_ACCOUNT, 0n, latest)
+    const candidates = activeSessionKeys(scanned)
+    expect(candidates.map(candidate => candidate.sessionKey)).toEqual([otherClient.account.address, KEY_B])
+
+    const keys = await fetchSessionKeys(publicClient, SIMULATOR_ACCOUNT, candidates, { requested: [], cellRevealed: [], gameOver: [] })
+    expect(keys).toHaveLength(1)
+    expect(keys[0]).toMatchObject({
+      sessionKey: otherClient.account.address,
+      txCount: 1,
+      lastActivityBlock: null
+    })
+    expect(keys[0].balance).toBeGreaterThan(0n)
+    expect(keys[0].balance).toBeLessThan(parseEther('1'))
+  })
+})
@@ -0,0 +1,167 @@
+// utils/sessionKeys.ts
+// Rebuilds the session keys delegated by a wallet from SessionKeyRegistered and SessionKeyRevoked logs
+
+import { type Address, type Hex, type PublicClient, isAddressEqual } from 'viem'
+import {
+  getContractLogs,
+  getSessionDelegate,
+  type SessionKeyRegisteredEvent,
+  type SessionKeyRevokedEvent
+} from './contract'
+import { decodeLogs, type LogMeta, type PlayerEvents } from './history'
+
+// Parallel RPC calls per batch (delegate checks, balances, tx lookups)
+const READ_BATCH_SIZE = 20
+// Most reveal/cashout txs read when looking for each key's last move
+const ACTIVITY_LOOKUPS = 40
+
+export type SessionKeyEvents = {
+  registered: Array<SessionKeyRegisteredEvent & LogMeta>
+  revoked: Array<SessionKeyRevokedEvent & LogMeta>
+}
+
+export type SessionKeyCandidate = {
+  sessionKey: Address
+  // Latest registration (null if it happened before the scanned range)
+  registeredBlock: bigint | null
+  registeredTx: Hex | null
+}
+
+export type SessionKeyInfo = SessionKeyCandidate & {
+  balance: bigint
+  // Transactions sent by the key (its nonce)
+  txCount: number
+  // Latest reveal or cashout sent by the key in the scanned range
+  lastActivityBlock: bigint | null
+  lastActivityTx: Hex | null
+}
+
+const isNewer = (a: LogMeta, b: LogMeta) =>
+  a.blockNumber > b.blockNumber || (a.blockNumber === b.blockNumber && a.logIndex > b.logIndex)
+
+/**
+ * Scans one block range for the user's session key registrations and revocations
+ */
+export async function scanSessionKeyEvents(
+  publicClient: PublicClient,
+  user: Address,
+  fromBlock: bigint,
+  toBlock: bigint
+): Promise<SessionKeyEvents> {
+  const registered = decodeLogs(
+    await getContractLogs(publicClient, 'SessionKeyRegistered', { user }, fromBlock, toBlock),
+    'SessionKeyRegistered'
+  )
+  const revoked = decodeLogs(
+    await getContractLogs(publicClient, 'SessionKeyRevoked', { user }, fromBlock, toBlock),
+    'SessionKeyRevoked'
+  )
+  return { registered, revoked }
+}
+
+/**
+ * Merges events of two scans (newer and older ranges)
+ */
+export function mergeSessionKeyEvents(a: SessionKeyEvents, b: SessionKeyEvents): SessionKeyEvents {
+  return {
+    registered: [...a.registered, ...b.registered],
+    revoked: [...a.revoked, ...b.revoked]
+  }
+}
+
+/**
+ * Replays the events: a key is still delegated if its newest event is a registration.
+ * Sorted by latest registration, newest first
+ * Note: another wallet can register the same key afterwards, see fetchSessionKeys
+ */
+export function activeSessionKeys(events: SessionKeyEvents): SessionKeyCandidate[] {
+  const latest = new Map<string, { event: LogMeta & { args: { sessionKey: Address } }; registered: boolean }>()
+  const replay = (event: LogMeta & { args: { sessionKey: Address } }, registered: boolean) => {
+    const key = event.args.sessionKey.toLowerCase()
+    const current = latest.get(key)
+    if (!current || isNewer(event, current.event)) latest.set(key, { event, registered })
+  }
+  events.registered.forEach(event => replay(event, true))
+  events.revoked.forEach(event => replay(event, false))
+
+  return [...latest.values()]
+    .filter(entry => entry.registered)
+    .sort((a, b) => (isNewer(a.event, b.event) ? -1 : isNewer(b.event, a.event) ? 1 : 0))
+    .map(({ event }) => ({
+      sessionKey: event.args.sessionKey,
+      registeredBlock: event.blockNumber,
+      registeredTx: event.transactionHash
+    }))
+}
+
+/**
+ * Finds the latest reveal or cashout tx sent by each key, newest moves first.
+ * Stops once every key is found or after ACTIVITY_LOOKUPS transactions
+ * @param activity - The user's game events (see scanPlayerEvents)
+ */
+export async function findLastActivity(
+  publicClient: PublicClient,
+  keys: Address[],
+  activity: PlayerEvents
+): Promise<Map<string, LogMeta>> {
+  const found = new Map<string, LogMeta>()
+  // A mine hit emits CellRevealed and GameOver in the same tx
+  const seen = new Set<Hex>()
+  const moves = [...activity.cellRevealed, ...activity.gameOver]
+    .sort((a, b) => (isNewer(a, b) ? -1 : isNewer(b, a) ? 1 : 0))
+    .filter(event => !seen.has(event.transactionHash) && !!seen.add(event.transactionHash))
+    .slice(0, ACTIVITY_LOOKUPS)
+  const wanted = new Set(keys.map(key => key.toLowerCase()))
+
+  for (let i = 0; i < moves.length && found.size < wanted.size; i += READ_BATCH_SIZE) {
+    const batch = moves.slice(i, i + READ_BATCH_SIZE)
+    const txs = await Promise.all(batch.map(event => publicClient.getTransaction({ hash: event.transactionHash }).catch(() => null)))
+    batch.forEach((event, index) => {
+      const from = txs[index]?.from.toLowerCase()
+      if (from && wanted.has(from) && !found.has(from)) found.set(from, event)
+    })
+  }
+  return found
+}
+
+/**
+ * Reads the state of each candidate, dropping keys no longer delegated to the user
+ * @param candidates - Keys from activeSessionKeys, plus any key known to be in use
+ * @param activity - The user's game events over the same range, for the last activity
+ */
+export async function fetchSessionKeys(
+  publicClient: PublicClient,
+  user: Address,
+  candidates: SessionKeyCandidate[],
+  activity: PlayerEvents
+): Promise<SessionKeyInfo[]> {
+  const active: SessionKeyCandidate[] = []
+  for (let i = 0; i < candidates.length; i += READ_BATCH_SIZE) {
+    const batch = candidates.slice(i, i + READ_BATCH_SIZE)
+    const delegates = await Promise.all(batch.map(candidate => getSessionDelegate(publicClient, candidate.sessionKey)))
+    active.push(...batch.filter((_, index) => isAddressEqual(delegates[index], user)))
+  }
+
+  const lastActivity = await findLastActivity(publicClient, active.map(candidate => candidate.sessionKey), activity)
+
+  const keys: SessionKeyInfo[] = []
+  for (let i = 0; i < active.length; i += READ_BATCH_SIZE) {
+    const batch = active.slice(i, i + READ_BATCH_SIZE)
+    const states = await Promise.all(batch.map(candidate => Promise.all([
+      publicClient.getBalance({ address: candidate.sessionKey }),
+      publicClient.getTransactionCount({ address: candidate.sessionKey })
+    ])))
+    batch.forEach((candidate, index) => {
+      const [balance, txCount] = states[index]
+      const last = lastActivity.get(candidate.sessionKey.toLowerCase())
+      keys.push({
+        ...candidate,
+        balance,
+        txCount,
+        lastActivityBlock: last?.blockNumber ?? null,
+        lastActivityTx: last?.transactionHash ?? null
+      })
+    })
+  }
+  return keys
+}
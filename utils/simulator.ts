@@ -0,0 +1,925 @@
+// utils/simulator.ts
+// In-memory MonadMines simulator (contract + Pyth Entropy) exposed as an EIP-1193 provider
+// and a viem custom transport, so utils/contract.ts and the UI run unchanged without the testnet
+
+import {
+  type AbiParameter,
+  type Address,
+  type Chain,
+  type ContractEventName,
+  type CustomTransport,
+  type EncodeEventTopicsParameters,
+  type Hash,
+  type Hex,
+  custom,
+  decodeFunctionData,
+  encodeAbiParameters,
+  encodeErrorResult,
+  encodeEventTopics,
+  encodeFunctionData,
+  encodeFunctionResult,
+  encodePacked,
+  getAddress,
+  hexToBigInt,
+  isAddressEqual,
+  keccak256,
+  numberToHex,
+  parseTransaction,
+  recoverTransactionAddress,
+  toHex,
+  zeroAddress
+} from 'viem'
+import { privateKeyToAccount } from 'viem/accounts'
+import { monadTestnet } from 'viem/chains'
+import { CONTRACT_ADDRESS, CONTRACT_ABI, ENTROPY_ADDRESS, ENTROPY_ABI } from './constants'
+import { type GameInfo, type MonadMinesAbi, ZERO_BYTES32 } from './contract'
+import { GRID_SIZE, cellIndex } from './board'
+import { PROBABILITY_BASE, computeNonceCommit, deriveGameSeed, isMine } from './verify'
+import { SOLIDITY_ERROR_ABI } from './errors'
+
+// Unlocked account used as the main wallet (first Anvil/Hardhat dev account)
+export const SIMULATOR_ACCOUNT: Address = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266'
+
+// Contract constants (same values as MonadMines.sol)
+const PARAM_CHANGE_DELAY = 24n * 60n * 60n
+const MIN_MINE_PROBABILITY = 100n
+const MAX_MINE_PROBABILITY = 5000n
+const MIN_REWARD_MULTIPLIER = 10000n
+const MAX_REWARD_MULTIPLIER = 20000n
+
+// Gas charged per call (rough testnet receipts, plain transfers cost 21000)
+const GAS_USED: Record<string, bigint> = {
+  transfer: 21000n,
+  registerSessionKey: 47000n,
+  revokeSessionKey: 27000n,
+  startGame: 160000n,
+  _entropyCallback: 50000n,
+  revealNonce: 75000n,
+  revealCell: 95000n,
+  cashOut: 55000n
+}
+const DEFAULT_GAS_USED = 50000n
+const BLOCK_GAS_LIMIT = 30_000_000n
+
+export type SimulatorOptions = {
+  chain?: Chain
+  // Unlocked accounts served by eth_accounts / eth_sendTransaction (first one is the owner)
+  accounts?: Array<{ address: Address; balance: bigint }>
+  // MON held by the contract to pay winners
+  houseBalance?: bigint
+  entropyFee?: bigint
+  mineProbability?: bigint
+  rewardMultiplier?: bigint
+  gasPrice?: bigint
+  // Delay before the Entropy callback; null only fulfills through fulfillEntropy
+  entropyDelayMs?: number | null
+  // Seed of the generated Pyth random numbers (same seed = same games)
+  randomSeed?: Hex
+  // Fixed start time: every block then advances the clock by one second
+  startTimestamp?: bigint
+}
+
+type PendingChange = { newValue: bigint; changeTime: bigint }
+
+type ContractState = {
+  // Keys are lowercase addresses
+  balances: Map<string, bigint>
+  nonces: Map<string, number>
+  sessionDelegates: Map<string, Address>
+  games: Map<bigint, GameInfo>
+  owner: Address
+  mineProbability: bigint
+  rewardMultiplier: bigint
+  pendingMineProbability: PendingChange
+  pendingRewardMultiplier: PendingChange
+  entropyFee: bigint
+  nextSequence: bigint
+}
+
+type CallContext = {
+  state: ContractState
+  from: Address
+  to: Address
+  value: bigint
+  data: Hex
+  timestamp: bigint
+  logs: Array<{ address: Address; topics: Hex[]; data: Hex }>
+  // Entropy sequence numbers requested by this call
+  entropyRequests: bigint[]
+}
+
+type SimBlock = { number: bigint; hash: Hash; timestamp: bigint; transactions: Hash[]; gasUsed: bigint }
+
+type RpcLog = {
+  address: Address
+  topics: Hex[]
+  data: Hex
+  blockNumber: Hex
+  blockHash: Hash
+  transactionHash: Hash
+  transactionIndex: Hex
+  logIndex: Hex
+  removed: false
+}
+
+type RpcRequest = { method: string; params?: unknown }
+
+export type SimulatorProvider = {
+  request: (args: RpcRequest) => Promise<unknown>
+  on: (event: string, listener: (...args: unknown[]) => void) => void
+  removeListener: (event: string, listener: (...args: unknown[]) => void) => void
+}
+
+export type MonadMinesSimulator = {
+  // EIP-1193 provider (main wallet connector)
+  provider: SimulatorProvider
+  // Drop-in replacement for http() in viem and wagmi clients
+  transport: CustomTransport
+  accounts: Address[]
+  /**
+   * Runs the Entropy callback of a pending request
+   * @param sequence - Game ID (Entropy sequence number)
+   * @param randomNumber - Pyth random number (derived from randomSeed if omitted)
+   */
+  fulfillEntropy: (sequence: bigint, randomNumber?: Hex) => Hash
+  // Runs the callback of every pending request
+  fulfillPendingEntropy: () => Hash[]
+  pendingEntropy: () => bigint[]
+  setBalance: (address: Address, balance: bigint) => void
+  // Moves the clock forward (parameter change timelocks)
+  increaseTime: (seconds: bigint) => void
+  getGame: (gameId: bigint) => GameInfo | undefined
+}
+
+/**
+ * Revert raised by a simulated call (data is the ABI encoded revert reason)
+ */
+export class SimulatorRevertError extends Error {
+  data: Hex
+
+  constructor(reason: string, data?: Hex) {
+    super(`execution reverted: ${reason}`)
+    this.name = 'SimulatorRevertError'
+    this.data = data ?? encodeErrorResult({ abi: SOLIDITY_ERROR_ABI, errorName: 'Error', args: [reason] })
+  }
+}
+
+// JSON-RPC error (code and data are read by viem's error parsing)
+function rpcError(code: number, message: string, data?: Hex): Error {
+  return Object.assign(new Error(message), { code, data })
+}
+
+function require(condition: boolean, reason: string): asserts condition {
+  if (!condition) throw new SimulatorRevertError(reason)
+}
+
+const key = (address: Address) => address.toLowerCase()
+
+const emptyGame = (): GameInfo => ({
+  player: zeroAddress,
+  currentPot: 0n,
+  seed: ZERO_BYTES32,
+  pythSeed: ZERO_BYTES32,
+  playerNonce: ZERO_BYTES32,
+  nonceCommit: ZERO_BYTES32,
+  revealedCells: 0n,
+  isActive: false,
+  isLost: false,
+  nonceRevealed: false
+})
+
+// ============ STATE HELPERS ============
+
+function balanceOf(state: ContractState, address: Address): bigint {
+  return state.balances.get(key(address)) ?? 0n
+}
+
+function transfer(state: ContractState, from: Address, to: Address, amount: bigint) {
+  if (amount === 0n) return
+  const fromBalance = balanceOf(state, from)
+  if (fromBalance < amount) throw rpcError(-32000, 'insufficient funds for transfer')
+  state.balances.set(key(from), fromBalance - amount)
+  state.balances.set(key(to), balanceOf(state, to) + amount)
+}
+
+function emit<eventName extends ContractEventName<MonadMinesAbi>>(
+  ctx: CallContext,
+  eventName: eventName,
+  args: Record<string, unknown>
+) {
+  const event = CONTRACT_ABI.find(item => item.type === 'event' && item.name === eventName)
+  if (!event || event.type !== 'event') throw new Error(`Event ${eventName} not found in ABI`)
+
+  const topics = encodeEventTopics({ abi: CONTRACT_ABI, eventName, args } as EncodeEventTopicsParameters) as Hex[]
+  const nonIndexed: readonly AbiParameter[] = event.inputs.filter(input => !input.indexed)
+  const data = encodeAbiParameters(nonIndexed, nonIndexed.map(input => args[input.name ?? '']))
+  ctx.logs.push({ address: CONTRACT_ADDRESS, topics, data })
+}
+
+function gasFor(to: Address | null, data: Hex): bigint {
+  if (data === '0x' || !to || !isAddressEqual(to, CONTRACT_ADDRESS)) return GAS_USED.transfer
+  try {
+    const { functionName } = decodeFunctionData({ abi: CONTRACT_ABI, data })
+    return GAS_USED[functionName] ?? DEFAULT_GAS_USED
+  } catch {
+    return DEFAULT_GAS_USED
+  }
+}
+
+// ============ CONTRACT PORT ============
+
+// Validates if caller is the owner OR the authorized key (isAuthorized modifier)
+function requireAuthorized(ctx: CallContext, gameId: bigint): GameInfo {
+  const game = ctx.state.games.get(gameId)
+  require(game !== undefined && game.player !== zeroAddress, "Game does not exist")
+  const delegate = ctx.state.sessionDelegates.get(key(ctx.from))
+  require(
+    isAddressEqual(ctx.from, game.player) || (delegate !== undefined && isAddressEqual(delegate, game.player)),
+    "Not authorized: Only Player or SessionKey"
+  )
+  return game
+}
+
+function requireOwner(ctx: CallContext) {
+  if (!isAddressEqual(ctx.from, ctx.state.owner)) {
+    throw new SimulatorRevertError(
+      'OwnableUnauthorizedAccount',
+      encodeErrorResult({ abi: CONTRACT_ABI, errorName: 'OwnableUnauthorizedAccount', args: [ctx.from] })
+    )
+  }
+}
+
+// Shared by revealNonce and the first revealCell
+function applyNonce(ctx: CallContext, gameId: bigint, game: GameInfo, nonce: Hex) {
+  require(computeNonceCommit(nonce) === game.nonceCommit, "Invalid nonce: commit mismatch")
+  game.playerNonce = nonce
+  game.nonceRevealed = true
+  game.seed = deriveGameSeed(game.pythSeed, nonce, game.player)
+  emit(ctx, 'NonceRevealed', { gameId, playerNonce: nonce })
+}
+
+function safeCells(state: ContractState, game: GameInfo): number[] {
+  const cells: number[] = []
+  if (game.player === zeroAddress || game.isLost || !game.nonceRevealed || game.seed === ZERO_BYTES32) return cells
+  for (let y = 0; y < GRID_SIZE; y++) {
+    for (let x = 0; x < GRID_SIZE; x++) {
+      const revealed = (game.revealedCells & (1n << BigInt(cellIndex(x, y)))) !== 0n
+      if (revealed && !isMine(game.seed, x, y, state.mineProbability)) cells.push(x, y)
+    }
+  }
+  return cells
+}
+
+function callEntropy(ctx: CallContext): Hex {
+  const call = decodeFunctionData({ abi: ENTROPY_ABI, data: ctx.data })
+  switch (call.functionName) {
+    case 'getFeeV2':
+      return encodeFunctionResult({ abi: ENTROPY_ABI, functionName: 'getFeeV2', result: ctx.state.entropyFee })
+  }
+}
+
+function callMonadMines(ctx: CallContext): Hex {
+  const { state } = ctx
+  const call = decodeFunctionData({ abi: CONTRACT_ABI, data: ctx.data })
+
+  const fn = CONTRACT_ABI.find(item => item.type === 'function' && item.name === call.functionName)
+  require(ctx.value === 0n || (fn?.type === 'function' && fn.stateMutability === 'payable'), "Function is not payable")
+
+  switch (call.functionName) {
+    // --- Constants and parameters ---
+    case 'BASE_DIVISOR':
+      return encodeFunctionResult({ abi: CONTRACT_ABI, functionName: 'BASE_DIVISOR', result: PROBABILITY_BASE })
+    case 'MIN_MINE_PROBABILITY':
+      return encodeFunctionResult({ abi: CONTRACT_ABI, functionName: 'MIN_MINE_PROBABILITY', result: MIN_MINE_PROBABILITY })
+    case 'MAX_MINE_PROBABILITY':
+      return encodeFunctionResult({ abi: CONTRACT_ABI, functionName: 'MAX_MINE_PROBABILITY', result: MAX_MINE_PROBABILITY })
+    case 'MIN_REWARD_MULTIPLIER':
+      return encodeFunctionResult({ abi: CONTRACT_ABI, functionName: 'MIN_REWARD_MULTIPLIER', result: MIN_REWARD_MULTIPLIER })
+    case 'MAX_REWARD_MULTIPLIER':
+      return encodeFunctionResult({ abi: CONTRACT_ABI, functionName: 'MAX_REWARD_MULTIPLIER', result: MAX_REWARD_MULTIPLIER })
+    case 'PARAM_CHANGE_DELAY':
+      return encodeFunctionResult({ abi: CONTRACT_ABI, functionName: 'PARAM_CHANGE_DELAY', result: PARAM_CHANGE_DELAY })
+    case 'MINE_PROBABILITY':
+      return encodeFunctionResult({ abi: CONTRACT_ABI, functionName: 'MINE_PROBABILITY', result: state.mineProbability })
+    case 'REWARD_MULTIPLIER':
+      return encodeFunctionResult({ abi: CONTRACT_ABI, functionName: 'REWARD_MULTIPLIER', result: state.rewardMultiplier })
+    case 'pendingMineProbability': {
+      const { newValue, changeTime } = state.pendingMineProbability
+      return encodeFunctionResult({ abi: CONTRACT_ABI, functionName: 'pendingMineProbability', result: [newValue, changeTime] })
+    }
+    case 'pendingRewardMultiplier': {
+      const { newValue, changeTime } = state.pendingRewardMultiplier
+      return encodeFunctionResult({ abi: CONTRACT_ABI, functionName: 'pendingRewardMultiplier', result: [newValue, changeTime] })
+    }
+    case 'entropy':
+      return encodeFunctionResult({ abi: CONTRACT_ABI, functionName: 'entropy', result: ENTROPY_ADDRESS })
+    case 'owner':
+      return encodeFunctionResult({ abi: CONTRACT_ABI, functionName: 'owner', result: state.owner })
+
+    // --- Views ---
+    case 'games': {
+      const game = state.games.get(call.args[0]) ?? emptyGame()
+      return encodeFunctionResult({
+        abi: CONTRACT_ABI,
+        functionName: 'games',
+        result: [
+          game.player, game.currentPot, game.seed, game.pythSeed, game.playerNonce,
+          game.nonceCommit, game.revealedCells, game.isActive, game.isLost, game.nonceRevealed
+        ]
+      })
+    }
+    case 'getGameState': {
+      const game = state.games.get(call.args[0]) ?? emptyGame()
+      // Only return seed if game is finished (won or lost)
+      const safeSeed = (!game.isActive || game.isLost) && game.nonceRevealed ? game.seed : ZERO_BYTES32
+      return encodeFunctionResult({
+        abi: CONTRACT_ABI,
+        functionName: 'getGameState',
+        result: [game.player, game.currentPot, safeSeed, game.isActive, game.isLost, game.revealedCells, game.nonceRevealed]
+      })
+    }
+    case 'getRevealedSafeCells': {
+      const game = state.games.get(call.args[0]) ?? emptyGame()
+      return encodeFunctionResult({ abi: CONTRACT_ABI, functionName: 'getRevealedSafeCells', result: safeCells(state, game) })
+    }
+    case 'getCellStatus': {
+      const [gameId, x, y] = call.args
+      const game = state.games.get(gameId) ?? emptyGame()
+      let isRevealed = false
+      let isSafe = false
+      if (game.player !== zeroAddress && game.nonceRevealed && game.seed !== ZERO_BYTES32) {
+        isRevealed = (game.revealedCells & (1n << BigInt(cellIndex(x, y)))) !== 0n
+        isSafe = isRevealed && !isMine(game.seed, x, y, state.mineProbability)
+      }
+      return encodeFunctionResult({ abi: CONTRACT_ABI, functionName: 'getCellStatus', result: [isRevealed, isSafe] })
+    }
+    case 'sessionDelegates': {
+      const delegate = state.sessionDelegates.get(key(call.args[0])) ?? zeroAddress
+      return encodeFunctionResult({ abi: CONTRACT_ABI, functionName: 'sessionDelegates', result: delegate })
+    }
+
+    // --- Session keys ---
+    case 'registerSessionKey': {
+      const [sessionKey] = call.args
+      require(sessionKey !== zeroAddress, "Session key cannot be zero")
+      require(!isAddressEqual(sessionKey, ctx.from), "Cannot delegate to self")
+      state.sessionDelegates.set(key(sessionKey), ctx.from)
+      emit(ctx, 'SessionKeyRegistered', { user: ctx.from, sessionKey })
+      return '0x'
+    }
+    case 'revokeSessionKey': {
+      const [sessionKey] = call.args
+      const delegate = state.sessionDelegates.get(key(sessionKey))
+      require(delegate !== undefined && isAddressEqual(delegate, ctx.from), "Not your session key")
+      state.sessionDelegates.delete(key(sessionKey))
+      emit(ctx, 'SessionKeyRevoked', { user: ctx.from, sessionKey })
+      return '0x'
+    }
+
+    // --- Game flow ---
+    case 'startGame': {
+      const [nonceCommit] = call.args
+      const pythFee = state.entropyFee
+      require(ctx.value > pythFee, "Sent value must cover fee + bet")
+      const betAmount = ctx.value - pythFee
+
+      // Request entropy from Pyth (the fee goes to the Entropy contract)
+      const sequenceNumber = state.nextSequence++
+      transfer(state, CONTRACT_ADDRESS, ENTROPY_ADDRESS, pythFee)
+      ctx.entropyRequests.push(sequenceNumber)
+
+      require((state.games.get(sequenceNumber)?.player ?? zeroAddress) === zeroAddress, "Game ID already exists")
+      state.games.set(sequenceNumber, {
+        ...emptyGame(),
+        player: ctx.from,
+        currentPot: betAmount,
+        nonceCommit,
+        isActive: true
+      })
+
+      emit(ctx, 'GameRequested', { gameId: sequenceNumber, player: ctx.from, nonceCommit })
+      return encodeFunctionResult({ abi: CONTRACT_ABI, functionName: 'startGame', result: sequenceNumber })
+    }
+    case '_entropyCallback': {
+      const [sequence, , randomNumber] = call.args
+      require(isAddressEqual(ctx.from, ENTROPY_ADDRESS), "Only Entropy can call this")
+      const game = state.games.get(sequence) ?? emptyGame()
+      game.pythSeed = randomNumber
+      state.games.set(sequence, game)
+      emit(ctx, 'GameStarted', { gameId: sequence })
+      return '0x'
+    }
+    case 'revealNonce': {
+      const [gameId, nonce] = call.args
+      const game = requireAuthorized(ctx, gameId)
+      require(game.isActive, "Game finished")
+      require(!game.nonceRevealed, "Nonce already revealed")
+      require(game.pythSeed !== ZERO_BYTES32, "Waiting for Pyth seed")
+      applyNonce(ctx, gameId, game, nonce)
+      return '0x'
+    }
+    case 'revealCell': {
+      const [gameId, x, y, nonce] = call.args
+      const game = requireAuthorized(ctx, gameId)
+      require(game.isActive, "Game finished")
+      require(game.pythSeed !== ZERO_BYTES32, "Waiting for Pyth seed")
+      require(!game.isLost, "You already lost")
+      require(x < GRID_SIZE && y < GRID_SIZE, "Invalid coordinates")
+
+      if (!game.nonceRevealed) {
+        require(nonce !== ZERO_BYTES32, "Nonce required for first reveal")
+        applyNonce(ctx, gameId, game, nonce)
+      } else {
+        require(game.seed !== ZERO_BYTES32, "Seed not ready")
+      }
+
+      const cellMask = 1n << BigInt(cellIndex(x, y))
+      require((game.revealedCells & cellMask) === 0n, "Cell already revealed")
+      game.revealedCells |= cellMask
+
+      if (isMine(game.seed, x, y, state.mineProbability)) {
+        game.isActive = false
+        game.isLost = true
+        game.currentPot = 0n
+        emit(ctx, 'CellRevealed', { gameId, x, y, isMine: true, newPot: 0n })
+        emit(ctx, 'GameOver', { gameId, player: game.player, finalPayout: 0n, isWin: false })
+      } else {
+        game.currentPot = (game.currentPot * state.rewardMultiplier) / PROBABILITY_BASE
+        emit(ctx, 'CellRevealed', { gameId, x, y, isMine: false, newPot: game.currentPot })
+      }
+      return '0x'
+    }
+    case 'cashOut': {
+      const [gameId] = call.args
+      const game = requireAuthorized(ctx, gameId)
+      require(game.isActive, "Game inactive")
+      require(game.nonceRevealed, "Nonce must be revealed first")
+      require(!game.isLost, "You lost, cannot withdraw")
+
+      const payout = game.currentPot
+      game.isActive = false
+      // Transfer to MAIN player (never to session key)
+      require(balanceOf(state, CONTRACT_ADDRESS) >= payout, "Failed to send funds")
+      transfer(state, CONTRACT_ADDRESS, game.player, payout)
+
+      emit(ctx, 'GameOver', { gameId, player: game.player, finalPayout: payout, isWin: true })
+      return '0x'
+    }
+
+    // --- Owner ---
+    case 'withdrawHouseFunds':
+      requireOwner(ctx)
+      transfer(state, CONTRACT_ADDRESS, state.owner, balanceOf(state, CONTRACT_ADDRESS))
+      return '0x'
+    case 'proposeMineProbabilityChange': {
+      requireOwner(ctx)
+      const [newProbability] = call.args
+      require(newProbability >= MIN_MINE_PROBABILITY && newProbability <= MAX_MINE_PROBABILITY, "Probability out of allowed range")
+      state.pendingMineProbability = { newValue: newProbability, changeTime: ctx.timestamp + PARAM_CHANGE_DELAY }
+      emit(ctx, 'ParameterChangeProposed', { parameter: 'MINE_PROBABILITY', newValue: newProbability, executeTime: state.pendingMineProbability.changeTime })
+      return '0x'
+    }
+    case 'executeMineProbabilityChange': {
+      requireOwner(ctx)
+      const pending = state.pendingMineProbability
+      require(pending.changeTime > 0n, "No pending change")
+      require(ctx.timestamp >= pending.changeTime, "Timelock not expired")
+      state.mineProbability = pending.newValue
+      state.pendingMineProbability = { newValue: 0n, changeTime: 0n }
+      emit(ctx, 'ParameterChanged', { parameter: 'MINE_PROBABILITY', newValue: pending.newValue })
+      return '0x'
+    }
+    case 'proposeRewardMultiplierChange': {
+      requireOwner(ctx)
+      const [newMultiplier] = call.args
+      require(newMultiplier >= MIN_REWARD_MULTIPLIER && newMultiplier <= MAX_REWARD_MULTIPLIER, "Multiplier out of allowed range")
+      state.pendingRewardMultiplier = { newValue: newMultiplier, changeTime: ctx.timestamp + PARAM_CHANGE_DELAY }
+      emit(ctx, 'ParameterChangeProposed', { parameter: 'REWARD_MULTIPLIER', newValue: newMultiplier, executeTime: state.pendingRewardMultiplier.changeTime })
+      return '0x'
+    }
+    case 'executeRewardMultiplierChange': {
+      requireOwner(ctx)
+      const pending = state.pendingRewardMultiplier
+      require(pending.changeTime > 0n, "No pending change")
+      require(ctx.timestamp >= pending.changeTime, "Timelock not expired")
+      state.rewardMultiplier = pending.newValue
+      state.pendingRewardMultiplier = { newValue: 0n, changeTime: 0n }
+      emit(ctx, 'ParameterChanged', { parameter: 'REWARD_MULTIPLIER', newValue: pending.newValue })
+      return '0x'
+    }
+    case 'cancelPendingChange': {
+      requireOwner(ctx)
+      const [isProbabilityChange] = call.args
+      if (isProbabilityChange) {
+        state.pendingMineProbability = { newValue: 0n, changeTime: 0n }
+      } else {
+        state.pendingRewardMultiplier = { newValue: 0n, changeTime: 0n }
+      }
+      return '0x'
+    }
+    case 'transferOwnership': {
+      requireOwner(ctx)
+      const [newOwner] = call.args
+      if (newOwner === zeroAddress) {
+        throw new SimulatorRevertError(
+          'OwnableInvalidOwner',
+          encodeErrorResult({ abi: CONTRACT_ABI, errorName: 'OwnableInvalidOwner', args: [zeroAddress] })
+        )
+      }
+      emit(ctx, 'OwnershipTransferred', { previousOwner: state.owner, newOwner })
+      state.owner = newOwner
+      return '0x'
+    }
+    case 'renounceOwnership':
+      requireOwner(ctx)
+      emit(ctx, 'OwnershipTransferred', { previousOwner: state.owner, newOwner: zeroAddress })
+      state.owner = zeroAddress
+      return '0x'
+  }
+}
+
+/**
+ * Executes a call against a state (mutates it, throws SimulatorRevertError on revert)
+ */
+function execute(ctx: CallContext): Hex {
+  transfer(ctx.state, ctx.from, ctx.to, ctx.value)
+  if (isAddressEqual(ctx.to, ENTROPY_ADDRESS)) return callEntropy(ctx)
+  if (!isAddressEqual(ctx.to, CONTRACT_ADDRESS)) return '0x'
+  // receive() accepts plain transfers (house funding)
+  if (ctx.data === '0x') return '0x'
+  return callMonadMines(ctx)
+}
+
+// ============ SIMULATOR ============
+
+/**
+ * Creates an in-memory chain with MonadMines and Entropy deployed at their configured addresses
+ */
+export function createMonadMinesSimulator(options: SimulatorOptions = {}): MonadMinesSimulator {
+  const chain = options.chain ?? monadTestnet
+  const gasPrice = options.gasPrice ?? 50_000_000_000n
+  const entropyDelayMs = options.entropyDelayMs === undefined ? 1500 : options.entropyDelayMs
+  const accounts = options.accounts ?? [{ address: SIMULATOR_ACCOUNT, balance: 100n * 10n ** 18n }]
+  const randomSeed = options.randomSeed ?? keccak256(toHex(crypto.getRandomValues(new Uint8Array(32))))
+  const virtualClock = options.startTimestamp !== undefined
+  const wallClock = () => BigInt(Math.floor(Date.now() / 1000))
+
+  let state: ContractState = {
+    balances: new Map(accounts.map(account => [key(account.address), account.balance])),
+    nonces: new Map(),
+    sessionDelegates: new Map(),
+    games: new Map(),
+    owner: accounts[0]?.address ?? zeroAddress,
+    mineProbability: options.mineProbability ?? 2000n,
+    rewardMultiplier: options.rewardMultiplier ?? 12000n,
+    pendingMineProbability: { newValue: 0n, changeTime: 0n },
+    pendingRewardMultiplier: { newValue: 0n, changeTime: 0n },
+    entropyFee: options.entropyFee ?? 10n ** 16n,
+    nextSequence: 1n
+  }
+  state.balances.set(key(CONTRACT_ADDRESS), options.houseBalance ?? 1000n * 10n ** 18n)
+  // State after each block (index = block number), for calls at a past block
+  const states: ContractState[] = [state]
+
+  const blocks: SimBlock[] = [{
+    number: 0n,
+    hash: keccak256(encodePacked(['string', 'uint256'], ['block', 0n])),
+    timestamp: options.startTimestamp ?? wallClock(),
+    transactions: [],
+    gasUsed: 0n
+  }]
+  const receipts = new Map<Hash, Record<string, unknown>>()
+  const transactions = new Map<Hash, Record<string, unknown>>()
+  const logs: RpcLog[] = []
+  const pending = new Set<bigint>()
+  let timeOffset = 0n
+
+  const head = () => blocks[blocks.length - 1]
+
+  // Timestamp of the next block (virtual clocks consume the pending increaseTime)
+  const previewTimestamp = () => {
+    const now = (virtualClock ? head().timestamp + 1n : wallClock()) + timeOffset
+    return now > head().timestamp ? now : head().timestamp + 1n
+  }
+
+  const nextTimestamp = () => {
+    const timestamp = previewTimestamp()
+    if (virtualClock) timeOffset = 0n
+    return timestamp
+  }
+
+  const blockNumberOf = (tag: unknown): bigint => {
+    if (typeof tag !== 'string' || ['latest', 'pending', 'safe', 'finalized'].includes(tag)) return head().number
+    if (tag === 'earliest') return 0n
+    return hexToBigInt(tag as Hex)
+  }
+
+  const formatBlock = (block: SimBlock) => ({
+    number: numberToHex(block.number),
+    hash: block.hash,
+    parentHash: block.number === 0n ? ZERO_BYTES32 : blocks[Number(block.number) - 1].hash,
+    timestamp: numberToHex(block.timestamp),
+    baseFeePerGas: numberToHex(gasPrice),
+    gasLimit: numberToHex(BLOCK_GAS_LIMIT),
+    gasUsed: numberToHex(block.gasUsed),
+    miner: zeroAddress,
+    nonce: '0x0000000000000000',
+    difficulty: '0x0',
+    extraData: '0x',
+    logsBloom: `0x${'0'.repeat(512)}`,
+    sha3Uncles: ZERO_BYTES32,
+    stateRoot: ZERO_BYTES32,
+    transactionsRoot: ZERO_BYTES32,
+    receiptsRoot: ZERO_BYTES32,
+    size: '0x0',
+    uncles: [],
+    transactions: block.transactions
+  })
+
+  // Runs a read-only call on a copy of the state (the latest one by default)
+  const dryRun = (from: Address, to: Address, value: bigint, data: Hex, base: ContractState = state): Hex => {
+    return execute({
+      state: structuredClone(base),
+      from,
+      to,
+      value,
+      data,
+      timestamp: previewTimestamp(),
+      logs: [],
+      entropyRequests: []
+    })
+  }
+
+  /**
+   * Mines a transaction in its own block; reverts are mined with status 0 and still pay gas
+   */
+  const mine = (tx: { hash: Hash; from: Address; to: Address; value: bigint; data: Hex; gas: bigint; chargeGas: boolean }) => {
+    const gasUsed = gasFor(tx.to, tx.data)
+    const cost = tx.chargeGas ? gasUsed * gasPrice : 0n
+    if (balanceOf(state, tx.from) < tx.value + cost) {
+      throw rpcError(-32000, 'insufficient funds for gas * price + value')
+    }
+
+    const timestamp = nextTimestamp()
+    const base = structuredClone(state)
+    const nonce = base.nonces.get(key(tx.from)) ?? 0
+    base.nonces.set(key(tx.from), nonce + 1)
+    base.balances.set(key(tx.from), balanceOf(base, tx.from) - cost)
+
+    const draft = structuredClone(base)
+    const ctx: CallContext = { state: draft, from: tx.from, to: tx.to, value: tx.value, data: tx.data, timestamp, logs: [], entropyRequests: [] }
+    let success = true
+    try {
+      execute(ctx)
+    } catch (e) {
+      if (!(e instanceof SimulatorRevertError)) throw e
+      success = false
+    }
+    state = success ? draft : base
+
+    const number = head().number + 1n
+    const block: SimBlock = {
+      number,
+      hash: keccak256(encodePacked(['string', 'uint256'], ['block', number])),
+      timestamp,
+      transactions: [tx.hash],
+      gasUsed
+    }
+    blocks.push(block)
+    states.push(state)
+
+    const blockFields = { blockNumber: numberToHex(number), blockHash: block.hash, transactionHash: tx.hash, transactionIndex: '0x0' as Hex }
+    const txLogs: RpcLog[] = success
+      ? ctx.logs.map((log, i) => ({ ...log, ...blockFields, logIndex: numberToHex(i), removed: false as const }))
+      : []
+    logs.push(...txLogs)
+
+    transactions.set(tx.hash, {
+      hash: tx.hash,
+      ...blockFields,
+      from: tx.from,
+      to: tx.to,
+      value: numberToHex(tx.value),
+      input: tx.data,
+      gas: numberToHex(tx.gas),
+      gasPrice: numberToHex(gasPrice),
+      nonce: numberToHex(nonce),
+      chainId: numberToHex(chain.id),
+      type: '0x0',
+      v: '0x0',
+      r: ZERO_BYTES32,
+      s: ZERO_BYTES32
+    })
+    receipts.set(tx.hash, {
+      ...blockFields,
+      from: tx.from,
+      to: tx.to,
+      contractAddress: null,
+      cumulativeGasUsed: numberToHex(gasUsed),
+      gasUsed: numberToHex(gasUsed),
+      effectiveGasPrice: numberToHex(gasPrice),
+      logs: txLogs,
+      logsBloom: `0x${'0'.repeat(512)}`,
+      status: success ? '0x1' : '0x0',
+      type: '0x0'
+    })
+
+    if (success) {
+      for (const sequence of ctx.entropyRequests) {
+        pending.add(sequence)
+        if (entropyDelayMs !== null) {
+          setTimeout(() => {
+            if (pending.has(sequence)) fulfillEntropy(sequence)
+          }, entropyDelayMs)
+        }
+      }
+    }
+    return tx.hash
+  }
+
+  const fulfillEntropy = (sequence: bigint, randomNumber?: Hex): Hash => {
+    pending.delete(sequence)
+    const data = encodeFunctionData({
+      abi: CONTRACT_ABI,
+      functionName: '_entropyCallback',
+      args: [sequence, ENTROPY_ADDRESS, randomNumber ?? keccak256(encodePacked(['bytes32', 'uint64'], [randomSeed, sequence]))]
+    })
+    const hash = keccak256(encodePacked(['string', 'uint64', 'uint256'], ['entropy', sequence, head().number]))
+    return mine({ hash, from: ENTROPY_ADDRESS, to: CONTRACT_ADDRESS, value: 0n, data, gas: GAS_USED._entropyCallback, chargeGas: false })
+  }
+
+  const matchesTopics = (log: RpcLog, topics: Array<Hex | Hex[] | null> | undefined) => {
+    if (!topics) return true
+    return topics.every((topic, i) => {
+      if (topic === null || topic === undefined) return true
+      const logTopic = log.topics[i]?.toLowerCase()
+      return Array.isArray(topic) ? topic.some(t => t.toLowerCase() === logTopic) : topic.toLowerCase() === logTopic
+    })
+  }
+
+  const getLogs = (filter: { address?: Address | Address[]; topics?: Array<Hex | Hex[] | null>; fromBlock?: string; toBlock?: string; blockHash?: Hash }) => {
+    const addresses = filter.address === undefined ? null : (Array.isArray(filter.address) ? filter.address : [filter.address])
+    const blockHash = filter.blockHash?.toLowerCase()
+    const from = blockNumberOf(filter.fromBlock ?? 'latest')
+    const to = blockNumberOf(filter.toBlock ?? 'latest')
+    return logs.filter(log => {
+      if (blockHash) {
+        if (log.blockHash.toLowerCase() !== blockHash) return false
+      } else {
+        const number = hexToBigInt(log.blockNumber)
+        if (number < from || number > to) return false
+      }
+      if (addresses && !addresses.some(address => isAddressEqual(address, log.address))) return false
+      return matchesTopics(log, filter.topics)
+    })
+  }
+
+  type RpcCall = { from?: Address; to?: Address; value?: Hex; data?: Hex; input?: Hex; gas?: Hex }
+
+  const callParams = (call: RpcCall) => {
+    if (!call.to) throw rpcError(-32602, 'Contract creation is not supported by the simulator')
+    return {
+      from: call.from ? getAddress(call.from) : zeroAddress,
+      to: getAddress(call.to),
+      value: call.value ? hexToBigInt(call.value) : 0n,
+      data: call.data ?? call.input ?? '0x'
+    }
+  }
+
+  // Converts simulated reverts to JSON-RPC errors
+  const withRevert = <T>(run: () => T): T => {
+    try {
+      return run()
+    } catch (e) {
+      if (e instanceof SimulatorRevertError) throw rpcError(3, e.message, e.data)
+      throw e
+    }
+  }
+
+  const request = async ({ method, params }: RpcRequest): Promise<unknown> => {
+    const args = (params ?? []) as unknown[]
+    switch (method) {
+      case 'eth_chainId':
+        return numberToHex(chain.id)
+      case 'net_version':
+        return String(chain.id)
+      case 'eth_accounts':
+      case 'eth_requestAccounts':
+        return accounts.map(account => account.address)
+      case 'wallet_requestPermissions':
+      case 'wallet_getPermissions':
+        return [{ parentCapability: 'eth_accounts' }]
+      case 'wallet_switchEthereumChain': {
+        const [{ chainId }] = args as [{ chainId: Hex }]
+        if (hexToBigInt(chainId) !== BigInt(chain.id)) throw rpcError(4902, `Unrecognized chain ID "${chainId}"`)
+        return null
+      }
+      case 'eth_blockNumber':
+        return numberToHex(head().number)
+      case 'eth_gasPrice':
+        return numberToHex(gasPrice)
+      case 'eth_maxPriorityFeePerGas':
+        return '0x0'
+      case 'eth_getBalance':
+        return numberToHex(balanceOf(state, args[0] as Address))
+      case 'eth_getTransactionCount':
+        return numberToHex(state.nonces.get(key(args[0] as Address)) ?? 0)
+      case 'eth_getCode': {
+        const address = args[0] as Address
+        return isAddressEqual(address, CONTRACT_ADDRESS) || isAddressEqual(address, ENTROPY_ADDRESS) ? '0x6080604052' : '0x'
+      }
+      case 'eth_getBlockByNumber': {
+        const number = blockNumberOf(args[0])
+        return number <= head().number ? formatBlock(blocks[Number(number)]) : null
+      }
+      case 'eth_getBlockByHash': {
+        const block = blocks.find(b => b.hash.toLowerCase() === String(args[0]).toLowerCase())
+        return block ? formatBlock(block) : null
+      }
+      case 'eth_call': {
+        const { from, to, value, data } = callParams(args[0] as RpcCall)
+        const number = blockNumberOf(args[1])
+        return withRevert(() => dryRun(from, to, value, data, number < head().number ? states[Number(number)] : state))
+      }
+      case 'eth_estimateGas': {
+        const { from, to, value, data } = callParams(args[0] as RpcCall)
+        withRevert(() => dryRun(from, to, value, data))
+        return numberToHex(gasFor(to, data))
+      }
+      case 'eth_sendTransaction': {
+        const call = args[0] as RpcCall
+        const { from, to, value, data } = callParams(call)
+        if (!accounts.some(account => isAddressEqual(account.address, from))) {
+          throw rpcError(4100, `Account ${from} is not unlocked in the simulator`)
+        }
+        // Wallets estimate before sending, so reverting calls never reach the chain
+        withRevert(() => dryRun(from, to, value, data))
+        const nonce = state.nonces.get(key(from)) ?? 0
+        const hash = keccak256(encodePacked(['address', 'uint256'], [from, BigInt(nonce)]))
+        return mine({ hash, from, to, value, data, gas: call.gas ? hexToBigInt(call.gas) : gasFor(to, data), chargeGas: true })
+      }
+      case 'eth_sendRawTransaction': {
+        const serializedTransaction = args[0] as Hex
+        const tx = parseTransaction(serializedTransaction)
+        const from = await recoverTransactionAddress({ serializedTransaction } as Parameters<typeof recoverTransactionAddress>[0])
+        if (tx.chainId !== undefined && tx.chainId !== chain.id) throw rpcError(-32000, 'invalid chain id')
+        const expectedNonce = state.nonces.get(key(from)) ?? 0
+        if ((tx.nonce ?? 0) < expectedNonce) throw rpcError(-32000, 'nonce too low')
+        if ((tx.nonce ?? 0) > expectedNonce) throw rpcError(-32000, 'nonce too high')
+        if (!tx.to) throw rpcError(-32602, 'Contract creation is not supported by the simulator')
+        return mine({
+          hash: keccak256(serializedTransaction),
+          from,
+          to: getAddress(tx.to),
+          value: tx.value ?? 0n,
+          data: tx.data ?? '0x',
+          gas: tx.gas ?? 0n,
+          chargeGas: true
+        })
+      }
+      case 'eth_signTypedData_v4': {
+        const [from, typedData] = args as [Address, string]
+        if (!accounts.some(account => isAddressEqual(account.address, from))) {
+          throw rpcError(4100, `Account ${from} is not unlocked in the simulator`)
+        }
+        // Unlocked accounts have no key: signs deterministically with a dev key derived from
+        // the address (the signature does not recover to the account)
+        return privateKeyToAccount(keccak256(from)).signTypedData(JSON.parse(typedData))
+      }
+      case 'eth_getTransactionReceipt':
+        return receipts.get(args[0] as Hash) ?? null
+      case 'eth_getTransactionByHash':
+        return transactions.get(args[0] as Hash) ?? null
+      case 'eth_getLogs':
+        return getLogs(args[0] as Parameters<typeof getLogs>[0])
+      default:
+        // Filters are not supported: viem falls back to eth_getLogs polling
+        throw rpcError(-32601, `Method ${method} is not supported by the simulator`)
+    }
+  }
+
+  const provider: SimulatorProvider = {
+    request,
+    on: () => {},
+    removeListener: () => {}
+  }
+
+  return {
+    provider,
+    transport: custom(provider, { key: 'simulator', name: 'MonadMines Simulator', retryCount: 0 }),
+    accounts: accounts.map(account => account.address),
+    fulfillEntropy,
+    fulfillPendingEntropy: () => [...pending].map(sequence => fulfillEntropy(sequence)),
+    pendingEntropy: () => [...pending],
+    setBalance: (address, balance) => {
+      state.balances.set(key(address), balance)
+    },
+    increaseTime: (seconds) => {
+      timeOffset += seconds
+    },
+    getGame: (gameId) => {
+      const game = state.games.get(gameId)
+      return game ? { ...game } : undefined
+    }
+  }
+}
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest'
+import { parseEther } from 'viem'
+import { maxSafeBet, potAfter, potSolvency, revealsCovered } from './solvency'
+
+describe('potAfter', () => {
+  it('compounds the multiplier with the contract rounding', () => {
+    expect(potAfter(1000n, 12000n, 0)).toBe(1000n)
+    expect(potAfter(1000n, 12000n, 2)).toBe(1440n)
+    // 7 * 1.2 = 8.4 -> 8, 8 * 1.2 = 9.6 -> 9
+    expect(potAfter(7n, 12000n, 2)).toBe(9n)
+  })
+})
+
+describe('maxSafeBet', () => {
+  it('caps the bet so its pot after the reveals fits the house balance plus the bet', () => {
+    const house = parseEther('10')
+    const max = maxSafeBet(house, 12000n, 10)!
+    expect(max % 10n ** 14n).toBe(0n)
+    expect(potAfter(max, 12000n, 10)).toBeLessThanOrEqual(house + max)
+    const above = max + parseEther('0.01')
+    expect(potAfter(above, 12000n, 10)).toBeGreaterThan(house + above)
+  })
+
+  it('covers any bet when the pot never grows', () => {
+    expect(maxSafeBet(0n, 10000n, 10)).toBeNull()
+    expect(maxSafeBet(parseEther('1'), 12000n, 0)).toBeNull()
+  })
+})
+
+describe('pot solvency', () => {
+  const house = 10000n
+
+  it('counts the further reveals the house can pay', () => {
+    // 5000 -> 6000 -> 7200 -> 8640 -> 10368
+    expect(revealsCovered(5000n, house, 12000n, 10)).toBe(3)
+    expect(revealsCovered(5000n, house, 12000n, 2)).toBe(2)
+  })
+
+  it('warns as the pot approaches the house balance', () => {
+    expect(potSolvency(5000n, house, 12000n)).toBe('ok')
+    expect(potSolvency(7200n, house, 12000n)).toBe('low')
+    expect(potSolvency(9000n, house, 12000n)).toBe('at_limit')
+    expect(potSolvency(10001n, house, 12000n)).toBe('insolvent')
+  })
+})
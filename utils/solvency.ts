@@ -0,0 +1,74 @@
+// utils/solvency.ts
+// House solvency: cashOut reverts ("Failed to send funds") when the contract balance can't
+// cover the pot, so bets and pots are checked against the house balance before that happens
+// Note: the balance also holds the pots of other players' active games, so these checks are
+// an upper bound on what the house can actually pay
+
+import { PROBABILITY_BASE } from './verify'
+
+// Safe reveals a new bet is checked against
+export const SOLVENCY_REVEALS = 10
+// In-game warning once the house covers fewer further reveals than this
+export const SOLVENCY_WARNING_REVEALS = 3
+
+// 0.0001 MON, so capped bets stay readable
+const BET_STEP = 10n ** 14n
+
+export type PotSolvency =
+  // The house can't pay the current pot: cashOut fails until it is funded again
+  | 'insolvent'
+  // The pot is covered, but the next safe reveal would exceed the house balance
+  | 'at_limit'
+  // Fewer than SOLVENCY_WARNING_REVEALS further reveals are covered
+  | 'low'
+  | 'ok'
+
+/**
+ * Pot after a number of safe reveals, with the contract's rounding (pot * multiplier / 10000 per reveal)
+ */
+export function potAfter(bet: bigint, multiplier: bigint, reveals: number): bigint {
+  let pot = bet
+  for (let i = 0; i < reveals; i++) {
+    pot = (pot * multiplier) / PROBABILITY_BASE
+  }
+  return pot
+}
+
+/**
+ * Largest bet the house can pay out after `reveals` safe reveals, rounded down to BET_STEP
+ * (the bet itself joins the house balance when the game starts); null if any bet is covered
+ * @param houseBalance - Contract balance before the bet
+ */
+export function maxSafeBet(houseBalance: bigint, multiplier: bigint, reveals: number): bigint | null {
+  const base = PROBABILITY_BASE ** BigInt(reveals)
+  const growth = multiplier ** BigInt(reveals)
+  if (growth <= base) return null
+  // bet * growth / base <= houseBalance + bet; each rounded reveal only lowers the pot
+  const max = (houseBalance * base) / (growth - base)
+  return (max / BET_STEP) * BET_STEP
+}
+
+/**
+ * Further safe reveals the house can still pay out, up to `limit`
+ * @param houseBalance - Contract balance (the pot of this game included)
+ */
+export function revealsCovered(pot: bigint, houseBalance: bigint, multiplier: bigint, limit: number): number {
+  let covered = 0
+  let next = pot
+  while (covered < limit) {
+    next = (next * multiplier) / PROBABILITY_BASE
+    if (next > houseBalance) break
+    covered++
+  }
+  return covered
+}
+
+/**
+ * Classifies the pot of an active game against the house balance
+ */
+export function potSolvency(pot: bigint, houseBalance: bigint, multiplier: bigint): PotSolvency {
+  if (pot > houseBalance) return 'insolvent'
+  const covered = revealsCovered(pot, houseBalance, multiplier, SOLVENCY_WARNING_REVEALS)
+  if (covered === 0) return 'at_limit'
+  return covered < SOLVENCY_WARNING_REVEALS ? 'low' : 'ok'
+}
@@ -0,0 +1,110 @@
+import { describe, it, expect, vi } from 'vitest'
+import {
+  type Hex,
+  createPublicClient,
+  createWalletClient,
+  keccak256,
+  parseEther,
+  publicActions,
+  toHex
+} from 'viem'
+import { privateKeyToAccount } from 'viem/accounts'
+import { monadTestnet } from 'viem/chains'
+import { createMonadMinesSimulator, SIMULATOR_ACCOUNT } from './simulator'
+import {
+  getEntropyFee,
+  getGameInfo,
+  registerSessionKey,
+  startGame,
+  revealCell,
+  findEventInLogs,
+  ZERO_BYTES32,
+  type WriteContractAsync
+} from './contract'
+import { computeMineLayout, deriveGameSeed } from './verify'
+import { createTxQueue, TxQueueClearedError } from './txQueue'
+
+const ADDRESS = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8'
+// Second Anvil dev key, used as the burner wallet
+const BURNER_KEY: Hex = '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d'
+const NONCE = keccak256(toHex('queue nonce'))
+
+// Fake write that records the nonce it was sent with
+const writeWith = (sent: number[]) => async (nonce: number) => {
+  sent.push(nonce)
+  return toHex(nonce, { size: 32 })
+}
+
+describe('createTxQueue', () => {
+  it('reads the pending count once and assigns the next nonces locally', async () => {
+    const getTransactionCount = vi.fn(async () => 5)
+    const queue = createTxQueue({ getTransactionCount } as never, ADDRESS)
+    const sent: number[] = []
+
+    await Promise.all([1, 2, 3].map(() => queue.send(writeWith(sent))))
+    expect(sent).toEqual([5, 6, 7])
+    expect(getTransactionCount).toHaveBeenCalledTimes(1)
+
+    queue.resync()
+    await queue.send(writeWith(sent))
+    expect(sent).toEqual([5, 6, 7, 5])
+  })
+
+  it('drops the sends queued behind a rejected one and reads the nonce again', async () => {
+    const getTransactionCount = vi.fn(async () => 0)
+    const queue = createTxQueue({ getTransactionCount } as never, ADDRESS)
+    const sent: number[] = []
+
+    const failed = queue.send(async () => { throw new Error('insufficient funds') })
+    const dropped = queue.send(writeWith(sent))
+    await expect(failed).rejects.toThrow('insufficient funds')
+    await expect(dropped).rejects.toBeInstanceOf(TxQueueClearedError)
+
+    await queue.send(writeWith(sent))
+    expect(sent).toEqual([0])
+    expect(getTransactionCount).toHaveBeenCalledTimes(2)
+  })
+})
+
+describe('pipelined reveals (simulator)', () => {
+  it('sends reveals back to back and stops at the mine', async () => {
+    const sim = createMonadMinesSimulator({ entropyDelayMs: null, randomSeed: keccak256(toHex('queue')) })
+    const publicClient = createPublicClient({ chain: monadTestnet, transport: sim.transport, pollingInterval: 10 })
+    const mainClient = createWalletClient({ chain: monadTestnet, account: SIMULATOR_ACCOUNT, transport: sim.transport })
+    const burnerClient = createWalletClient({
+      chain: monadTestnet,
+      account: privateKeyToAccount(BURNER_KEY),
+      transport: sim.transport,
+      pollingInterval: 10
+    }).extend(publicActions)
+    const writeContractAsync = ((args: Parameters<typeof mainClient.writeContract>[0]) =>
+      mainClient.writeContract(args)) as unknown as WriteContractAsync
+
+    await mainClient.sendTransaction({ to: burnerClient.account.address, value: parseEther('1') })
+    await registerSessionKey(writeContractAsync, burnerClient.account.address)
+    const fee = await getEntropyFee(publicClient)
+    const started = await publicClient.waitForTransactionReceipt({
+      hash: await startGame(writeContractAsync, keccak256(NONCE), fee + parseEther('0.1'))
+    })
+    const gameId = findEventInLogs(started.logs, 'GameRequested')!.parsed.args.gameId
+    sim.fulfillEntropy(gameId)
+
+    const info = await getGameInfo(publicClient, gameId)
+    const cells = computeMineLayout(deriveGameSeed(info.pythSeed, NONCE, SIMULATOR_ACCOUNT), 2000n)
+      .flatMap((row, y) => row.map((mine, x) => ({ x, y, mine })))
+    const safe = cells.filter(cell => !cell.mine)
+    const mine = cells.find(cell => cell.mine)!
+    const moves = [safe[0], safe[1], mine, safe[2]]
+
+    // Every reveal is sent before any receipt is read; only the first one carries the nonce
+    const queue = createTxQueue(burnerClient, burnerClient.account.address)
+    const hashes = await Promise.all(moves.map(({ x, y }, i) =>
+      queue.send(nonce => revealCell(burnerClient, gameId, x, y, i === 0 ? NONCE : ZERO_BYTES32, { nonce }))
+    ))
+    const receipts = await Promise.all(hashes.map(hash => burnerClient.waitForTransactionReceipt({ hash })))
+
+    expect(receipts.map(receipt => receipt.status)).toEqual(['success', 'success', 'success', 'reverted'])
+    expect(receipts.map(receipt => findEventInLogs(receipt.logs, 'CellRevealed')?.parsed.args.isMine)).toEqual([false, false, true, undefined])
+    expect(await burnerClient.getTransactionCount({ address: burnerClient.account.address })).toBe(4)
+  })
+})
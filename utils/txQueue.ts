@@ -0,0 +1,68 @@
+// utils/txQueue.ts
+// Burner transaction queue: nonces are assigned locally so several transactions can be
+// in flight at once, while broadcasts stay strictly in order (a rejected send never leaves
+// a nonce gap that would block the transactions after it)
+// A rejected send also drops every send queued behind it, since those were built on top of it
+
+import { type Address, type Hex, type PublicClient } from 'viem'
+
+/**
+ * Raised by sends that were still waiting for their turn when the queue was cleared
+ * (by clear() or by the rejection of an earlier send)
+ */
+export class TxQueueClearedError extends Error {
+  constructor() {
+    super('Transaction dropped: queue cleared before it was sent')
+    this.name = 'TxQueueClearedError'
+  }
+}
+
+export type TxQueue = {
+  // Broadcasts a transaction with the next local nonce once every earlier send was broadcast
+  send: (write: (nonce: number) => Promise<Hex>) => Promise<Hex>
+  // Drops the sends that were not broadcast yet (they reject with TxQueueClearedError)
+  clear: () => void
+  // Forgets the local nonce: the next send reads the pending transaction count again
+  resync: () => void
+}
+
+/**
+ * Creates the transaction queue of one account
+ * @param client - Client used to read the account's pending transaction count
+ * @param address - Account sending the transactions
+ */
+export function createTxQueue(client: Pick<PublicClient, 'getTransactionCount'>, address: Address): TxQueue {
+  let nextNonce: number | null = null
+  // Bumped by clear(): sends queued under an older generation are dropped
+  let generation = 0
+  let tail: Promise<unknown> = Promise.resolve()
+
+  const send = (write: (nonce: number) => Promise<Hex>): Promise<Hex> => {
+    const queuedIn = generation
+    const run = tail.then(async () => {
+      if (queuedIn !== generation) throw new TxQueueClearedError()
+      if (nextNonce === null) {
+        nextNonce = await client.getTransactionCount({ address, blockTag: 'pending' })
+      }
+      const nonce = nextNonce
+      try {
+        const hash = await write(nonce)
+        nextNonce = nonce + 1
+        return hash
+      } catch (e) {
+        // Unknown whether the node kept the nonce: read it again on the next send
+        nextNonce = null
+        generation++
+        throw e
+      }
+    })
+    tail = run.catch(() => {})
+    return run
+  }
+
+  return {
+    send,
+    clear: () => { generation++ },
+    resync: () => { nextNonce = null }
+  }
+}
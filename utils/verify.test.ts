@@ -0,0 +1,169 @@
+import { describe, it, expect } from 'vitest'
+import {
+  type Address,
+  type Hex,
+  createPublicClient,
+  createWalletClient,
+  encodePacked,
+  keccak256,
+  parseEther,
+  publicActions,
+  toHex
+} from 'viem'
+import { monadTestnet } from 'viem/chains'
+import {
+  computeNonceCommit,
+  deriveGameSeed,
+  isMine,
+  computeMineLayout,
+  loadGameProbabilities,
+  verifyGame,
+  PROBABILITY_BASE
+} from './verify'
+import {
+  ZERO_BYTES32,
+  cashOut,
+  executeMineProbabilityChange,
+  findEventInLogs,
+  getEntropyFee,
+  getGameInfo,
+  getGameState,
+  getParamChangeDelay,
+  proposeMineProbabilityChange,
+  revealCell,
+  startGame,
+  type GameInfo,
+  type GameStateInfo,
+  type WriteContractAsync
+} from './contract'
+import { createMonadMinesSimulator, SIMULATOR_ACCOUNT } from './simulator'
+import { GRID_SIZE, cellIndex } from './board'
+
+const PLAYER: Address = '0x1111111111111111111111111111111111111111'
+const NONCE = keccak256(toHex('player nonce'))
+const PYTH_SEED = keccak256(toHex('pyth seed'))
+
+describe('nonce commit', () => {
+  // Regression: the UI commits keccak256(nonce) while the contract checks
+  // keccak256(abi.encodePacked(nonce)); both must hash the raw 32 bytes
+  it('matches keccak256(abi.encodePacked(bytes32))', () => {
+    const packed = keccak256(encodePacked(['bytes32'], [NONCE]))
+    expect(computeNonceCommit(NONCE)).toBe(packed)
+    expect(keccak256(NONCE)).toBe(packed)
+  })
+
+  it('differs from hashing the hex string as text', () => {
+    expect(keccak256(toHex(NONCE))).not.toBe(computeNonceCommit(NONCE))
+  })
+})
+
+describe('mine layout', () => {
+  const seed = deriveGameSeed(PYTH_SEED, NONCE, PLAYER)
+
+  it('derives the seed from Pyth seed, nonce and player', () => {
+    expect(seed).toBe(keccak256(encodePacked(['bytes32', 'bytes32', 'address'], [PYTH_SEED, NONCE, PLAYER])))
+  })
+
+  it('places no mines at 0% and only mines at 100%', () => {
+    expect(computeMineLayout(seed, 0n).flat().some(Boolean)).toBe(false)
+    expect(computeMineLayout(seed, PROBABILITY_BASE).flat().every(Boolean)).toBe(true)
+  })
+
+  it('indexes the layout by row', () => {
+    const layout = computeMineLayout(seed, 2000n)
+    expect(layout).toHaveLength(GRID_SIZE)
+    expect(layout[3][7]).toBe(isMine(seed, 7, 3, 2000n))
+  })
+})
+
+describe('verifyGame', () => {
+  const mineProbability = 2000n
+  const seed = deriveGameSeed(PYTH_SEED, NONCE, PLAYER)
+  const layout = computeMineLayout(seed, mineProbability)
+  const safe = layout.flatMap((row, y) => row.map((mine, x) => ({ x, y, mine }))).filter(cell => !cell.mine)
+  const mask = safe.slice(0, 3).reduce((m, { x, y }) => m | (1n << BigInt(cellIndex(x, y))), 0n)
+
+  const game: GameInfo = {
+    player: PLAYER,
+    currentPot: 0n,
+    seed,
+    pythSeed: PYTH_SEED,
+    playerNonce: NONCE,
+    nonceCommit: computeNonceCommit(NONCE),
+    revealedCells: mask,
+    isActive: false,
+    isLost: false,
+    nonceRevealed: true
+  }
+  const state: GameStateInfo = {
+    player: PLAYER,
+    currentPot: 0n,
+    seed,
+    isActive: false,
+    isLost: false,
+    revealedCells: mask,
+    nonceRevealed: true
+  }
+
+  it('accepts a consistent finished game', () => {
+    const report = verifyGame(game, state, mineProbability)
+    expect(report.valid).toBe(true)
+    expect(report.layout).toEqual(layout)
+    expect(report.revealedCells).toHaveLength(3)
+  })
+
+  it('flags a nonce that does not match the commit', () => {
+    const report = verifyGame({ ...game, nonceCommit: keccak256(toHex(NONCE)) }, state, mineProbability)
+    expect(report.valid).toBe(false)
+    expect(report.checks.find(check => check.id === 'nonce_commit')?.passed).toBe(false)
+  })
+
+  it('stops early while the nonce is hidden', () => {
+    const report = verifyGame({ ...game, isActive: true, nonceRevealed: false, seed: ZERO_BYTES32 }, state, mineProbability)
+    expect(report.checks.map(check => check.id)).toEqual(['exists', 'nonce_revealed'])
+    expect(report.layout).toBeNull()
+  })
+})
+
+describe('historical probability (simulator)', () => {
+  it('checks each reveal with the probability in effect when it was played', async () => {
+    const sim = createMonadMinesSimulator({ entropyDelayMs: null, randomSeed: keccak256(toHex('verify')), startTimestamp: 1_700_000_000n })
+    const publicClient = createPublicClient({ chain: monadTestnet, transport: sim.transport, pollingInterval: 10 })
+    const client = createWalletClient({ chain: monadTestnet, account: SIMULATOR_ACCOUNT, transport: sim.transport, pollingInterval: 10 })
+      .extend(publicActions)
+    const writeContractAsync = ((args: Parameters<typeof client.writeContract>[0]) =>
+      client.writeContract(args)) as unknown as WriteContractAsync
+    const send = async (hash: Promise<Hex>) => publicClient.waitForTransactionReceipt({ hash: await hash })
+
+    const fee = await getEntropyFee(publicClient)
+    const started = await send(startGame(writeContractAsync, computeNonceCommit(NONCE), fee + parseEther('0.1')))
+    const gameId = findEventInLogs(started.logs, 'GameRequested')!.parsed.args.gameId
+    sim.fulfillEntropy(gameId)
+
+    // A cell safe at 20% but a mine at 50%, then one safe at 50%
+    const { pythSeed } = await getGameInfo(publicClient, gameId)
+    const seed = deriveGameSeed(pythSeed, NONCE, SIMULATOR_ACCOUNT)
+    const cells = Array.from({ length: GRID_SIZE * GRID_SIZE }, (_, i) => ({ x: i % GRID_SIZE, y: Math.floor(i / GRID_SIZE) }))
+    const early = cells.find(({ x, y }) => !isMine(seed, x, y, 2000n) && isMine(seed, x, y, 5000n))!
+    const late = cells.find(({ x, y }) => !isMine(seed, x, y, 5000n))!
+
+    await send(revealCell(client, gameId, early.x, early.y, NONCE))
+    await send(proposeMineProbabilityChange(writeContractAsync, 5000n))
+    sim.increaseTime(await getParamChangeDelay(publicClient))
+    await send(executeMineProbabilityChange(writeContractAsync))
+    await send(revealCell(client, gameId, late.x, late.y, ZERO_BYTES32))
+    await send(cashOut(client, gameId))
+
+    const probabilities = await loadGameProbabilities(publicClient, gameId)
+    expect(probabilities).toEqual({
+      mineProbability: 5000n,
+      cellProbabilities: new Map([[cellIndex(early.x, early.y), 2000n], [cellIndex(late.x, late.y), 5000n]]),
+      historical: true
+    })
+
+    const [game, state] = await Promise.all([getGameInfo(publicClient, gameId), getGameState(publicClient, gameId)])
+    expect(verifyGame(game, state, probabilities.mineProbability, probabilities.cellProbabilities).valid).toBe(true)
+    // The current value alone turns the first reveal into a mine
+    expect(verifyGame(game, state, 5000n).valid).toBe(false)
+  })
+})
@@ -0,0 +1,253 @@
+// utils/verify.ts
+// Off-chain port of the MonadMines randomness so finished games can be audited
+
+import { type Address, type Hex, type PublicClient, encodePacked, keccak256, zeroAddress } from 'viem'
+import {
+  type GameInfo,
+  type GameStateInfo,
+  ZERO_BYTES32,
+  findFirstBlock,
+  getContractLogs,
+  getGameInfo,
+  getMineProbability
+} from './contract'
+import { GRID_SIZE, cellIndex, revealedCellsList } from './board'
+import { CONTRACT_DEPLOY_BLOCK } from './constants'
+import { decodeLogs } from './history'
+import { sortEvents } from './gameSync'
+
+// Same base used by MINE_PROBABILITY in the contract (10000 = 100%)
+export const PROBABILITY_BASE = 10000n
+
+// ============ CONTRACT PORT ============
+
+/**
+ * Computes the nonce commit exactly like the contract: keccak256(abi.encodePacked(nonce))
+ */
+export function computeNonceCommit(nonce: Hex): Hex {
+  return keccak256(encodePacked(['bytes32'], [nonce]))
+}
+
+/**
+ * Computes the final game seed: keccak256(abi.encodePacked(pythSeed, playerNonce, player))
+ */
+export function deriveGameSeed(pythSeed: Hex, playerNonce: Hex, player: Address): Hex {
+  return keccak256(encodePacked(['bytes32', 'bytes32', 'address'], [pythSeed, playerNonce, player]))
+}
+
+/**
+ * Port of MonadMines._isMine
+ * @param seed - Final game seed
+ * @param x - Cell X coordinate
+ * @param y - Cell Y coordinate
+ * @param mineProbability - MINE_PROBABILITY (base 10000)
+ */
+export function isMine(seed: Hex, x: number, y: number, mineProbability: bigint): boolean {
+  const cellHash = keccak256(encodePacked(['bytes32', 'uint8', 'uint8'], [seed, x, y]))
+  const randomValue = BigInt(cellHash) % PROBABILITY_BASE
+  return randomValue < mineProbability
+}
+
+/**
+ * Builds the full mine layout for a seed (rows indexed by y)
+ */
+export function computeMineLayout(seed: Hex, mineProbability: bigint): boolean[][] {
+  const layout: boolean[][] = []
+  for (let y = 0; y < GRID_SIZE; y++) {
+    const row: boolean[] = []
+    for (let x = 0; x < GRID_SIZE; x++) {
+      row.push(isMine(seed, x, y, mineProbability))
+    }
+    layout.push(row)
+  }
+  return layout
+}
+
+// ============ HISTORICAL PROBABILITY ============
+
+export type GameProbabilities = {
+  // MINE_PROBABILITY after the game's last move, used for the mine layout
+  mineProbability: bigint
+  // MINE_PROBABILITY each revealed cell was checked with, by cell index
+  cellProbabilities: Map<number, bigint>
+  // False when past state couldn't be read: the current value stands in for every cell
+  historical: boolean
+}
+
+/**
+ * Reads the MINE_PROBABILITY a game was played with: the value at the block it started,
+ * then the ParameterChanged events replayed over its reveals (the contract applies the
+ * value of the reveal's block). Falls back to the current value if the RPC doesn't serve
+ * historical state
+ */
+export async function loadGameProbabilities(
+  publicClient: Pick<PublicClient, 'readContract' | 'getLogs' | 'getBlockNumber'>,
+  gameId: bigint
+): Promise<GameProbabilities> {
+  try {
+    const latest = await publicClient.getBlockNumber()
+    const startBlock = await findFirstBlock(CONTRACT_DEPLOY_BLOCK, latest, async blockNumber =>
+      (await getGameInfo(publicClient, gameId, blockNumber)).player !== zeroAddress
+    )
+    if (startBlock === null) throw new Error(`Game ${gameId} not found`)
+    const endBlock = await findFirstBlock(startBlock, latest, async blockNumber => {
+      const game = await getGameInfo(publicClient, gameId, blockNumber)
+      return !game.isActive || game.isLost
+    }) ?? latest
+
+    const [initial, changeLogs, revealLogs] = await Promise.all([
+      getMineProbability(publicClient, startBlock),
+      getContractLogs(publicClient, 'ParameterChanged', undefined, startBlock, endBlock),
+      getContractLogs(publicClient, 'CellRevealed', { gameId }, startBlock, endBlock)
+    ])
+    const changes = decodeLogs(changeLogs, 'ParameterChanged')
+      .filter(event => event.args.parameter === 'MINE_PROBABILITY')
+    const reveals = decodeLogs(revealLogs, 'CellRevealed')
+
+    let mineProbability = initial
+    const cellProbabilities = new Map<number, bigint>()
+    for (const event of sortEvents([...changes, ...reveals])) {
+      if (event.eventName === 'ParameterChanged') mineProbability = event.args.newValue
+      else cellProbabilities.set(cellIndex(event.args.x, event.args.y), mineProbability)
+    }
+    return { mineProbability, cellProbabilities, historical: true }
+  } catch (e) {
+    console.error('Historical mine probability unavailable, using the current one:', e)
+    return { mineProbability: await getMineProbability(publicClient), cellProbabilities: new Map(), historical: false }
+  }
+}
+
+// ============ VERIFICATION ============
+
+export type VerificationCheck = {
+  id: 'exists' | 'nonce_revealed' | 'nonce_commit' | 'seed' | 'public_seed' | 'outcome'
+  label: string
+  passed: boolean
+  detail?: string
+}
+
+export type VerificationReport = {
+  // True only when every check passed
+  valid: boolean
+  // False while the game is still running (mines are not shown in that case)
+  finished: boolean
+  checks: VerificationCheck[]
+  recomputedCommit: Hex | null
+  recomputedSeed: Hex | null
+  revealedCells: Array<{ x: number; y: number; isMine: boolean }>
+  // Mine layout, only available for finished games with a valid seed
+  layout: boolean[][] | null
+}
+
+/**
+ * Verifies a game against the data stored on-chain
+ * @param game - Full game struct (games mapping)
+ * @param state - Public game state (getGameState)
+ * @param mineProbability - MINE_PROBABILITY used to recompute the mines
+ * @param cellProbabilities - MINE_PROBABILITY each revealed cell was played with, when it
+ * differs from mineProbability (see loadGameProbabilities)
+ */
+export function verifyGame(
+  game: GameInfo,
+  state: GameStateInfo,
+  mineProbability: bigint,
+  cellProbabilities: ReadonlyMap<number, bigint> = new Map()
+): VerificationReport {
+  const checks: VerificationCheck[] = []
+  const finished = !game.isActive || game.isLost
+  const exists = game.player !== '0x0000000000000000000000000000000000000000'
+
+  checks.push({
+    id: 'exists',
+    label: 'Game exists',
+    passed: exists
+  })
+
+  if (!exists) {
+    return {
+      valid: false,
+      finished,
+      checks,
+      recomputedCommit: null,
+      recomputedSeed: null,
+      revealedCells: [],
+      layout: null
+    }
+  }
+
+  checks.push({
+    id: 'nonce_revealed',
+    label: 'Player nonce revealed',
+    passed: game.nonceRevealed,
+    detail: game.nonceRevealed ? undefined : 'The nonce is revealed on the first move; nothing can be verified yet'
+  })
+
+  if (!game.nonceRevealed) {
+    return {
+      valid: false,
+      finished,
+      checks,
+      recomputedCommit: null,
+      recomputedSeed: null,
+      revealedCells: [],
+      layout: null
+    }
+  }
+
+  // 1. Nonce matches the commit sent in startGame
+  const recomputedCommit = computeNonceCommit(game.playerNonce)
+  checks.push({
+    id: 'nonce_commit',
+    label: 'Nonce matches commit',
+    passed: recomputedCommit === game.nonceCommit,
+    detail: recomputedCommit === game.nonceCommit
+      ? undefined
+      : `keccak256(nonce) = ${recomputedCommit}, stored commit = ${game.nonceCommit}`
+  })
+
+  // 2. Final seed derived from Pyth seed + nonce + player
+  const recomputedSeed = deriveGameSeed(game.pythSeed, game.playerNonce, game.player)
+  checks.push({
+    id: 'seed',
+    label: 'Seed derived from Pyth seed and nonce',
+    passed: recomputedSeed === game.seed,
+    detail: recomputedSeed === game.seed
+      ? undefined
+      : `recomputed = ${recomputedSeed}, on-chain = ${game.seed}`
+  })
+
+  // 3. getGameState only exposes the seed once the game is over
+  if (finished && state.seed !== ZERO_BYTES32) {
+    checks.push({
+      id: 'public_seed',
+      label: 'Public seed matches stored seed',
+      passed: state.seed === game.seed,
+      detail: state.seed === game.seed ? undefined : `getGameState = ${state.seed}, games = ${game.seed}`
+    })
+  }
+
+  // 4. Outcome: a lost game must contain exactly one revealed mine, any other game none
+  const revealedCells = revealedCellsList(game.revealedCells).map(({ x, y }) => ({
+    x,
+    y,
+    isMine: isMine(game.seed, x, y, cellProbabilities.get(cellIndex(x, y)) ?? mineProbability)
+  }))
+  const minesHit = revealedCells.filter(cell => cell.isMine).length
+  const outcomeOk = game.isLost ? minesHit === 1 : minesHit === 0
+  checks.push({
+    id: 'outcome',
+    label: game.isLost ? 'Exactly one revealed mine (lost)' : 'No revealed mines',
+    passed: outcomeOk,
+    detail: outcomeOk ? undefined : `${minesHit} revealed cell(s) are mines with the probability they were played with`
+  })
+
+  return {
+    valid: checks.every(check => check.passed),
+    finished,
+    checks,
+    recomputedCommit,
+    recomputedSeed,
+    revealedCells,
+    layout: finished && recomputedSeed === game.seed ? computeMineLayout(game.seed, mineProbability) : null
+  }
+}